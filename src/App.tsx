@@ -1,13 +1,50 @@
-import { useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useAuth } from './contexts/AuthContext';
 import { Auth } from './components/Auth';
 import { RoomList } from './components/RoomList';
 import { ChatRoom } from './components/ChatRoom';
+import { NotificationProvider } from './contexts/NotificationContext';
 import { Room } from './lib/supabase';
+import { redeemInvite, takeInviteCodeFromUrl } from './lib/rooms';
+import { MessageTarget } from './lib/messages';
 
 function App() {
   const { user, loading } = useAuth();
   const [selectedRoom, setSelectedRoom] = useState<Room | null>(null);
+  const [notice, setNotice] = useState('');
+  const [focusMessage, setFocusMessage] = useState<MessageTarget | null>(null);
+
+  // Invite links open the app with `?invite=<code>`; redeem it once signed in.
+  useEffect(() => {
+    if (!user) return;
+
+    const code = takeInviteCodeFromUrl();
+    if (!code) return;
+
+    redeemInvite(code)
+      .then(setSelectedRoom)
+      .catch((error) => {
+        setNotice(error instanceof Error ? error.message : 'Could not join room');
+      });
+  }, [user]);
+
+  const selectRoom = useCallback((room: Room | null) => {
+    setSelectedRoom(room);
+    setFocusMessage(null);
+  }, []);
+
+  const closeRoom = useCallback((message?: string) => {
+    selectRoom(null);
+    setNotice(message ?? '');
+  }, [selectRoom]);
+
+  const openMessage = useCallback((room: Room, messageId: string, threadId: string | null) => {
+    setSelectedRoom(room);
+    setFocusMessage({ roomId: room.id, messageId, threadId });
+    setNotice('');
+  }, []);
+
+  const clearFocusMessage = useCallback(() => setFocusMessage(null), []);
 
   if (loading) {
     return (
@@ -22,21 +59,34 @@ function App() {
   }
 
   return (
-    <div className="h-screen flex overflow-hidden">
-      <RoomList selectedRoom={selectedRoom} onSelectRoom={setSelectedRoom} />
-      {selectedRoom ? (
-        <ChatRoom room={selectedRoom} />
-      ) : (
-        <div className="flex-1 flex items-center justify-center bg-gray-50">
-          <div className="text-center">
-            <h2 className="text-2xl font-bold text-gray-800 mb-2">
-              Welcome to your communication app
-            </h2>
-            <p className="text-gray-600">Select or create a room to start chatting</p>
+    <NotificationProvider onOpenMessage={openMessage}>
+      <div className="h-screen flex overflow-hidden">
+        <RoomList
+          selectedRoom={selectedRoom}
+          onSelectRoom={selectRoom}
+          onOpenMessage={openMessage}
+        />
+        {selectedRoom ? (
+          <ChatRoom
+            room={selectedRoom}
+            onOpenRoom={selectRoom}
+            onClose={closeRoom}
+            focusMessage={focusMessage}
+            onFocusHandled={clearFocusMessage}
+          />
+        ) : (
+          <div className="flex-1 flex items-center justify-center bg-gray-50">
+            <div className="text-center">
+              <h2 className="text-2xl font-bold text-gray-800 mb-2">
+                Welcome to your communication app
+              </h2>
+              <p className="text-gray-600">Select or create a room to start chatting</p>
+              {notice && <p className="mt-4 text-sm text-red-600">{notice}</p>}
+            </div>
           </div>
-        </div>
-      )}
-    </div>
+        )}
+      </div>
+    </NotificationProvider>
   );
 }
 
@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react';
+import { Download, FileText } from 'lucide-react';
+import { MessageAttachment } from '../lib/supabase';
+import { formatBytes, getAttachmentUrls, isImage, isVideo } from '../lib/attachments';
+
+interface AttachmentListProps {
+  attachments: MessageAttachment[];
+  alignEnd?: boolean;
+}
+
+const MAX_PREVIEW_WIDTH = 400;
+const MAX_PREVIEW_HEIGHT = 300;
+
+// Reserve the preview's box up front so images loading in don't jump the scroll.
+const previewSize = (attachment: MessageAttachment) => {
+  if (!attachment.width || !attachment.height) return undefined;
+
+  const scale = Math.min(
+    1,
+    MAX_PREVIEW_WIDTH / attachment.width,
+    MAX_PREVIEW_HEIGHT / attachment.height
+  );
+  return {
+    width: Math.round(attachment.width * scale),
+    height: Math.round(attachment.height * scale),
+  };
+};
+
+export function AttachmentList({ attachments, alignEnd = false }: AttachmentListProps) {
+  const [urls, setUrls] = useState<Map<string, string>>(new Map());
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getAttachmentUrls(attachments).then((result) => {
+      if (!cancelled) setUrls(result);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [attachments]);
+
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className={`flex flex-col gap-2 mt-1 ${alignEnd ? 'items-end' : 'items-start'}`}>
+      {attachments.map((attachment) => {
+        const url = urls.get(attachment.storage_path);
+        const size = previewSize(attachment);
+
+        if (isImage(attachment.mime_type)) {
+          return (
+            <a
+              key={attachment.id}
+              href={url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="block rounded-xl overflow-hidden bg-gray-100 max-w-full"
+              style={size}
+            >
+              {url && (
+                <img
+                  src={url}
+                  alt={attachment.file_name}
+                  loading="lazy"
+                  className="block max-w-full max-h-[300px] object-contain"
+                />
+              )}
+            </a>
+          );
+        }
+
+        if (isVideo(attachment.mime_type)) {
+          return (
+            <div
+              key={attachment.id}
+              className="rounded-xl overflow-hidden bg-slate-900 max-w-full"
+              style={size}
+            >
+              {url && (
+                <video src={url} controls preload="metadata" className="block max-w-full max-h-[300px]" />
+              )}
+            </div>
+          );
+        }
+
+        return (
+          <a
+            key={attachment.id}
+            href={url}
+            download={attachment.file_name}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-3 w-72 max-w-full px-3 py-2 bg-white border border-gray-200 rounded-xl hover:border-gray-300 transition text-left"
+          >
+            <FileText className="w-8 h-8 text-blue-600 flex-shrink-0" />
+            <span className="min-w-0 flex-1">
+              <span className="block text-sm font-medium text-gray-800 truncate">
+                {attachment.file_name}
+              </span>
+              <span className="block text-xs text-gray-500">
+                {formatBytes(attachment.size_bytes)}
+              </span>
+            </span>
+            <Download className="w-4 h-4 text-gray-400 flex-shrink-0" />
+          </a>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,227 +1,731 @@
-import { useState, useEffect, useRef } from 'react';
-import { supabase, Room, Message, RoomParticipant } from '../lib/supabase';
+import { Fragment, useState, useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import { supabase, Room, Message, MessageMention } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import { Send, Users } from 'lucide-react';
+import {
+  Volume2,
+  MicOff,
+  Headphones,
+  ArrowDown,
+  Loader2,
+  X,
+  Upload,
+  UserPlus,
+  Lock,
+  Settings,
+  Archive,
+  ShieldAlert,
+} from 'lucide-react';
 import { MediaControls } from './MediaControls';
+import { MessageItem } from './MessageItem';
+import { ThreadPanel } from './ThreadPanel';
+import { ComposerLock, MessageComposer, MessageComposerHandle } from './MessageComposer';
+import { ParticipantList } from './ParticipantList';
+import { InviteModal } from './InviteModal';
+import { RoomSettingsModal } from './RoomSettingsModal';
+import { ModerationModal } from './ModerationModal';
+import { NotificationLevelMenu } from './NotificationLevelMenu';
+import { useVoiceStates } from '../hooks/useVoiceStates';
+import { useRoomPresence } from '../hooks/useRoomPresence';
+import { useRoomMembers } from '../hooks/useRoomMembers';
+import { useMessageHistory } from '../hooks/useMessageHistory';
+import { useMessageReactions } from '../hooks/useMessageReactions';
+import { useRoomActivity } from '../hooks/useRoomActivity';
+import { useOutbox } from '../hooks/useOutbox';
+import { HEARTBEAT_INTERVAL_MS } from '../lib/presence';
+import { MessageTarget, previewOf } from '../lib/messages';
+import { outbox } from '../lib/outbox';
+import { stripMarkdown } from '../lib/markdown';
+import { UploadedAttachment } from '../lib/attachments';
+import { isDirectMessage, openDirectMessage, roomDisplayName } from '../lib/directMessages';
+import { canModerate, setMemberRole } from '../lib/rooms';
+import { isTimedOut } from '../lib/moderation';
+import { loadLastReadAt, markRoomRead } from '../lib/unread';
+import { GROUP_MENTIONS, MentionCandidate, mentionNames } from '../lib/mentions';
+import { describeTyping, READ_RECEIPTS_MAX_MEMBERS } from '../lib/roomActivity';
 
 interface ChatRoomProps {
   room: Room;
+  onOpenRoom: (room: Room) => void;
+  /** Leave the room view, optionally explaining why (e.g. after a kick). */
+  onClose: (notice?: string) => void;
+  /** Shown once the room has loaded, then reported back through `onFocusHandled`. */
+  focusMessage: MessageTarget | null;
+  onFocusHandled: () => void;
 }
 
-export function ChatRoom({ room }: ChatRoomProps) {
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [newMessage, setNewMessage] = useState('');
-  const [participants, setParticipants] = useState<RoomParticipant[]>([]);
+const TOP_THRESHOLD_PX = 200;
+const BOTTOM_THRESHOLD_PX = 80;
+const HIGHLIGHT_DURATION_MS = 2000;
+
+export function ChatRoom({
+  room,
+  onOpenRoom,
+  onClose,
+  focusMessage,
+  onFocusHandled,
+}: ChatRoomProps) {
+  const [isAtBottom, setIsAtBottom] = useState(true);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [threadRootId, setThreadRootId] = useState<string | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const [draggingFiles, setDraggingFiles] = useState(false);
+  const [showInviteModal, setShowInviteModal] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showModeration, setShowModeration] = useState(false);
+  const [slowModeUntil, setSlowModeUntil] = useState<number | null>(null);
+  // The read marker as it was when the room was opened, for the "new messages"
+  // divider; undefined until it has loaded.
+  const [lastReadAt, setLastReadAt] = useState<string | null | undefined>(undefined);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+  const scrollAnchorRef = useRef<number | null>(null);
+  const scrollTargetRef = useRef<string | null>(null);
+  const isAtBottomRef = useRef(true);
+  const composerRef = useRef<MessageComposerHandle>(null);
+  const dragDepthRef = useRef(0);
+  const wasMemberRef = useRef(false);
+  const heartbeatRef = useRef<ReturnType<typeof setInterval>>();
+  const lastMarkedReadRef = useRef('');
+  const jumpToMessageRef = useRef<(messageId: string) => Promise<void>>();
   const { user, profile } = useAuth();
+  const {
+    messages,
+    hasMore,
+    hasNewer,
+    loadingOlder,
+    loadOlder,
+    loadNewer,
+    loadAround,
+    loadLatest,
+  } = useMessageHistory(room.id);
+  const messageIds = useMemo(() => messages.map((m) => m.id), [messages]);
+  const outboxEntries = useOutbox(room.id);
+  // Echoes of our own messages replace their optimistic copies.
+  const unsentEntries = useMemo(() => {
+    const delivered = new Set(messageIds);
+    return outboxEntries.filter(
+      (entry) => !entry.message.thread_id && !delivered.has(entry.message.id)
+    );
+  }, [outboxEntries, messageIds]);
+  const reactions = useMessageReactions(room.id, messageIds, `room_${room.id}`);
+  const voiceStates = useVoiceStates(room.id);
+  const [speakingUserIds, setSpeakingUserIds] = useState<Set<string>>(new Set());
+  const participants = useRoomPresence(room.id);
+  const members = useRoomMembers(room.id);
+  // `members` still holds the previous room's list for one render after switching.
+  const ownMember = members.find((m) => m.user_id === user?.id && m.room_id === room.id);
+  const currentRole = ownMember?.role ?? null;
+  const isModerator = canModerate(currentRole);
+  const displayName = roomDisplayName(room, user?.id);
+  const channelLabel = isDirectMessage(room) ? `@${displayName}` : `#${room.name}`;
+  const receiptsEnabled =
+    !!profile?.share_read_receipts &&
+    members.length > 0 &&
+    members.length <= READ_RECEIPTS_MAX_MEMBERS;
+  const { typingUsers, notifyTyping, readReceipts, announceRead } = useRoomActivity(
+    room.id,
+    receiptsEnabled
+  );
+
+  // Each reader is shown once, under the last message their marker covers.
+  const seenBy = useMemo(() => {
+    const byMessage = new Map<string, string[]>();
+    if (messages.length === 0) return byMessage;
+
+    readReceipts.forEach((readAt, userId) => {
+      // Read up to somewhere above the loaded page.
+      if (readAt < messages[0].created_at) return;
+
+      const username = members.find((m) => m.user_id === userId)?.user_profiles?.username;
+      let target: Message | undefined;
+      for (const message of messages) {
+        if (message.created_at > readAt) break;
+        if (!message.deleted_at) target = message;
+      }
+      if (!target || !username) return;
+
+      byMessage.set(target.id, [...(byMessage.get(target.id) ?? []), username]);
+    });
+    return byMessage;
+  }, [messages, readReceipts, members]);
+
+  const typingIn = (threadId: string | null) =>
+    describeTyping(typingUsers.filter((t) => t.thread_id === threadId).map((t) => t.username));
+
+  const firstUnreadId = useMemo(() => {
+    if (!lastReadAt) return null;
+
+    const index = messages.findIndex(
+      (m) => m.created_at > lastReadAt && m.user_id !== user?.id && !m.deleted_at
+    );
+    // The marker sits above the loaded page; the divider would be misplaced.
+    if (index < 0 || (index === 0 && hasMore)) return null;
+    return messages[index].id;
+  }, [messages, lastReadAt, hasMore, user?.id]);
+
+  // Outside DMs only moderators can notify the whole room.
+  const canMentionGroups = isModerator || isDirectMessage(room);
+  const mentionCandidates = useMemo<MentionCandidate[]>(
+    () => [
+      ...(canMentionGroups ? GROUP_MENTIONS : []),
+      ...members
+        .filter((m) => m.user_id !== user?.id && m.user_profiles)
+        .map((m) => ({ id: m.user_id, username: m.user_profiles!.username })),
+    ],
+    [members, canMentionGroups, user?.id]
+  );
+  const searchDirectory = room.kind === 'public' && !room.is_private;
+
+  const timedOutUntil = ownMember?.timed_out_until;
+  const timeoutLock = useMemo<ComposerLock | null>(
+    () =>
+      isTimedOut(timedOutUntil)
+        ? { until: new Date(timedOutUntil!).getTime(), reason: 'You are timed out' }
+        : null,
+    [timedOutUntil]
+  );
+  // Only the main composer counts down slow mode; thread replies rely on the server check.
+  const composerLock = useMemo<ComposerLock | null>(
+    () => timeoutLock ?? (slowModeUntil ? { until: slowModeUntil, reason: 'Slow mode is on' } : null),
+    [timeoutLock, slowModeUntil]
+  );
 
   useEffect(() => {
     if (!room || !user) return;
 
     joinRoom();
-    loadMessages();
-    loadParticipants();
 
-    const messagesChannel = supabase
-      .channel(`room_${room.id}_messages`)
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'messages',
-          filter: `room_id=eq.${room.id}`,
-        },
-        (payload) => {
-          const newMsg = payload.new as Message;
-          loadMessageWithProfile(newMsg.id);
-        }
-      )
-      .subscribe();
-
-    const participantsChannel = supabase
-      .channel(`room_${room.id}_participants`)
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'room_participants',
-          filter: `room_id=eq.${room.id}`,
-        },
-        () => {
-          loadParticipants();
-        }
-      )
-      .subscribe();
+    // Keep `last_seen_at` fresh so the server can expire us if this tab dies
+    // without running the cleanup below. Only the first call may add us, so
+    // an open tab can't quietly undo a kick.
+    const heartbeat = setInterval(touchRoom, HEARTBEAT_INTERVAL_MS);
+    heartbeatRef.current = heartbeat;
+    window.addEventListener('pagehide', leaveRoom);
 
     return () => {
+      clearInterval(heartbeat);
+      window.removeEventListener('pagehide', leaveRoom);
       leaveRoom();
-      supabase.removeChannel(messagesChannel);
-      supabase.removeChannel(participantsChannel);
     };
   }, [room.id, user]);
 
   useEffect(() => {
+    isAtBottomRef.current = true;
+    setIsAtBottom(true);
+    setReplyingTo(null);
+    setThreadRootId(null);
+    setSlowModeUntil(null);
+    setLastReadAt(undefined);
+    wasMemberRef.current = false;
+    lastMarkedReadRef.current = '';
+  }, [room.id]);
+
+  // Jumping before the first page lands would be overwritten by it.
+  const feedLoaded = messages[0]?.room_id === room.id;
+
+  useEffect(() => {
+    if (!focusMessage || focusMessage.roomId !== room.id) return;
+
+    if (focusMessage.threadId) {
+      setThreadRootId(focusMessage.threadId);
+    } else if (feedLoaded) {
+      jumpToMessageRef.current?.(focusMessage.messageId);
+    } else {
+      return;
+    }
+    onFocusHandled();
+  }, [focusMessage, room.id, feedLoaded, onFocusHandled]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+    loadLastReadAt(room.id, user.id)
+      .then((value) => {
+        if (!cancelled) setLastReadAt(value);
+      })
+      .catch((error) => console.error('Error loading read marker:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [room.id, user]);
+
+  // Mark the room read up to the newest message whenever the bottom of the
+  // feed is on screen in a visible tab.
+  useEffect(() => {
+    const newest = messages[messages.length - 1];
+    if (!isAtBottom || hasNewer || !newest || newest.room_id !== room.id) return;
+    // Reading the old marker has to win, or the divider would never show.
+    if (lastReadAt === undefined) return;
+
+    const markRead = () => {
+      if (document.visibilityState !== 'visible') return;
+      if (newest.created_at <= lastMarkedReadRef.current) return;
+
+      lastMarkedReadRef.current = newest.created_at;
+      markRoomRead(room.id, newest.created_at)
+        .then(() => announceRead(newest.created_at))
+        .catch((error) => console.error('Error marking room read:', error));
+    };
+
+    markRead();
+    document.addEventListener('visibilitychange', markRead);
+    return () => document.removeEventListener('visibilitychange', markRead);
+  }, [messages, isAtBottom, hasNewer, room.id, lastReadAt, announceRead]);
+
+  // Our membership row disappearing means a moderator kicked or banned us.
+  useEffect(() => {
+    if (ownMember) {
+      wasMemberRef.current = true;
+    } else if (wasMemberRef.current) {
+      wasMemberRef.current = false;
+      clearInterval(heartbeatRef.current);
+      onClose(`You were removed from ${channelLabel}`);
+    }
+  }, [ownMember, channelLabel, onClose]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+
+    const timeout = setTimeout(() => setHighlightedId(null), HIGHLIGHT_DURATION_MS);
+    return () => clearTimeout(timeout);
+  }, [highlightedId]);
+
+  // Runs before paint so a prepended page never flashes at the wrong offset.
+  useLayoutEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+
+    const target = scrollTargetRef.current;
+    const targetElement = target ? document.getElementById(`message-${target}`) : null;
+    const anchor = scrollAnchorRef.current;
+    if (targetElement) {
+      targetElement.scrollIntoView({ block: 'center' });
+      scrollTargetRef.current = null;
+    } else if (anchor !== null) {
+      container.scrollTop = container.scrollHeight - anchor;
+      scrollAnchorRef.current = null;
+    } else if (isAtBottomRef.current) {
+      container.scrollTop = container.scrollHeight;
+    }
+
+    // A short first page can't be scrolled, so keep filling until it can.
+    if (hasMore && !loadingOlder && container.scrollHeight <= container.clientHeight) {
+      scrollAnchorRef.current = container.scrollHeight - container.scrollTop;
+      loadOlder();
+    }
+  }, [messages, unsentEntries, hasMore, loadingOlder, loadOlder]);
+
+  const handleScroll = () => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+
+    const atBottom =
+      container.scrollHeight - container.scrollTop - container.clientHeight < BOTTOM_THRESHOLD_PX;
+    isAtBottomRef.current = atBottom;
+    setIsAtBottom(atBottom);
+
+    if (container.scrollTop < TOP_THRESHOLD_PX && hasMore && !loadingOlder) {
+      // Remember the distance from the bottom so it survives the prepend.
+      scrollAnchorRef.current = container.scrollHeight - container.scrollTop;
+      loadOlder();
+    }
+
+    if (atBottom && hasNewer) {
+      loadNewer();
+    }
+  };
+
+  const jumpToPresent = () => {
+    if (hasNewer) {
+      isAtBottomRef.current = true;
+      loadLatest();
+      return;
+    }
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  };
+
+  const jumpToMessage = async (messageId: string) => {
+    const found = await loadAround(messageId);
+    if (!found) return;
+
+    isAtBottomRef.current = false;
+    setIsAtBottom(false);
+    setHighlightedId(messageId);
+
+    const element = document.getElementById(`message-${messageId}`);
+    if (element) {
+      element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    } else {
+      // Scrolled to once the surrounding page renders.
+      scrollTargetRef.current = messageId;
+    }
+  };
+  jumpToMessageRef.current = jumpToMessage;
 
   const joinRoom = async () => {
     if (!user) return;
 
     await supabase
       .from('room_participants')
-      .upsert({
-        room_id: room.id,
-        user_id: user.id,
-        is_online: true,
-      });
+      .upsert(
+        {
+          room_id: room.id,
+          user_id: user.id,
+          is_online: true,
+          last_seen_at: new Date().toISOString(),
+        },
+        { onConflict: 'room_id,user_id' }
+      );
   };
 
-  const leaveRoom = async () => {
+  const touchRoom = async () => {
     if (!user) return;
 
     await supabase
       .from('room_participants')
-      .update({ is_online: false })
+      .update({ is_online: true, last_seen_at: new Date().toISOString() })
       .eq('room_id', room.id)
       .eq('user_id', user.id);
   };
 
-  const loadMessages = async () => {
-    const { data } = await supabase
-      .from('messages')
-      .select(`
-        *,
-        user_profiles (*)
-      `)
+  const leaveRoom = async () => {
+    if (!user) return;
+
+    await supabase
+      .from('room_participants')
+      .update({ is_online: false })
       .eq('room_id', room.id)
-      .order('created_at', { ascending: true })
-      .limit(100);
+      .eq('user_id', user.id);
+  };
 
-    if (data) {
-      setMessages(data);
+  const discardUnsent = async (messageId: string) => {
+    try {
+      await outbox.discard(messageId);
+    } catch (error) {
+      console.error('Error discarding message:', error);
     }
   };
 
-  const loadMessageWithProfile = async (messageId: string) => {
-    const { data } = await supabase
-      .from('messages')
-      .select(`
-        *,
-        user_profiles (*)
-      `)
-      .eq('id', messageId)
-      .single();
-
-    if (data) {
-      setMessages((prev) => [...prev, data]);
+  const changeRole = async (userId: string, role: 'moderator' | 'member') => {
+    try {
+      await setMemberRole(room.id, userId, role);
+    } catch (error) {
+      console.error('Error changing member role:', error);
     }
   };
 
-  const loadParticipants = async () => {
-    const { data } = await supabase
-      .from('room_participants')
-      .select(`
-        *,
-        user_profiles (*)
-      `)
-      .eq('room_id', room.id)
-      .eq('is_online', true);
-
-    if (data) {
-      setParticipants(data);
+  const startDirectMessage = async (userId: string) => {
+    try {
+      onOpenRoom(await openDirectMessage([userId]));
+    } catch (error) {
+      console.error('Error opening direct message:', error);
     }
   };
 
-  const sendMessage = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!newMessage.trim() || !user) return;
+  const sendMessage = async (
+    content: string,
+    attachments: UploadedAttachment[],
+    mentions: MessageMention[]
+  ) => {
+    if (!profile) return;
 
-    await supabase.from('messages').insert({
-      room_id: room.id,
-      user_id: user.id,
-      content: newMessage.trim(),
-    });
+    // Follow our own message down even if we were reading history.
+    isAtBottomRef.current = true;
+    if (hasNewer) {
+      loadLatest();
+    }
 
-    setNewMessage('');
-  };
+    await outbox.send(
+      {
+        roomId: room.id,
+        content,
+        parentId: replyingTo?.id,
+        attachments,
+        mentions,
+        parent: replyingTo && previewOf(replyingTo),
+      },
+      profile
+    );
+    setReplyingTo(null);
+    setLastReadAt(null);
 
-  const formatTime = (timestamp: string) => {
-    const date = new Date(timestamp);
-    return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+    if (!isModerator && room.slow_mode_seconds > 0) {
+      setSlowModeUntil(Date.now() + room.slow_mode_seconds * 1000);
+    }
   };
 
   return (
-    <div className="flex-1 flex flex-col bg-white">
-      <div className="h-16 border-b border-gray-200 flex items-center justify-between px-6">
-        <div>
-          <h2 className="text-xl font-bold text-gray-800">{room.name}</h2>
-          {room.description && (
-            <p className="text-sm text-gray-600">{room.description}</p>
-          )}
-        </div>
-        <div className="flex items-center gap-2 text-gray-600">
-          <Users className="w-5 h-5" />
-          <span className="font-medium">{participants.length}</span>
+    <div className="flex-1 flex min-w-0">
+      <div
+        className="relative flex-1 flex flex-col bg-white min-w-0"
+        onDragEnter={(e) => {
+          if (!e.dataTransfer.types.includes('Files')) return;
+          dragDepthRef.current += 1;
+          setDraggingFiles(true);
+        }}
+        onDragLeave={() => {
+          dragDepthRef.current = Math.max(dragDepthRef.current - 1, 0);
+          if (dragDepthRef.current === 0) setDraggingFiles(false);
+        }}
+        onDragOver={(e) => {
+          if (e.dataTransfer.types.includes('Files')) e.preventDefault();
+        }}
+        onDrop={(e) => {
+          dragDepthRef.current = 0;
+          setDraggingFiles(false);
+          // Drops on the composer itself are already handled there.
+          if (e.defaultPrevented || e.dataTransfer.files.length === 0) return;
+          e.preventDefault();
+          composerRef.current?.addFiles(Array.from(e.dataTransfer.files));
+        }}
+      >
+        {draggingFiles && (
+          <div className="absolute inset-0 z-20 flex items-center justify-center bg-blue-600/10 border-2 border-dashed border-blue-500 pointer-events-none">
+            <div className="flex flex-col items-center gap-2 px-6 py-4 bg-white rounded-xl shadow-lg text-blue-700">
+              <Upload className="w-8 h-8" />
+              <p className="font-medium">Drop files to upload to {channelLabel}</p>
+            </div>
+          </div>
+        )}
+        <div className="h-16 border-b border-gray-200 flex items-center justify-between px-6">
+          <div className="min-w-0">
+            <h2 className="flex items-center gap-2 text-xl font-bold text-gray-800">
+              {room.is_private && <Lock className="w-4 h-4 text-gray-500" />}
+              {displayName}
+              {!room.is_active && (
+                <span className="px-2 py-0.5 rounded-full bg-gray-100 text-xs font-medium text-gray-500">
+                  Archived
+                </span>
+              )}
+            </h2>
+            {(room.topic || room.description) && (
+              <p className="text-sm text-gray-600 truncate" title={room.description}>
+                {room.topic || room.description}
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-4">
+            {voiceStates.length > 0 && (
+              <div className="flex items-center gap-2 px-3 py-1.5 bg-green-50 text-green-700 rounded-full">
+                <Volume2 className="w-4 h-4" />
+                <div className="flex -space-x-2">
+                  {voiceStates.slice(0, 5).map((voiceState) => (
+                    <div
+                      key={voiceState.user_id}
+                      title={voiceState.user_profiles?.username}
+                      className={`relative w-7 h-7 rounded-full bg-blue-600 ring-2 flex items-center justify-center text-white text-xs font-bold ${
+                        speakingUserIds.has(voiceState.user_id) ? 'ring-green-500 z-10' : 'ring-green-50'
+                      }`}
+                    >
+                      {voiceState.user_profiles?.username?.[0]?.toUpperCase() || 'U'}
+                      {voiceState.is_deafened ? (
+                        <Headphones className="absolute -bottom-1 -right-1 w-3.5 h-3.5 p-0.5 bg-red-600 text-white rounded-full" />
+                      ) : (
+                        voiceState.is_muted && (
+                          <MicOff className="absolute -bottom-1 -right-1 w-3.5 h-3.5 p-0.5 bg-red-600 text-white rounded-full" />
+                        )
+                      )}
+                    </div>
+                  ))}
+                </div>
+                {voiceStates.length > 5 && (
+                  <span className="text-sm font-medium">+{voiceStates.length - 5}</span>
+                )}
+              </div>
+            )}
+            {isModerator && !isDirectMessage(room) && room.is_active && (
+              <button
+                onClick={() => setShowInviteModal(true)}
+                title="Invite people"
+                className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition"
+              >
+                <UserPlus className="w-5 h-5" />
+              </button>
+            )}
+            <NotificationLevelMenu room={room} />
+            <ParticipantList
+              roomId={room.id}
+              participants={participants}
+              members={members}
+              currentRole={currentRole}
+              onMessage={startDirectMessage}
+              onChangeRole={changeRole}
+              speakingUserIds={speakingUserIds}
+            />
+            {isModerator && !isDirectMessage(room) && (
+              <button
+                onClick={() => setShowSettings(true)}
+                title="Room settings"
+                className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition"
+              >
+                <Settings className="w-5 h-5" />
+              </button>
+            )}
+            {isModerator && !isDirectMessage(room) && (
+              <button
+                onClick={() => setShowModeration(true)}
+                title="Moderation"
+                className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition"
+              >
+                <ShieldAlert className="w-5 h-5" />
+              </button>
+            )}
+          </div>
         </div>
-      </div>
 
-      <MediaControls roomId={room.id} participants={participants} />
+        {room.is_active && (
+          <MediaControls
+            roomId={room.id}
+            voiceStates={voiceStates}
+            onSpeakingChange={setSpeakingUserIds}
+          />
+        )}
 
-      <div className="flex-1 overflow-y-auto p-6 space-y-4">
-        {messages.map((message) => (
+        <div className="flex-1 relative min-h-0">
           <div
-            key={message.id}
-            className={`flex gap-3 ${
-              message.user_id === user?.id ? 'flex-row-reverse' : ''
-            }`}
+            ref={scrollContainerRef}
+            onScroll={handleScroll}
+            className="h-full overflow-y-auto p-6 space-y-4"
           >
-            <div className="w-10 h-10 rounded-full bg-blue-600 flex items-center justify-center text-white font-bold flex-shrink-0">
-              {message.user_profiles?.username?.[0]?.toUpperCase() || 'U'}
-            </div>
-            <div className={`flex-1 ${message.user_id === user?.id ? 'text-right' : ''}`}>
-              <div className="flex items-center gap-2 mb-1">
-                <span className="font-medium text-gray-800">
-                  {message.user_profiles?.username || 'Unknown'}
-                </span>
-                <span className="text-xs text-gray-500">
-                  {formatTime(message.created_at)}
-                </span>
+            {loadingOlder && (
+              <div className="flex justify-center py-2 text-gray-400">
+                <Loader2 className="w-5 h-5 animate-spin" />
               </div>
-              <div
-                className={`inline-block px-4 py-2 rounded-2xl ${
-                  message.user_id === user?.id
-                    ? 'bg-blue-600 text-white'
-                    : 'bg-gray-100 text-gray-800'
-                }`}
-              >
-                {message.content}
+            )}
+            {!hasMore && messages.length > 0 && (
+              <div className="text-center text-sm text-gray-400 py-2">
+                This is the beginning of {channelLabel}
               </div>
-            </div>
+            )}
+            {messages.map((message) => (
+              <Fragment key={message.id}>
+                {message.id === firstUnreadId && (
+                  <div className="flex items-center gap-3 text-xs font-semibold uppercase tracking-wide text-red-500">
+                    <div className="flex-1 h-px bg-red-300" />
+                    New messages
+                    <div className="flex-1 h-px bg-red-300" />
+                  </div>
+                )}
+                <MessageItem
+                  message={message}
+                  isOwn={message.user_id === user?.id}
+                  canModerate={isModerator}
+                  highlighted={message.id === highlightedId}
+                  reactions={reactions.get(message.id) ?? []}
+                  onReply={setReplyingTo}
+                  onOpenThread={(m) => setThreadRootId(m.id)}
+                  onJumpTo={jumpToMessage}
+                  seenBy={seenBy.get(message.id)}
+                />
+              </Fragment>
+            ))}
+            {!hasNewer &&
+              unsentEntries.map((entry) => (
+                <MessageItem
+                  key={entry.message.id}
+                  message={entry.message}
+                  isOwn
+                  delivery={entry}
+                  onJumpTo={jumpToMessage}
+                  onRetry={() => outbox.retry(entry.message.id)}
+                  onDiscard={() => discardUnsent(entry.message.id)}
+                />
+              ))}
+            <div ref={messagesEndRef} />
           </div>
-        ))}
-        <div ref={messagesEndRef} />
-      </div>
 
-      <form onSubmit={sendMessage} className="p-4 border-t border-gray-200">
-        <div className="flex gap-2">
-          <input
-            type="text"
-            value={newMessage}
-            onChange={(e) => setNewMessage(e.target.value)}
-            placeholder="Type a message..."
-            className="flex-1 px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
-          />
-          <button
-            type="submit"
-            disabled={!newMessage.trim()}
-            className="px-6 py-3 bg-blue-600 text-white rounded-xl hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            <Send className="w-5 h-5" />
-          </button>
+          {(!isAtBottom || hasNewer) && (
+            <button
+              onClick={jumpToPresent}
+              className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-2 px-4 py-2 bg-slate-800 text-white text-sm font-medium rounded-full shadow-lg hover:bg-slate-700 transition"
+            >
+              <ArrowDown className="w-4 h-4" />
+              Jump to present
+            </button>
+          )}
         </div>
-      </form>
+
+        {room.is_active ? (
+          <MessageComposer
+            ref={composerRef}
+            roomId={room.id}
+            placeholder={`Message ${channelLabel}`}
+            onSend={sendMessage}
+            lock={composerLock}
+            mentionCandidates={mentionCandidates}
+            searchDirectory={searchDirectory}
+            onTyping={(typing) => notifyTyping(null, typing)}
+            activity={typingIn(null)}
+            header={
+              replyingTo && (
+                <div className="flex items-center justify-between gap-2 mb-2 px-3 py-2 bg-gray-50 rounded-lg text-sm text-gray-600">
+                  <span className="truncate">
+                    Replying to{' '}
+                    <span className="font-medium text-gray-800">
+                      {replyingTo.user_profiles?.username || 'Unknown'}
+                    </span>
+                    : {stripMarkdown(replyingTo.content, mentionNames(replyingTo))}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => setReplyingTo(null)}
+                    className="p-1 text-gray-400 hover:text-gray-700 flex-shrink-0"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              )
+            }
+          />
+        ) : (
+          <div className="flex items-center justify-center gap-2 p-4 border-t border-gray-200 text-sm text-gray-500">
+            <Archive className="w-4 h-4" />
+            This room is archived. You can read its history, but no new messages can be sent.
+          </div>
+        )}
+      </div>
+
+      {showInviteModal && (
+        <InviteModal
+          roomId={room.id}
+          roomName={room.name}
+          onClose={() => setShowInviteModal(false)}
+        />
+      )}
+
+      {showSettings && (
+        <RoomSettingsModal
+          room={room}
+          currentRole={currentRole}
+          members={members}
+          onClose={() => setShowSettings(false)}
+          onDeleted={() => onClose()}
+        />
+      )}
+
+      {showModeration && (
+        <ModerationModal
+          roomId={room.id}
+          roomName={room.name}
+          onClose={() => setShowModeration(false)}
+        />
+      )}
+
+      {threadRootId && (
+        <ThreadPanel
+          roomId={room.id}
+          rootId={threadRootId}
+          canModerate={isModerator}
+          lock={timeoutLock}
+          mentionCandidates={mentionCandidates}
+          searchDirectory={searchDirectory}
+          typing={typingIn(threadRootId)}
+          onTyping={(typing) => notifyTyping(threadRootId, typing)}
+          onClose={() => setThreadRootId(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,237 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { X } from 'lucide-react';
+import {
+  DevicePreferences,
+  MediaDeviceLists,
+  openCamera,
+  openMicrophone,
+  supportsOutputSelection,
+} from '../lib/mediaDevices';
+import { monitorAudioLevel } from '../lib/audioLevel';
+import { describeKey, PushToTalkSettings } from '../lib/pushToTalk';
+import { processingConstraints, VoiceSettings } from '../lib/voicePreferences';
+
+interface DeviceSettingsPanelProps {
+  devices: MediaDeviceLists;
+  preferences: DevicePreferences;
+  onChoose: (kind: keyof DevicePreferences, deviceId: string | null) => void;
+  pushToTalk: PushToTalkSettings;
+  onPushToTalkChange: (settings: PushToTalkSettings) => void;
+  voiceSettings: VoiceSettings;
+  onProcessingChange: (patch: Partial<VoiceSettings>) => void;
+  /** Called once the previews have been granted access, when device labels become readable. */
+  onRefresh: () => void;
+  onClose: () => void;
+}
+
+const PROCESSING_OPTIONS: {
+  key: 'noise_suppression' | 'echo_cancellation' | 'auto_gain_control';
+  label: string;
+}[] = [
+  { key: 'noise_suppression', label: 'Noise suppression' },
+  { key: 'echo_cancellation', label: 'Echo cancellation' },
+  { key: 'auto_gain_control', label: 'Automatic gain control' },
+];
+
+interface DeviceSelectProps {
+  label: string;
+  devices: MediaDeviceInfo[];
+  value: string | null;
+  onChange: (deviceId: string | null) => void;
+}
+
+function DeviceSelect({ label, devices, value, onChange }: DeviceSelectProps) {
+  return (
+    <label className="block">
+      <span className="block text-xs font-medium text-gray-600 mb-1">{label}</span>
+      <select
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value || null)}
+        className="w-full px-3 py-1.5 border border-gray-300 rounded-lg text-sm bg-white outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        <option value="">System default</option>
+        {devices
+          .filter((device) => device.deviceId && device.deviceId !== 'default')
+          .map((device, index) => (
+            <option key={device.deviceId} value={device.deviceId}>
+              {device.label || `${label} ${index + 1}`}
+            </option>
+          ))}
+      </select>
+    </label>
+  );
+}
+
+/**
+ * Microphone, camera and speaker choices with a level meter and camera
+ * preview, plus audio processing and the push-to-talk key.
+ */
+export function DeviceSettingsPanel({
+  devices,
+  preferences,
+  onChoose,
+  pushToTalk,
+  onPushToTalkChange,
+  voiceSettings,
+  onProcessingChange,
+  onRefresh,
+  onClose,
+}: DeviceSettingsPanelProps) {
+  const [level, setLevel] = useState(0);
+  const [error, setError] = useState('');
+  const [capturingKey, setCapturingKey] = useState(false);
+  // The meter listens through the same processing the call will use.
+  const { noise_suppression, echo_cancellation, auto_gain_control } = voiceSettings;
+  const processing = useMemo(
+    () => processingConstraints({ noise_suppression, echo_cancellation, auto_gain_control }),
+    [noise_suppression, echo_cancellation, auto_gain_control]
+  );
+  const previewRef = useRef<HTMLVideoElement>(null);
+  const onRefreshRef = useRef(onRefresh);
+  onRefreshRef.current = onRefresh;
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let stopMonitoring: (() => void) | undefined;
+    let cancelled = false;
+
+    openMicrophone(preferences.audioInput, processing)
+      .then((mic) => {
+        if (cancelled) {
+          mic.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = mic;
+        stopMonitoring = monitorAudioLevel(mic, setLevel);
+        onRefreshRef.current();
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Could not open microphone'));
+
+    return () => {
+      cancelled = true;
+      stopMonitoring?.();
+      stream?.getTracks().forEach((track) => track.stop());
+      setLevel(0);
+    };
+  }, [preferences.audioInput, processing]);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+
+    openCamera(preferences.videoInput)
+      .then((camera) => {
+        if (cancelled) {
+          camera.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = camera;
+        if (previewRef.current) previewRef.current.srcObject = camera;
+        onRefreshRef.current();
+      })
+      .catch((err) => console.error('Error opening camera preview:', err));
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [preferences.videoInput]);
+
+  useEffect(() => {
+    if (!capturingKey) return;
+
+    const capture = (e: KeyboardEvent) => {
+      e.preventDefault();
+      setCapturingKey(false);
+      if (e.code !== 'Escape') {
+        onPushToTalkChange({ ...pushToTalk, key: e.code });
+      }
+    };
+    window.addEventListener('keydown', capture, { once: true });
+    return () => window.removeEventListener('keydown', capture);
+  }, [capturingKey, pushToTalk, onPushToTalkChange]);
+
+  return (
+    <div className="mx-4 mb-4 p-4 bg-white border border-gray-200 rounded-xl text-sm">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="font-semibold text-gray-800">Audio & video</h4>
+        <button
+          onClick={onClose}
+          className="p-1 text-gray-500 hover:bg-gray-100 rounded-lg transition"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-3">
+          <DeviceSelect
+            label="Microphone"
+            devices={devices.audioInputs}
+            value={preferences.audioInput}
+            onChange={(deviceId) => onChoose('audioInput', deviceId)}
+          />
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-green-500 transition-[width] duration-75"
+              style={{ width: `${Math.round(level * 100)}%` }}
+            />
+          </div>
+          {supportsOutputSelection && (
+            <DeviceSelect
+              label="Speaker"
+              devices={devices.audioOutputs}
+              value={preferences.audioOutput}
+              onChange={(deviceId) => onChoose('audioOutput', deviceId)}
+            />
+          )}
+          <DeviceSelect
+            label="Camera"
+            devices={devices.videoInputs}
+            value={preferences.videoInput}
+            onChange={(deviceId) => onChoose('videoInput', deviceId)}
+          />
+          <div className="space-y-1">
+            {PROCESSING_OPTIONS.map(({ key, label }) => (
+              <label key={key} className="flex items-center gap-2 text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={voiceSettings[key]}
+                  onChange={(e) => onProcessingChange({ [key]: e.target.checked })}
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <label className="flex items-center gap-2 text-gray-700">
+              <input
+                type="checkbox"
+                checked={pushToTalk.enabled}
+                onChange={(e) => onPushToTalkChange({ ...pushToTalk, enabled: e.target.checked })}
+              />
+              Push to talk
+            </label>
+            <button
+              onClick={() => setCapturingKey(true)}
+              disabled={!pushToTalk.enabled}
+              className="px-3 py-1 border border-gray-300 rounded-lg text-xs text-gray-700 hover:bg-gray-50 disabled:opacity-50 transition"
+            >
+              {capturingKey ? 'Press a key…' : `Key: ${describeKey(pushToTalk.key)}`}
+            </button>
+          </div>
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+        <div className="bg-slate-900 rounded-xl overflow-hidden aspect-video">
+          <video
+            ref={previewRef}
+            autoPlay
+            muted
+            playsInline
+            className="w-full h-full object-cover -scale-x-100"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
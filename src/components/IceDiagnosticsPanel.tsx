@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { VoiceState } from '../lib/supabase';
+import { BaseCallSession, CallConnection } from '../lib/callSession';
+import {
+  describeRoute,
+  hasTurnServer,
+  IceDiagnostics,
+  IceEndpoint,
+  loadIceDiagnostics,
+} from '../lib/iceServers';
+
+interface IceDiagnosticsPanelProps {
+  session: BaseCallSession;
+  rtcConfig: RTCConfiguration;
+  voiceStates: VoiceState[];
+  onClose: () => void;
+}
+
+type ConnectionDiagnostics = CallConnection & IceDiagnostics;
+
+const POLL_INTERVAL_MS = 2000;
+
+const formatEndpoint = (endpoint: IceEndpoint) =>
+  [
+    endpoint.type,
+    endpoint.relayProtocol ? `${endpoint.protocol} via ${endpoint.relayProtocol}` : endpoint.protocol,
+    endpoint.address && `${endpoint.address}${endpoint.port ? `:${endpoint.port}` : ''}`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+/** Shows how each peer connection in the call is routed. */
+export function IceDiagnosticsPanel({
+  session,
+  rtcConfig,
+  voiceStates,
+  onClose,
+}: IceDiagnosticsPanelProps) {
+  const [diagnostics, setDiagnostics] = useState<ConnectionDiagnostics[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const poll = async () => {
+      const entries = await Promise.all(
+        session.getConnections().map(async (connection) => {
+          try {
+            return { ...connection, ...(await loadIceDiagnostics(connection.connection)) };
+          } catch (error) {
+            console.error('Error reading connection stats:', error);
+            return null;
+          }
+        })
+      );
+      if (!cancelled) {
+        setDiagnostics(entries.filter((entry) => entry !== null));
+      }
+    };
+
+    poll();
+    const interval = setInterval(poll, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [session]);
+
+  const serverUrls = (rtcConfig.iceServers ?? []).flatMap((server) => [server.urls].flat());
+
+  return (
+    <div className="mx-4 mb-4 p-4 bg-white border border-gray-200 rounded-xl text-sm">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="font-semibold text-gray-800">Connection diagnostics</h4>
+        <button
+          onClick={onClose}
+          className="p-1 text-gray-500 hover:bg-gray-100 rounded-lg transition"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <p className="text-xs text-gray-500 mb-3">
+        ICE servers: {serverUrls.length > 0 ? serverUrls.join(', ') : 'none'}
+        {!hasTurnServer(rtcConfig) && (
+          <span className="block text-amber-600">
+            No TURN server configured — peers behind strict firewalls may not connect.
+          </span>
+        )}
+      </p>
+
+      {diagnostics.length === 0 ? (
+        <p className="text-gray-400">No one else is connected yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {diagnostics.map((peer) => {
+            const name = peer.userId
+              ? voiceStates.find((v) => v.user_id === peer.userId)?.user_profiles?.username || 'User'
+              : peer.label;
+
+            return (
+              <li key={peer.id} className="py-2">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-gray-800">{name}</span>
+                  <span
+                    className={`text-xs ${
+                      peer.connectionState === 'connected'
+                        ? 'text-green-600'
+                        : peer.connectionState === 'failed'
+                          ? 'text-red-600'
+                          : 'text-gray-500'
+                    }`}
+                  >
+                    {peer.connectionState} (ICE {peer.iceConnectionState})
+                  </span>
+                </div>
+                {peer.local && peer.remote ? (
+                  <div className="mt-1 text-xs text-gray-600 space-y-0.5">
+                    <p className="font-medium">
+                      {describeRoute(peer.local, peer.remote)}
+                      {peer.roundTripTimeMs !== null && ` · ${peer.roundTripTimeMs} ms`}
+                    </p>
+                    <p>Local: {formatEndpoint(peer.local)}</p>
+                    <p>Remote: {formatEndpoint(peer.remote)}</p>
+                  </div>
+                ) : (
+                  <p className="mt-1 text-xs text-gray-400">No candidate pair selected yet</p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useEffect, useState } from 'react';
+import { Check, Copy, Trash2 } from 'lucide-react';
+import { RoomInvite } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  createInvite,
+  INVITE_EXPIRY_OPTIONS,
+  INVITE_MAX_USES_OPTIONS,
+  inviteLink,
+  isInviteUsable,
+  loadInvites,
+  revokeInvite,
+} from '../lib/rooms';
+
+interface InviteModalProps {
+  roomId: string;
+  roomName: string;
+  onClose: () => void;
+}
+
+const describeInvite = (invite: RoomInvite) => {
+  const uses = invite.max_uses === null ? `${invite.uses} uses` : `${invite.uses}/${invite.max_uses} uses`;
+  if (!invite.expires_at) return `${uses} · never expires`;
+
+  const expiresAt = new Date(invite.expires_at);
+  return expiresAt.getTime() <= Date.now()
+    ? `${uses} · expired`
+    : `${uses} · expires ${expiresAt.toLocaleString()}`;
+};
+
+export function InviteModal({ roomId, roomName, onClose }: InviteModalProps) {
+  const [invites, setInvites] = useState<RoomInvite[]>([]);
+  const [expiryIndex, setExpiryIndex] = useState(2);
+  const [maxUses, setMaxUses] = useState<number | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const { user } = useAuth();
+
+  useEffect(() => {
+    loadInvites(roomId)
+      .then(setInvites)
+      .catch((err) => console.error('Error loading invites:', err));
+  }, [roomId]);
+
+  const copy = async (invite: RoomInvite) => {
+    try {
+      await navigator.clipboard.writeText(inviteLink(invite.code));
+      setCopiedId(invite.id);
+      setTimeout(() => setCopiedId(null), 1500);
+    } catch (err) {
+      console.error('Error copying invite:', err);
+    }
+  };
+
+  const create = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || creating) return;
+
+    setError('');
+    setCreating(true);
+    try {
+      const invite = await createInvite(roomId, user.id, {
+        expiresInMs: INVITE_EXPIRY_OPTIONS[expiryIndex].ms,
+        maxUses,
+      });
+      setInvites((prev) => [invite, ...prev]);
+      copy(invite);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create invite');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const revoke = async (invite: RoomInvite) => {
+    try {
+      await revokeInvite(invite.id);
+      setInvites((prev) => prev.filter((i) => i.id !== invite.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not revoke invite');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl p-6 w-full max-w-lg">
+        <h3 className="text-xl font-bold mb-4">Invite people to #{roomName}</h3>
+        <form onSubmit={create} className="flex items-end gap-2 mb-4">
+          <div className="flex-1">
+            <label className="block text-sm font-medium mb-2">Expire after</label>
+            <select
+              value={expiryIndex}
+              onChange={(e) => setExpiryIndex(Number(e.target.value))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+            >
+              {INVITE_EXPIRY_OPTIONS.map((option, index) => (
+                <option key={option.label} value={index}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex-1">
+            <label className="block text-sm font-medium mb-2">Max uses</label>
+            <select
+              value={maxUses ?? ''}
+              onChange={(e) => setMaxUses(e.target.value ? Number(e.target.value) : null)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+            >
+              {INVITE_MAX_USES_OPTIONS.map((option) => (
+                <option key={option ?? 'unlimited'} value={option ?? ''}>
+                  {option ?? 'No limit'}
+                </option>
+              ))}
+            </select>
+          </div>
+          <button
+            type="submit"
+            disabled={creating}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+          >
+            Create link
+          </button>
+        </form>
+        {error && <p className="mb-3 text-sm text-red-600">{error}</p>}
+
+        <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100 mb-4">
+          {invites.map((invite) => (
+            <li key={invite.id} className="flex items-center gap-3 py-2">
+              <div className="min-w-0 flex-1">
+                <p
+                  className={`font-mono text-sm ${
+                    isInviteUsable(invite) ? 'text-gray-800' : 'text-gray-400 line-through'
+                  }`}
+                >
+                  {invite.code}
+                </p>
+                <p className="text-xs text-gray-500">{describeInvite(invite)}</p>
+              </div>
+              <button
+                onClick={() => copy(invite)}
+                title="Copy invite link"
+                className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg transition"
+              >
+                {copiedId === invite.id ? (
+                  <Check className="w-4 h-4 text-green-600" />
+                ) : (
+                  <Copy className="w-4 h-4" />
+                )}
+              </button>
+              <button
+                onClick={() => revoke(invite)}
+                title="Revoke invite"
+                className="p-2 text-gray-500 hover:bg-gray-100 hover:text-red-600 rounded-lg transition"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+          {invites.length === 0 && (
+            <li className="py-6 text-center text-sm text-gray-400">No invites yet</li>
+          )}
+        </ul>
+
+        <button
+          onClick={onClose}
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition"
+        >
+          Done
+        </button>
+      </div>
+    </div>
+  );
+}
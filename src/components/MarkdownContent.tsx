@@ -0,0 +1,203 @@
+import { Fragment, useMemo, useState } from 'react';
+import { Check, Copy } from 'lucide-react';
+import { BlockNode, InlineNode, parseMarkdown } from '../lib/markdown';
+import { highlight, TokenType } from '../lib/highlight';
+
+interface MarkdownContentProps {
+  content: string;
+  /** Own messages sit on a blue bubble and need lighter accents. */
+  inverted?: boolean;
+  /** Usernames for `<@user id>` mentions, keyed by user id. */
+  mentionNames?: Map<string, string>;
+  /** Mentions of this user are emphasised. */
+  currentUserId?: string;
+}
+
+interface RenderOptions {
+  inverted: boolean;
+  mentionNames?: Map<string, string>;
+  currentUserId?: string;
+}
+
+const TOKEN_CLASSES: Record<TokenType, string> = {
+  plain: '',
+  comment: 'text-slate-500 italic',
+  string: 'text-emerald-300',
+  number: 'text-amber-300',
+  keyword: 'text-sky-300 font-medium',
+};
+
+// Only http(s) targets are rendered as links; everything else stays text.
+const isSafeHref = (href: string) => /^https?:\/\//i.test(href);
+
+function Spoiler({ children }: { children: React.ReactNode }) {
+  const [revealed, setRevealed] = useState(false);
+
+  return (
+    <span
+      role="button"
+      tabIndex={0}
+      onClick={() => setRevealed(true)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' || e.key === ' ') setRevealed(true);
+      }}
+      title={revealed ? undefined : 'Reveal spoiler'}
+      className={`rounded px-0.5 transition ${
+        revealed ? 'bg-black/10' : 'bg-slate-700 text-transparent cursor-pointer select-none'
+      }`}
+    >
+      {children}
+    </span>
+  );
+}
+
+function CodeBlock({ language, code }: { language: string; code: string }) {
+  const [copied, setCopied] = useState(false);
+  const tokens = useMemo(() => highlight(code, language), [code, language]);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error('Error copying code:', error);
+    }
+  };
+
+  return (
+    <div className="my-1 rounded-lg overflow-hidden bg-slate-900 text-slate-100 text-left">
+      <div className="flex items-center justify-between px-3 py-1 bg-slate-800 text-xs text-slate-400">
+        <span>{language || 'text'}</span>
+        <button onClick={copy} className="flex items-center gap-1 hover:text-slate-200">
+          {copied ? <Check className="w-3.5 h-3.5" /> : <Copy className="w-3.5 h-3.5" />}
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+      <pre className="p-3 overflow-x-auto text-sm leading-relaxed">
+        <code>
+          {tokens.map((token, index) => (
+            <span key={index} className={TOKEN_CLASSES[token.type]}>
+              {token.text}
+            </span>
+          ))}
+        </code>
+      </pre>
+    </div>
+  );
+}
+
+function Mention({ label, self, inverted }: { label: string; self: boolean; inverted: boolean }) {
+  return (
+    <span
+      className={`px-1 rounded font-medium ${
+        inverted
+          ? 'bg-white/20 text-white'
+          : self
+            ? 'bg-amber-200 text-amber-900'
+            : 'bg-blue-100 text-blue-700'
+      }`}
+    >
+      @{label}
+    </span>
+  );
+}
+
+function renderInline(nodes: InlineNode[], options: RenderOptions): React.ReactNode {
+  const { inverted, mentionNames, currentUserId } = options;
+
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <Fragment key={index}>{node.text}</Fragment>;
+      case 'break':
+        return <br key={index} />;
+      case 'code':
+        return (
+          <code
+            key={index}
+            className={`px-1 py-0.5 rounded font-mono text-[0.85em] ${
+              inverted ? 'bg-white/20' : 'bg-black/10'
+            }`}
+          >
+            {node.text}
+          </code>
+        );
+      case 'link':
+        return isSafeHref(node.href) ? (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className={`underline break-all ${inverted ? 'text-white' : 'text-blue-600'}`}
+          >
+            {node.text}
+          </a>
+        ) : (
+          <Fragment key={index}>{node.text}</Fragment>
+        );
+      case 'mention':
+        return (
+          <Mention
+            key={index}
+            label={mentionNames?.get(node.userId) ?? 'unknown-user'}
+            self={node.userId === currentUserId}
+            inverted={inverted}
+          />
+        );
+      case 'groupMention':
+        return <Mention key={index} label={node.group} self inverted={inverted} />;
+      case 'bold':
+        return <strong key={index}>{renderInline(node.children, options)}</strong>;
+      case 'italic':
+        return <em key={index}>{renderInline(node.children, options)}</em>;
+      case 'strike':
+        return <s key={index}>{renderInline(node.children, options)}</s>;
+      case 'spoiler':
+        return <Spoiler key={index}>{renderInline(node.children, options)}</Spoiler>;
+    }
+  });
+}
+
+function renderBlocks(blocks: BlockNode[], options: RenderOptions): React.ReactNode {
+  return blocks.map((block, index) => {
+    switch (block.type) {
+      case 'paragraph':
+        return (
+          <p key={index} className="whitespace-pre-wrap break-words">
+            {renderInline(block.children, options)}
+          </p>
+        );
+      case 'code':
+        return <CodeBlock key={index} language={block.language} code={block.code} />;
+      case 'quote':
+        return (
+          <blockquote
+            key={index}
+            className={`pl-3 border-l-4 text-left ${
+              options.inverted ? 'border-white/40' : 'border-gray-300'
+            }`}
+          >
+            {renderBlocks(block.children, options)}
+          </blockquote>
+        );
+    }
+  });
+}
+
+/** Renders message markdown as React elements; no HTML from the message is ever injected. */
+export function MarkdownContent({
+  content,
+  inverted = false,
+  mentionNames,
+  currentUserId,
+}: MarkdownContentProps) {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+
+  return (
+    <div className="space-y-1">
+      {renderBlocks(blocks, { inverted, mentionNames, currentUserId })}
+    </div>
+  );
+}
@@ -1,346 +1,550 @@
-import { useState, useEffect, useRef } from 'react';
-import { Mic, MicOff, Video, VideoOff, Monitor, MonitorOff, Phone, PhoneOff } from 'lucide-react';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import {
+  Activity,
+  Headphones,
+  Mic,
+  MicOff,
+  Video,
+  VideoOff,
+  Monitor,
+  MonitorOff,
+  Phone,
+  PhoneOff,
+  Settings,
+} from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
-import { supabase, RoomParticipant } from '../lib/supabase';
+import { supabase, VoiceState } from '../lib/supabase';
+import { BaseCallSession, CallState, defaultRtcConfig, RemoteStream } from '../lib/callSession';
+import { CALL_MODE_SETTLE_MS, CallMode, callModeFor, createCallSession } from '../lib/callMode';
+import { HEARTBEAT_INTERVAL_MS } from '../lib/presence';
+import { loadRtcConfig } from '../lib/iceServers';
+import { IceDiagnosticsPanel } from './IceDiagnosticsPanel';
+import { DeviceSettingsPanel } from './DeviceSettingsPanel';
+import { useMediaDevices } from '../hooks/useMediaDevices';
+import { useVoiceActivity, VoiceSource } from '../hooks/useVoiceActivity';
+import {
+  describeKey,
+  isTypingKey,
+  loadPushToTalkSettings,
+  PushToTalkSettings,
+  savePushToTalkSettings,
+} from '../lib/pushToTalk';
+import { RemoteAudioMixer } from '../lib/remoteAudio';
+import {
+  DEFAULT_VOICE_SETTINGS,
+  loadVoiceSettings,
+  MAX_PARTICIPANT_VOLUME,
+  participantVolume,
+  processingConstraints,
+  saveVoiceSettings,
+  VoiceSettings,
+} from '../lib/voicePreferences';
+import {
+  DevicePreferences,
+  openCamera,
+  openMicrophone,
+  supportsOutputSelection,
+} from '../lib/mediaDevices';
 
 interface MediaControlsProps {
   roomId: string;
-  participants: RoomParticipant[];
+  voiceStates: VoiceState[];
+  /** Reports who is talking, so the rest of the room view can show it too. */
+  onSpeakingChange: (userIds: Set<string>) => void;
 }
 
-interface PeerConnection {
+interface VoiceTile {
+  key: string;
   userId: string;
-  connection: RTCPeerConnection;
-  stream?: MediaStream;
+  voiceState?: VoiceState;
+  stream: MediaStream | null;
+  isScreen: boolean;
 }
 
-export function MediaControls({ roomId, participants }: MediaControlsProps) {
-  const [isInCall, setIsInCall] = useState(false);
-  const [isMuted, setIsMuted] = useState(false);
-  const [isVideoOn, setIsVideoOn] = useState(false);
-  const [isScreenSharing, setIsScreenSharing] = useState(false);
-  const [localStream, setLocalStream] = useState<MediaStream | null>(null);
-  const [screenStream, setScreenStream] = useState<MediaStream | null>(null);
-  const [peerConnections, setPeerConnections] = useState<PeerConnection[]>([]);
+/** Volume sliders save once they have been left alone this long. */
+const VOICE_SETTINGS_SAVE_DELAY_MS = 500;
+
+/** How often a running call checks whether its TURN credentials need renewing. */
+const ICE_CONFIG_REFRESH_MS = 60 * 1000;
+
+const voiceStateColumns = (state: CallState) => ({
+  is_muted: state.muted,
+  is_deafened: state.deafened,
+  is_video_on: state.videoOn,
+  is_screen_sharing: state.screenSharing,
+  updated_at: new Date().toISOString(),
+});
+
+export function MediaControls({ roomId, voiceStates, onSpeakingChange }: MediaControlsProps) {
+  const [callState, setCallState] = useState<CallState>({
+    inCall: false,
+    muted: false,
+    deafened: false,
+    videoOn: false,
+    screenSharing: false,
+  });
+  const [remoteStreams, setRemoteStreams] = useState<RemoteStream[]>([]);
+  const [rtcConfig, setRtcConfig] = useState<RTCConfiguration>(defaultRtcConfig);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [callMode, setCallMode] = useState<CallMode>('mesh');
+  // Set once the media server fails us; the call stays full-mesh from then on.
+  const [sfuUnavailable, setSfuUnavailable] = useState(false);
+  const [callNotice, setCallNotice] = useState<string | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const { devices, preferences, choose: chooseDevice, refresh: refreshDevices } = useMediaDevices();
+  const preferencesRef = useRef(preferences);
+  preferencesRef.current = preferences;
+  const [pushToTalk, setPushToTalk] = useState<PushToTalkSettings>(loadPushToTalkSettings);
+  const [voiceSettings, setVoiceSettings] = useState<VoiceSettings>(DEFAULT_VOICE_SETTINGS);
+  const voiceSettingsRef = useRef(voiceSettings);
+  voiceSettingsRef.current = voiceSettings;
+  const voiceSettingsDirtyRef = useRef(false);
+  const [mixer] = useState(() => new RemoteAudioMixer());
 
   const { user } = useAuth();
   const localVideoRef = useRef<HTMLVideoElement>(null);
-  const remoteVideosRef = useRef<{ [key: string]: HTMLVideoElement | null }>({});
-  const signalingChannel = useRef<any>(null);
-
-  const iceServers = {
-    iceServers: [
-      { urls: 'stun:stun.l.google.com:19302' },
-      { urls: 'stun:stun1.l.google.com:19302' },
-    ],
-  };
+  const sessionRef = useRef<BaseCallSession | null>(null);
+  const switchModeRef = useRef<((mode: CallMode) => void) | null>(null);
+  const callModeRef = useRef(callMode);
+  callModeRef.current = callMode;
+  const rtcConfigRef = useRef(rtcConfig);
+  rtcConfigRef.current = rtcConfig;
+
+  const {
+    inCall: isInCall,
+    muted: isMuted,
+    deafened: isDeafened,
+    videoOn: isVideoOn,
+    screenSharing: isScreenSharing,
+  } = callState;
+
+  // Fall back to the default output while the chosen one is unplugged.
+  const sinkId = devices.audioOutputs.some((d) => d.deviceId === preferences.audioOutput)
+    ? preferences.audioOutput!
+    : '';
 
   useEffect(() => {
-    if (!user || !roomId) return;
+    if (!user) return;
 
-    signalingChannel.current = supabase.channel(`webrtc_${roomId}`)
-      .on('broadcast', { event: 'offer' }, async ({ payload }) => {
-        if (payload.to === user.id) {
-          await handleOffer(payload);
-        }
-      })
-      .on('broadcast', { event: 'answer' }, async ({ payload }) => {
-        if (payload.to === user.id) {
-          await handleAnswer(payload);
-        }
+    let cancelled = false;
+    voiceSettingsDirtyRef.current = false;
+    loadVoiceSettings(user.id)
+      .then((settings) => {
+        if (!cancelled && !voiceSettingsDirtyRef.current) setVoiceSettings(settings);
       })
-      .on('broadcast', { event: 'ice-candidate' }, async ({ payload }) => {
-        if (payload.to === user.id) {
-          await handleIceCandidate(payload);
-        }
-      })
-      .subscribe();
+      .catch((error) => console.error('Error loading voice settings:', error));
 
     return () => {
-      if (signalingChannel.current) {
-        supabase.removeChannel(signalingChannel.current);
-      }
+      cancelled = true;
     };
-  }, [roomId, user]);
+  }, [user]);
 
-  const startCall = async () => {
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: true,
-        video: false,
-      });
-
-      setLocalStream(stream);
-      setIsInCall(true);
-      setIsMuted(false);
-
-      participants.forEach((participant) => {
-        if (participant.user_id !== user?.id) {
-          createPeerConnection(participant.user_id, stream, true);
-        }
-      });
-    } catch (error) {
-      console.error('Error starting call:', error);
-      alert('Could not access microphone. Please check permissions.');
-    }
-  };
+  useEffect(() => {
+    if (!user || !voiceSettingsDirtyRef.current) return;
 
-  const endCall = () => {
-    if (localStream) {
-      localStream.getTracks().forEach((track) => track.stop());
-      setLocalStream(null);
-    }
+    const timeout = setTimeout(() => {
+      saveVoiceSettings(user.id, voiceSettings).catch((error) =>
+        console.error('Error saving voice settings:', error)
+      );
+    }, VOICE_SETTINGS_SAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [user, voiceSettings]);
 
-    if (screenStream) {
-      screenStream.getTracks().forEach((track) => track.stop());
-      setScreenStream(null);
-    }
+  useEffect(() => () => mixer.close(), [mixer]);
 
-    peerConnections.forEach((pc) => {
-      pc.connection.close();
-    });
+  useEffect(() => {
+    mixer.sync(remoteStreams);
+  }, [mixer, remoteStreams]);
 
-    setPeerConnections([]);
-    setIsInCall(false);
-    setIsMuted(false);
-    setIsVideoOn(false);
-    setIsScreenSharing(false);
-  };
+  useEffect(() => {
+    Object.entries(voiceSettings.participant_volumes).forEach(([userId, volume]) =>
+      mixer.setVolume(userId, volume)
+    );
+  }, [mixer, voiceSettings.participant_volumes]);
 
-  const toggleMute = () => {
-    if (localStream) {
-      const audioTrack = localStream.getAudioTracks()[0];
-      if (audioTrack) {
-        audioTrack.enabled = !audioTrack.enabled;
-        setIsMuted(!audioTrack.enabled);
-      }
-    }
-  };
+  useEffect(() => {
+    mixer.setDeafened(isDeafened);
+  }, [mixer, isDeafened]);
 
-  const toggleVideo = async () => {
-    if (!isVideoOn) {
-      try {
-        const videoStream = await navigator.mediaDevices.getUserMedia({
-          video: true,
-        });
+  useEffect(() => {
+    if (!supportsOutputSelection) return;
+    mixer.setSinkId(sinkId).catch((error) => console.error('Error switching speaker:', error));
+  }, [mixer, sinkId]);
 
-        const videoTrack = videoStream.getVideoTracks()[0];
+  // Counting ourselves whether or not we've joined yet gives everyone in the
+  // call the same number.
+  const participantCount = voiceStates.filter((v) => v.user_id !== user?.id).length + 1;
+  const desiredMode = sfuUnavailable ? 'mesh' : callModeFor(participantCount);
 
-        if (localStream) {
-          localStream.addTrack(videoTrack);
-        } else {
-          setLocalStream(videoStream);
-        }
+  useEffect(() => {
+    if (desiredMode === callMode) return;
 
-        peerConnections.forEach((pc) => {
-          pc.connection.addTrack(videoTrack, localStream || videoStream);
-        });
+    // Joining picks the right mode straight away; a running call waits to
+    // see that the change sticks.
+    if (!isInCall) {
+      setCallMode(desiredMode);
+      return;
+    }
+    const timeout = setTimeout(() => setCallMode(desiredMode), CALL_MODE_SETTLE_MS);
+    return () => clearTimeout(timeout);
+  }, [desiredMode, callMode, isInCall]);
 
-        if (localVideoRef.current) {
-          localVideoRef.current.srcObject = localStream || videoStream;
-        }
+  useEffect(() => {
+    switchModeRef.current?.(callMode);
+  }, [callMode]);
 
-        setIsVideoOn(true);
-      } catch (error) {
-        console.error('Error starting video:', error);
-        alert('Could not access camera. Please check permissions.');
-      }
-    } else {
-      if (localStream) {
-        const videoTracks = localStream.getVideoTracks();
-        videoTracks.forEach((track) => {
-          track.stop();
-          localStream.removeTrack(track);
-        });
-      }
-      setIsVideoOn(false);
-    }
-  };
+  useEffect(() => {
+    if (!user || !roomId) return;
 
-  const toggleScreenShare = async () => {
-    if (!isScreenSharing) {
-      try {
-        const stream = await navigator.mediaDevices.getDisplayMedia({
-          video: true,
-          audio: true,
+    const userId = user.id;
+    setSfuUnavailable(false);
+    setCallNotice(null);
+
+    // Mirror the call into `voice_states` so everyone can see who is in voice.
+    // Writes are chained so a quick toggle can't overtake the initial insert.
+    let inVoice = false;
+    let pendingWrite = Promise.resolve();
+    const writeVoiceState = (write: () => PromiseLike<unknown>) => {
+      pendingWrite = pendingWrite.then(write, write).then(() => undefined);
+    };
+
+    const mirrorVoiceState = (state: CallState) => {
+      if (state.inCall && !inVoice) {
+        inVoice = true;
+        writeVoiceState(async () => {
+          // Delete before inserting so the room we were in before gets a DELETE event.
+          await supabase.from('voice_states').delete().eq('user_id', userId);
+          await supabase
+            .from('voice_states')
+            .insert({ room_id: roomId, user_id: userId, ...voiceStateColumns(state) });
         });
+      } else if (state.inCall) {
+        writeVoiceState(() =>
+          supabase
+            .from('voice_states')
+            .update(voiceStateColumns(state))
+            .eq('user_id', userId)
+            .eq('room_id', roomId)
+        );
+      } else if (inVoice) {
+        inVoice = false;
+        writeVoiceState(() =>
+          supabase.from('voice_states').delete().eq('user_id', userId).eq('room_id', roomId)
+        );
+      }
+    };
 
-        setScreenStream(stream);
+    // Only the media server session fails this way; switching right away
+    // rather than after the settle delay keeps the gap in audio short.
+    const fallBackToMesh = (error: Error) => {
+      console.error('Media server failed, falling back to a direct call:', error);
+      setSfuUnavailable(true);
+      setCallMode('mesh');
+      setCallNotice(
+        'Could not connect to the media server, so this call is now connecting everyone directly.'
+      );
+    };
 
-        const videoTrack = stream.getVideoTracks()[0];
+    let sessionMode = callModeRef.current;
+    let unsubscribe: (() => void)[] = [];
+    const attach = (session: BaseCallSession) => {
+      sessionRef.current = session;
+      setCallState(session.getState());
+      setRemoteStreams(session.getRemoteStreams());
+      unsubscribe = [
+        session.on('state', setCallState),
+        session.on('remote-streams', setRemoteStreams),
+        session.on('state', mirrorVoiceState),
+        session.on('error', fallBackToMesh),
+      ];
+    };
+    attach(createCallSession(sessionMode, userId, roomId, rtcConfigRef.current));
+
+    // The local media moves to the new session untouched, and since the call
+    // never leaves, our voice state stays put.
+    switchModeRef.current = (mode) => {
+      const current = sessionRef.current;
+      if (!current || mode === sessionMode) return;
+
+      sessionMode = mode;
+      unsubscribe.forEach((stop) => stop());
+      const media = current.handOff();
+      current.destroy();
+
+      const next = createCallSession(mode, userId, roomId, rtcConfigRef.current);
+      attach(next);
+      if (media) {
+        next.resume(media);
+      }
+    };
 
-        peerConnections.forEach((pc) => {
-          const sender = pc.connection
-            .getSenders()
-            .find((s) => s.track?.kind === 'video');
+    const heartbeat = setInterval(() => {
+      if (!inVoice) return;
+      writeVoiceState(() =>
+        supabase
+          .from('voice_states')
+          .update({ updated_at: new Date().toISOString() })
+          .eq('user_id', userId)
+          .eq('room_id', roomId)
+      );
+    }, HEARTBEAT_INTERVAL_MS);
 
-          if (sender) {
-            sender.replaceTrack(videoTrack);
-          } else {
-            pc.connection.addTrack(videoTrack, stream);
-          }
-        });
+    return () => {
+      clearInterval(heartbeat);
+      switchModeRef.current = null;
+      sessionRef.current?.destroy();
+      sessionRef.current = null;
+    };
+  }, [roomId, user]);
 
-        stream.getVideoTracks()[0].onended = () => {
-          setIsScreenSharing(false);
-          setScreenStream(null);
-        };
+  // Credentials are cached until they are close to expiring, so this only
+  // reaches the server when the session would otherwise be left with stale ones.
+  useEffect(() => {
+    if (!isInCall) {
+      setShowDiagnostics(false);
+      return;
+    }
 
-        setIsScreenSharing(true);
+    const interval = setInterval(async () => {
+      try {
+        const config = await loadRtcConfig();
+        sessionRef.current?.setRtcConfig(config);
+        setRtcConfig(config);
       } catch (error) {
-        console.error('Error sharing screen:', error);
+        console.error('Error refreshing ICE servers:', error);
       }
-    } else {
-      if (screenStream) {
-        screenStream.getTracks().forEach((track) => track.stop());
-        setScreenStream(null);
+    }, ICE_CONFIG_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [isInCall]);
+
+  // Only the first stream of each participant is their microphone; the
+  // rest are screen shares.
+  const localStream = isInCall ? (sessionRef.current?.localStream ?? null) : null;
+  const voiceSources = useMemo(() => {
+    const sources: VoiceSource[] = [];
+    if (user && localStream) {
+      sources.push({ userId: user.id, stream: localStream });
+    }
+    remoteStreams.forEach((remote) => {
+      if (!sources.some((source) => source.userId === remote.userId)) {
+        sources.push({ userId: remote.userId, stream: remote.stream });
       }
+    });
+    return sources;
+  }, [user, localStream, remoteStreams]);
+  const speaking = useVoiceActivity(voiceSources);
 
-      if (localStream && isVideoOn) {
-        const videoTrack = localStream.getVideoTracks()[0];
-        peerConnections.forEach((pc) => {
-          const sender = pc.connection
-            .getSenders()
-            .find((s) => s.track?.kind === 'video');
-
-          if (sender && videoTrack) {
-            sender.replaceTrack(videoTrack);
-          }
-        });
-      }
+  useEffect(() => {
+    onSpeakingChange(speaking);
+  }, [speaking, onSpeakingChange]);
 
-      setIsScreenSharing(false);
-    }
-  };
+  useEffect(() => () => onSpeakingChange(new Set()), [onSpeakingChange]);
 
-  const createPeerConnection = async (
-    userId: string,
-    stream: MediaStream,
-    initiator: boolean
-  ) => {
-    const pc = new RTCPeerConnection(iceServers);
+  // With push-to-talk the mic is open only while the key is held.
+  useEffect(() => {
+    if (!isInCall || !pushToTalk.enabled) return;
 
-    stream.getTracks().forEach((track) => {
-      pc.addTrack(track, stream);
-    });
+    const setMuted = (muted: boolean) => sessionRef.current?.setMuted(muted);
+    const press = (e: KeyboardEvent) => {
+      if (e.code !== pushToTalk.key || e.repeat || isTypingKey(e)) return;
+      if (sessionRef.current?.getState().deafened) return;
+      setMuted(false);
+    };
+    const release = (e: KeyboardEvent) => {
+      if (e.code === pushToTalk.key) setMuted(true);
+    };
+    // Releasing the key in another window never reaches us.
+    const releaseAll = () => setMuted(true);
 
-    pc.onicecandidate = (event) => {
-      if (event.candidate) {
-        signalingChannel.current?.send({
-          type: 'broadcast',
-          event: 'ice-candidate',
-          payload: {
-            to: userId,
-            from: user?.id,
-            candidate: event.candidate,
-          },
-        });
-      }
+    setMuted(true);
+    window.addEventListener('keydown', press);
+    window.addEventListener('keyup', release);
+    window.addEventListener('blur', releaseAll);
+    return () => {
+      window.removeEventListener('keydown', press);
+      window.removeEventListener('keyup', release);
+      window.removeEventListener('blur', releaseAll);
     };
+  }, [isInCall, pushToTalk]);
 
-    pc.ontrack = (event) => {
-      const remoteVideo = remoteVideosRef.current[userId];
-      if (remoteVideo && event.streams[0]) {
-        remoteVideo.srcObject = event.streams[0];
-      }
+  // Unplugging a device ends its track; carry on with the preferred device if
+  // it is still around, or the default one otherwise.
+  useEffect(() => {
+    const session = sessionRef.current;
+    if (!isInCall || !session) return;
+
+    const mic = session.localStream?.getAudioTracks()[0];
+    if (mic?.readyState === 'ended') {
+      openMicrophone(
+        preferencesRef.current.audioInput,
+        processingConstraints(voiceSettingsRef.current)
+      )
+        .then((stream) => session.replaceMicrophone(stream.getAudioTracks()[0]))
+        .catch((error) => console.error('Error reopening microphone:', error));
+    }
 
-      setPeerConnections((prev) => {
-        const existing = prev.find((p) => p.userId === userId);
-        if (existing) {
-          existing.stream = event.streams[0];
-          return [...prev];
-        }
-        return [...prev, { userId, connection: pc, stream: event.streams[0] }];
-      });
-    };
+    const camera = session.localStream?.getVideoTracks()[0];
+    if (camera?.readyState === 'ended') {
+      openCamera(preferencesRef.current.videoInput)
+        .then((stream) => session.replaceCamera(stream.getVideoTracks()[0]))
+        .catch(() => session.removeCameraTrack());
+    }
+  }, [devices, isInCall]);
 
-    if (initiator) {
-      const offer = await pc.createOffer();
-      await pc.setLocalDescription(offer);
-
-      signalingChannel.current?.send({
-        type: 'broadcast',
-        event: 'offer',
-        payload: {
-          to: userId,
-          from: user?.id,
-          offer,
-        },
-      });
+  useEffect(() => {
+    const session = sessionRef.current;
+    if (localVideoRef.current && session) {
+      localVideoRef.current.srcObject = isScreenSharing
+        ? session.screenStream
+        : session.localStream;
     }
+  }, [isVideoOn, isScreenSharing]);
 
-    setPeerConnections((prev) => {
-      const existing = prev.find((p) => p.userId === userId);
-      if (existing) return prev;
-      return [...prev, { userId, connection: pc }];
-    });
+  const startCall = async () => {
+    try {
+      const [stream, config] = await Promise.all([
+        openMicrophone(preferences.audioInput, processingConstraints(voiceSettings)),
+        loadRtcConfig(),
+      ]);
+
+      setRtcConfig(config);
+      sessionRef.current?.setRtcConfig(config);
+      sessionRef.current?.join(stream);
+      // Device labels are only readable once access has been granted.
+      refreshDevices();
+    } catch (error) {
+      console.error('Error starting call:', error);
+      alert('Could not access microphone. Please check permissions.');
+    }
   };
 
-  const handleOffer = async (payload: any) => {
-    if (!localStream) return;
+  const endCall = () => {
+    sessionRef.current?.leave();
+  };
+
+  const toggleMute = () => {
+    sessionRef.current?.setMuted(!isMuted);
+  };
 
-    const pc = new RTCPeerConnection(iceServers);
+  const toggleDeafen = () => {
+    sessionRef.current?.setDeafened(!isDeafened);
+  };
 
-    localStream.getTracks().forEach((track) => {
-      pc.addTrack(track, localStream);
+  const updateVoiceSettings = (patch: Partial<VoiceSettings>) => {
+    voiceSettingsDirtyRef.current = true;
+    setVoiceSettings((prev) => ({ ...prev, ...patch }));
+  };
+
+  const setParticipantVolume = (userId: string, volume: number) => {
+    updateVoiceSettings({
+      participant_volumes: { ...voiceSettings.participant_volumes, [userId]: volume },
     });
+  };
 
-    pc.onicecandidate = (event) => {
-      if (event.candidate) {
-        signalingChannel.current?.send({
-          type: 'broadcast',
-          event: 'ice-candidate',
-          payload: {
-            to: payload.from,
-            from: user?.id,
-            candidate: event.candidate,
-          },
-        });
-      }
-    };
+  // Browsers apply processing when the mic is opened, so changing it means
+  // reopening the mic rather than adjusting the live track.
+  const changeProcessing = async (patch: Partial<VoiceSettings>) => {
+    const next = { ...voiceSettings, ...patch };
+    updateVoiceSettings(patch);
 
-    pc.ontrack = (event) => {
-      const remoteVideo = remoteVideosRef.current[payload.from];
-      if (remoteVideo && event.streams[0]) {
-        remoteVideo.srcObject = event.streams[0];
-      }
-    };
+    const session = sessionRef.current;
+    if (!session || !isInCall) return;
 
-    await pc.setRemoteDescription(new RTCSessionDescription(payload.offer));
-    const answer = await pc.createAnswer();
-    await pc.setLocalDescription(answer);
-
-    signalingChannel.current?.send({
-      type: 'broadcast',
-      event: 'answer',
-      payload: {
-        to: payload.from,
-        from: user?.id,
-        answer,
-      },
-    });
+    try {
+      const stream = await openMicrophone(preferences.audioInput, processingConstraints(next));
+      session.replaceMicrophone(stream.getAudioTracks()[0]);
+    } catch (error) {
+      console.error('Error applying audio processing:', error);
+    }
+  };
+
+  const toggleVideo = async () => {
+    const session = sessionRef.current;
+    if (!session) return;
+
+    if (!isVideoOn) {
+      try {
+        const videoStream = await openCamera(preferences.videoInput);
 
-    setPeerConnections((prev) => [...prev, { userId: payload.from, connection: pc }]);
+        session.addCameraTrack(videoStream.getVideoTracks()[0]);
+      } catch (error) {
+        console.error('Error starting video:', error);
+        alert('Could not access camera. Please check permissions.');
+      }
+    } else {
+      session.removeCameraTrack();
+    }
   };
 
-  const handleAnswer = async (payload: any) => {
-    const peerConnection = peerConnections.find((pc) => pc.userId === payload.from);
-    if (peerConnection) {
-      await peerConnection.connection.setRemoteDescription(
-        new RTCSessionDescription(payload.answer)
-      );
+  const changePushToTalk = (settings: PushToTalkSettings) => {
+    setPushToTalk(settings);
+    savePushToTalkSettings(settings);
+  };
+
+  const changeDevice = async (kind: keyof DevicePreferences, deviceId: string | null) => {
+    chooseDevice(kind, deviceId);
+
+    const session = sessionRef.current;
+    if (!session || !isInCall) return;
+
+    try {
+      if (kind === 'audioInput') {
+        const stream = await openMicrophone(deviceId, processingConstraints(voiceSettings));
+        session.replaceMicrophone(stream.getAudioTracks()[0]);
+      } else if (kind === 'videoInput' && isVideoOn) {
+        const stream = await openCamera(deviceId);
+        session.replaceCamera(stream.getVideoTracks()[0]);
+      }
+    } catch (error) {
+      console.error('Error switching device:', error);
     }
   };
 
-  const handleIceCandidate = async (payload: any) => {
-    const peerConnection = peerConnections.find((pc) => pc.userId === payload.from);
-    if (peerConnection && payload.candidate) {
-      await peerConnection.connection.addIceCandidate(
-        new RTCIceCandidate(payload.candidate)
-      );
+  const toggleScreenShare = async () => {
+    const session = sessionRef.current;
+    if (!session) return;
+
+    if (!isScreenSharing) {
+      try {
+        const stream = await navigator.mediaDevices.getDisplayMedia({
+          video: true,
+          audio: true,
+        });
+
+        session.startScreenShare(stream);
+      } catch (error) {
+        console.error('Error sharing screen:', error);
+      }
+    } else {
+      session.stopScreenShare();
     }
   };
 
+  // One tile per person in voice, plus one per extra stream they publish
+  // (a screen share). Streams from peers whose voice state hasn't loaded yet
+  // still get a tile so their audio plays.
+  const otherVoiceStates = voiceStates.filter((v) => v.user_id !== user?.id);
+  const streamUserIds = Array.from(new Set(remoteStreams.map((r) => r.userId)));
+  const tileUserIds = [
+    ...otherVoiceStates.map((v) => v.user_id),
+    ...streamUserIds.filter((id) => !otherVoiceStates.some((v) => v.user_id === id)),
+  ];
+  const tiles = tileUserIds.flatMap((userId): VoiceTile[] => {
+    const voiceState = otherVoiceStates.find((v) => v.user_id === userId);
+    const streams = remoteStreams.filter((r) => r.userId === userId);
+
+    if (streams.length === 0) {
+      return [{ key: userId, userId, voiceState, stream: null, isScreen: false }];
+    }
+    return streams.map((r, index) => ({
+      key: r.stream.id,
+      userId,
+      voiceState,
+      stream: r.stream,
+      isScreen: index > 0,
+    }));
+  });
+
   return (
     <div className="bg-slate-50 border-b border-gray-200">
       <div className="p-4">
@@ -357,15 +561,29 @@ export function MediaControls({ roomId, participants }: MediaControlsProps) {
             <>
               <button
                 onClick={toggleMute}
+                disabled={pushToTalk.enabled}
+                title={pushToTalk.enabled ? `Hold ${describeKey(pushToTalk.key)} to talk` : undefined}
                 className={`p-3 rounded-xl transition ${
                   isMuted
                     ? 'bg-red-600 text-white'
                     : 'bg-slate-200 text-slate-700 hover:bg-slate-300'
-                }`}
+                } ${pushToTalk.enabled ? 'cursor-default' : ''}`}
               >
                 {isMuted ? <MicOff className="w-5 h-5" /> : <Mic className="w-5 h-5" />}
               </button>
 
+              <button
+                onClick={toggleDeafen}
+                title={isDeafened ? 'Undeafen' : 'Deafen'}
+                className={`p-3 rounded-xl transition ${
+                  isDeafened
+                    ? 'bg-red-600 text-white'
+                    : 'bg-slate-200 text-slate-700 hover:bg-slate-300'
+                }`}
+              >
+                <Headphones className="w-5 h-5" />
+              </button>
+
               <button
                 onClick={toggleVideo}
                 className={`p-3 rounded-xl transition ${
@@ -392,6 +610,18 @@ export function MediaControls({ roomId, participants }: MediaControlsProps) {
                 )}
               </button>
 
+              <button
+                onClick={() => setShowDiagnostics(!showDiagnostics)}
+                title="Connection diagnostics"
+                className={`p-3 rounded-xl transition ${
+                  showDiagnostics
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-slate-200 text-slate-700 hover:bg-slate-300'
+                }`}
+              >
+                <Activity className="w-5 h-5" />
+              </button>
+
               <button
                 onClick={endCall}
                 className="p-3 bg-red-600 text-white rounded-xl hover:bg-red-700 transition"
@@ -400,14 +630,56 @@ export function MediaControls({ roomId, participants }: MediaControlsProps) {
               </button>
             </>
           )}
+
+          <button
+            onClick={() => setShowSettings(!showSettings)}
+            title="Audio & video settings"
+            className={`p-3 rounded-xl transition ${
+              showSettings
+                ? 'bg-blue-600 text-white'
+                : 'bg-slate-200 text-slate-700 hover:bg-slate-300'
+            }`}
+          >
+            <Settings className="w-5 h-5" />
+          </button>
         </div>
+        {isInCall && callNotice && (
+          <p className="mt-3 text-center text-sm text-amber-700">{callNotice}</p>
+        )}
       </div>
 
-      {(isVideoOn || isScreenSharing || peerConnections.some((pc) => pc.stream)) && (
+      {showSettings && (
+        <DeviceSettingsPanel
+          devices={devices}
+          preferences={preferences}
+          onChoose={changeDevice}
+          pushToTalk={pushToTalk}
+          onPushToTalkChange={changePushToTalk}
+          voiceSettings={voiceSettings}
+          onProcessingChange={changeProcessing}
+          onRefresh={refreshDevices}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      {showDiagnostics && sessionRef.current && (
+        <IceDiagnosticsPanel
+          session={sessionRef.current}
+          rtcConfig={rtcConfig}
+          voiceStates={voiceStates}
+          onClose={() => setShowDiagnostics(false)}
+        />
+      )}
+
+      {isInCall && (isVideoOn || isScreenSharing || tiles.length > 0) && (
         <div className="p-4 bg-slate-100 border-t border-gray-200">
           <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
             {(isVideoOn || isScreenSharing) && (
-              <div className="relative bg-slate-900 rounded-xl overflow-hidden aspect-video">
+              <div
+                className={`relative bg-slate-900 rounded-xl overflow-hidden aspect-video ${
+                  user && speaking.has(user.id) ? 'ring-4 ring-green-500' : ''
+                }`}
+              >
                 <video
                   ref={localVideoRef}
                   autoPlay
@@ -421,26 +693,69 @@ export function MediaControls({ roomId, participants }: MediaControlsProps) {
               </div>
             )}
 
-            {participants
-              .filter((p) => p.user_id !== user?.id)
-              .map((participant) => (
+            {tiles.map(({ key, userId, voiceState, stream, isScreen }) => {
+              const username = voiceState?.user_profiles?.username || 'User';
+              const isSpeaking = !isScreen && speaking.has(userId);
+
+              return (
                 <div
-                  key={participant.user_id}
-                  className="relative bg-slate-900 rounded-xl overflow-hidden aspect-video"
+                  key={key}
+                  className={`group relative bg-slate-900 rounded-xl overflow-hidden aspect-video ${
+                    isSpeaking ? 'ring-4 ring-green-500' : ''
+                  }`}
                 >
-                  <video
-                    ref={(el) => {
-                      remoteVideosRef.current[participant.user_id] = el;
-                    }}
-                    autoPlay
-                    playsInline
-                    className="w-full h-full object-cover"
-                  />
-                  <div className="absolute bottom-2 left-2 bg-black/50 px-2 py-1 rounded text-white text-sm">
-                    {participant.user_profiles?.username || 'User'}
+                  {stream && (
+                    <video
+                      ref={(el) => {
+                        if (el && el.srcObject !== stream) {
+                          el.srcObject = stream;
+                        }
+                      }}
+                      autoPlay
+                      muted
+                      playsInline
+                      className="w-full h-full object-cover"
+                    />
+                  )}
+                  {(!stream || stream.getVideoTracks().length === 0) && (
+                    <div className="absolute inset-0 flex items-center justify-center">
+                      <div
+                        className={`w-16 h-16 rounded-full bg-blue-600 flex items-center justify-center text-white text-2xl font-bold transition ${
+                          isSpeaking ? 'ring-4 ring-green-500 ring-offset-2 ring-offset-slate-900' : ''
+                        }`}
+                      >
+                        {username[0]?.toUpperCase()}
+                      </div>
+                    </div>
+                  )}
+                  <div className="absolute bottom-2 left-2 flex items-center gap-1 bg-black/50 px-2 py-1 rounded text-white text-sm">
+                    {voiceState?.is_deafened && !isScreen ? (
+                      <Headphones className="w-3.5 h-3.5 text-red-400" />
+                    ) : (
+                      voiceState?.is_muted && !isScreen && <MicOff className="w-3.5 h-3.5 text-red-400" />
+                    )}
+                    {username} {isScreen && '(Screen)'}
                   </div>
+                  {!isScreen && (
+                    <label
+                      title={`Volume for ${username}`}
+                      className="absolute top-2 right-2 flex items-center gap-2 bg-black/50 px-2 py-1 rounded text-white text-xs opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition"
+                    >
+                      <input
+                        type="range"
+                        min={0}
+                        max={MAX_PARTICIPANT_VOLUME * 100}
+                        step={5}
+                        value={Math.round(participantVolume(voiceSettings, userId) * 100)}
+                        onChange={(e) => setParticipantVolume(userId, Number(e.target.value) / 100)}
+                        className="w-24 accent-blue-500"
+                      />
+                      {Math.round(participantVolume(voiceSettings, userId) * 100)}%
+                    </label>
+                  )}
                 </div>
-              ))}
+              );
+            })}
           </div>
         </div>
       )}
@@ -0,0 +1,100 @@
+import { useState } from 'react';
+import { Ban, Clock, LogOut, TimerOff } from 'lucide-react';
+import { RoomParticipant } from '../lib/supabase';
+import { banMember, isTimedOut, kickMember, timeoutMember, TIMEOUT_DURATIONS } from '../lib/moderation';
+
+interface MemberModerationMenuProps {
+  roomId: string;
+  member: RoomParticipant;
+  onDone: () => void;
+  onError: (message: string) => void;
+}
+
+/** Timeout, kick and ban actions for one member, shown inline in the member list. */
+export function MemberModerationMenu({ roomId, member, onDone, onError }: MemberModerationMenuProps) {
+  const [showDurations, setShowDurations] = useState(false);
+
+  const username = member.user_profiles?.username || 'this member';
+
+  const run = async (action: (reason: string) => Promise<void>, question: string) => {
+    const reason = prompt(`${question}\n\nReason (optional):`);
+    if (reason === null) return;
+
+    onDone();
+    try {
+      await action(reason.trim());
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Moderation action failed');
+    }
+  };
+
+  const liftTimeout = async () => {
+    onDone();
+    try {
+      await timeoutMember(roomId, member.user_id, 0);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Moderation action failed');
+    }
+  };
+
+  return (
+    <div className="mx-4 mb-2 py-1 bg-gray-50 border border-gray-200 rounded-lg text-sm">
+      {isTimedOut(member.timed_out_until) ? (
+        <button
+          onClick={liftTimeout}
+          className="w-full flex items-center gap-2 px-3 py-1.5 text-gray-700 hover:bg-gray-100"
+        >
+          <TimerOff className="w-4 h-4" />
+          Remove timeout
+        </button>
+      ) : (
+        <button
+          onClick={() => setShowDurations(!showDurations)}
+          className="w-full flex items-center gap-2 px-3 py-1.5 text-gray-700 hover:bg-gray-100"
+        >
+          <Clock className="w-4 h-4" />
+          Timeout…
+        </button>
+      )}
+      {showDurations &&
+        TIMEOUT_DURATIONS.map((duration) => (
+          <button
+            key={duration.seconds}
+            onClick={() =>
+              run(
+                (reason) => timeoutMember(roomId, member.user_id, duration.seconds, reason),
+                `Time out ${username} for ${duration.label}?`
+              )
+            }
+            className="w-full pl-9 pr-3 py-1 text-left text-gray-600 hover:bg-gray-100"
+          >
+            {duration.label}
+          </button>
+        ))}
+      <button
+        onClick={() =>
+          run(
+            (reason) => kickMember(roomId, member.user_id, reason),
+            `Kick ${username} from the room?`
+          )
+        }
+        className="w-full flex items-center gap-2 px-3 py-1.5 text-red-600 hover:bg-red-50"
+      >
+        <LogOut className="w-4 h-4" />
+        Kick
+      </button>
+      <button
+        onClick={() =>
+          run(
+            (reason) => banMember(roomId, member.user_id, reason),
+            `Ban ${username}? They'll be removed and can't rejoin until unbanned.`
+          )
+        }
+        className="w-full flex items-center gap-2 px-3 py-1.5 text-red-600 hover:bg-red-50"
+      >
+        <Ban className="w-4 h-4" />
+        Ban
+      </button>
+    </div>
+  );
+}
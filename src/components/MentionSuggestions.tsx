@@ -0,0 +1,46 @@
+import { Users } from 'lucide-react';
+import { isGroupMention, MentionCandidate } from '../lib/mentions';
+
+interface MentionSuggestionsProps {
+  suggestions: MentionCandidate[];
+  activeIndex: number;
+  onPick: (candidate: MentionCandidate) => void;
+  onHover: (index: number) => void;
+}
+
+/** The `@` autocomplete list, anchored above the composer input. */
+export function MentionSuggestions({ suggestions, activeIndex, onPick, onHover }: MentionSuggestionsProps) {
+  return (
+    <ul
+      role="listbox"
+      className="absolute bottom-full left-0 right-0 mb-2 py-1 bg-white border border-gray-200 rounded-xl shadow-lg z-20 max-h-64 overflow-y-auto"
+    >
+      {suggestions.map((candidate, index) => (
+        <li key={candidate.id} role="option" aria-selected={index === activeIndex}>
+          <button
+            type="button"
+            // Keep focus (and the caret) in the textarea.
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => onPick(candidate)}
+            onMouseEnter={() => onHover(index)}
+            className={`w-full flex items-center gap-3 px-3 py-1.5 text-left text-sm ${
+              index === activeIndex ? 'bg-blue-50' : ''
+            }`}
+          >
+            <div className="w-6 h-6 rounded-full bg-blue-600 flex items-center justify-center text-white text-xs font-bold flex-shrink-0">
+              {isGroupMention(candidate.id) ? (
+                <Users className="w-3.5 h-3.5" />
+              ) : (
+                candidate.username[0]?.toUpperCase() || 'U'
+              )}
+            </div>
+            <span className="font-medium text-gray-800">@{candidate.username}</span>
+            {candidate.description && (
+              <span className="ml-auto text-xs text-gray-500 truncate">{candidate.description}</span>
+            )}
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
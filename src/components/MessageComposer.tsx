@@ -0,0 +1,505 @@
+import { forwardRef, useEffect, useImperativeHandle, useLayoutEffect, useRef, useState } from 'react';
+import { FileText, Paperclip, Send, X } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { MessageMention } from '../lib/supabase';
+import {
+  attachmentPath,
+  formatBytes,
+  isImage,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  removeAttachmentFiles,
+  UploadedAttachment,
+  uploadAttachment,
+  validateAttachment,
+} from '../lib/attachments';
+import {
+  encodeMentions,
+  findMentionQuery,
+  isGroupMention,
+  MAX_MENTION_SUGGESTIONS,
+  MentionCandidate,
+  mentionsFor,
+} from '../lib/mentions';
+import { searchUsers } from '../lib/directMessages';
+import { validateMessageContent } from '../lib/messages';
+import { MentionSuggestions } from './MentionSuggestions';
+
+interface MessageComposerProps {
+  roomId: string;
+  placeholder: string;
+  onSend: (
+    content: string,
+    attachments: UploadedAttachment[],
+    mentions: MessageMention[]
+  ) => Promise<void>;
+  /** Rendered above the input, e.g. the "replying to" bar. */
+  header?: React.ReactNode;
+  /** Blocks sending until a point in time, e.g. a timeout or slow mode. */
+  lock?: ComposerLock | null;
+  /** Offered when typing `@`, e.g. the room's members and `@everyone`. */
+  mentionCandidates?: MentionCandidate[];
+  /** Also suggest matching users from the whole directory (public rooms). */
+  searchDirectory?: boolean;
+  /** Called as the draft changes; false once it's sent or cleared. */
+  onTyping?: (typing: boolean) => void;
+  /** Shown in place of the formatting hint, e.g. who else is typing. */
+  activity?: React.ReactNode;
+}
+
+export interface ComposerLock {
+  until: number;
+  reason: string;
+}
+
+export interface MessageComposerHandle {
+  /** Queues files for upload, e.g. ones dropped elsewhere in the room. */
+  addFiles: (files: File[]) => void;
+}
+
+interface PendingUpload {
+  id: string;
+  file: File;
+  previewUrl: string | null;
+  progress: number;
+  uploaded: UploadedAttachment | null;
+  error: string | null;
+  controller: AbortController;
+}
+
+const MAX_HEIGHT_PX = 200;
+const DIRECTORY_SEARCH_DELAY_MS = 200;
+const NO_MENTION_CANDIDATES: MentionCandidate[] = [];
+
+const formatCountdown = (seconds: number) => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  if (h > 0) return `${h}h ${m}m`;
+  if (m > 0) return `${m}m ${s.toString().padStart(2, '0')}s`;
+  return `${s}s`;
+};
+
+/**
+ * Multi-line message input. Enter sends, Shift+Enter inserts a newline, and
+ * the textarea grows with its content up to a limit. Files picked, pasted or
+ * dropped start uploading straight away and are attached on send. Typing
+ * `@` offers mention suggestions; picked users are sent as mention tokens.
+ */
+export const MessageComposer = forwardRef<MessageComposerHandle, MessageComposerProps>(
+  function MessageComposer(
+    {
+      roomId,
+      placeholder,
+      onSend,
+      header,
+      lock,
+      mentionCandidates = NO_MENTION_CANDIDATES,
+      searchDirectory = false,
+      onTyping,
+      activity,
+    },
+    ref
+  ) {
+    const { user } = useAuth();
+    const [content, setContent] = useState('');
+    const [uploads, setUploads] = useState<PendingUpload[]>([]);
+    const [sending, setSending] = useState(false);
+    const [error, setError] = useState('');
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [now, setNow] = useState(Date.now());
+    const uploadsRef = useRef(uploads);
+    uploadsRef.current = uploads;
+    const [mentionQuery, setMentionQuery] = useState<{ start: number; query: string } | null>(null);
+    const [suggestions, setSuggestions] = useState<MentionCandidate[]>([]);
+    const [activeSuggestion, setActiveSuggestion] = useState(0);
+    // Users picked from the directory aren't in `mentionCandidates`.
+    const pickedMentionsRef = useRef(new Map<string, MentionCandidate>());
+
+    const lockedFor = lock ? Math.ceil((lock.until - now) / 1000) : 0;
+
+    // Tick while locked so the countdown updates and the lock lifts on time.
+    useEffect(() => {
+      setNow(Date.now());
+      if (!lock || lock.until <= Date.now()) return;
+
+      const interval = setInterval(() => {
+        setNow(Date.now());
+        if (Date.now() >= lock.until) clearInterval(interval);
+      }, 1000);
+      return () => clearInterval(interval);
+    }, [lock]);
+
+    useEffect(() => {
+      if (!mentionQuery) {
+        setSuggestions([]);
+        return;
+      }
+
+      const query = mentionQuery.query.toLowerCase();
+      const local = mentionCandidates
+        .filter((candidate) => candidate.username.toLowerCase().includes(query))
+        .sort(
+          (a, b) =>
+            Number(b.username.toLowerCase().startsWith(query)) -
+            Number(a.username.toLowerCase().startsWith(query))
+        )
+        .slice(0, MAX_MENTION_SUGGESTIONS);
+      setSuggestions(local);
+      setActiveSuggestion(0);
+
+      if (!searchDirectory || !query || local.length >= MAX_MENTION_SUGGESTIONS) return;
+
+      let cancelled = false;
+      const timeout = setTimeout(async () => {
+        try {
+          const known = mentionCandidates.filter((c) => !isGroupMention(c.id)).map((c) => c.id);
+          const profiles = await searchUsers(query, user ? [...known, user.id] : known);
+          if (cancelled) return;
+          setSuggestions([
+            ...local,
+            ...profiles
+              .slice(0, MAX_MENTION_SUGGESTIONS - local.length)
+              .map((profile) => ({ id: profile.id, username: profile.username })),
+          ]);
+        } catch (err) {
+          console.error('Error searching users:', err);
+        }
+      }, DIRECTORY_SEARCH_DELAY_MS);
+
+      return () => {
+        cancelled = true;
+        clearTimeout(timeout);
+      };
+    }, [mentionQuery, mentionCandidates, searchDirectory, user]);
+
+    useLayoutEffect(() => {
+      const textarea = textareaRef.current;
+      if (!textarea) return;
+
+      textarea.style.height = 'auto';
+      textarea.style.height = `${Math.min(textarea.scrollHeight, MAX_HEIGHT_PX)}px`;
+    }, [content]);
+
+    // Abandoning the composer (switching rooms, closing a thread) cancels
+    // in-flight uploads and cleans up files that were never sent.
+    useEffect(() => {
+      const pickedMentions = pickedMentionsRef.current;
+      return () => {
+        const pending = uploadsRef.current;
+        pending.forEach((upload) => {
+          upload.controller.abort();
+          if (upload.previewUrl) URL.revokeObjectURL(upload.previewUrl);
+        });
+        removeAttachmentFiles(
+          pending.flatMap((upload) => (upload.uploaded ? [upload.uploaded.storage_path] : []))
+        ).catch((err) => console.error('Error removing unsent attachments:', err));
+        setUploads([]);
+        pickedMentions.clear();
+      };
+    }, [roomId]);
+
+    const updateUpload = (id: string, changes: Partial<PendingUpload>) => {
+      setUploads((current) =>
+        current.map((upload) => (upload.id === id ? { ...upload, ...changes } : upload))
+      );
+    };
+
+    const addFiles = (files: File[]) => {
+      if (!user || files.length === 0) return;
+
+      const room = MAX_ATTACHMENTS_PER_MESSAGE - uploadsRef.current.length;
+      if (files.length > room) {
+        setError(`You can attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} files per message`);
+      } else {
+        setError('');
+      }
+
+      const accepted: PendingUpload[] = [];
+      for (const file of files.slice(0, Math.max(room, 0))) {
+        const invalid = validateAttachment(file);
+        if (invalid) {
+          setError(invalid);
+          continue;
+        }
+        accepted.push({
+          id: crypto.randomUUID(),
+          file,
+          previewUrl: isImage(file.type) ? URL.createObjectURL(file) : null,
+          progress: 0,
+          uploaded: null,
+          error: null,
+          controller: new AbortController(),
+        });
+      }
+      if (accepted.length === 0) return;
+
+      setUploads((current) => [...current, ...accepted]);
+
+      accepted.forEach((upload) => {
+        uploadAttachment(
+          upload.file,
+          attachmentPath(roomId, user.id, upload.file.name),
+          (progress) => updateUpload(upload.id, { progress }),
+          upload.controller.signal
+        )
+          .then((uploaded) => {
+            if (upload.controller.signal.aborted) {
+              removeAttachmentFiles([uploaded.storage_path]).catch(() => {});
+              return;
+            }
+            updateUpload(upload.id, { uploaded });
+          })
+          .catch((err) => {
+            if (upload.controller.signal.aborted) return;
+            updateUpload(upload.id, {
+              error: err instanceof Error ? err.message : 'Upload failed',
+            });
+          });
+      });
+    };
+
+    useImperativeHandle(ref, () => ({ addFiles }));
+
+    const removeUpload = (upload: PendingUpload) => {
+      upload.controller.abort();
+      if (upload.previewUrl) URL.revokeObjectURL(upload.previewUrl);
+      if (upload.uploaded) {
+        removeAttachmentFiles([upload.uploaded.storage_path]).catch((err) =>
+          console.error('Error removing attachment:', err)
+        );
+      }
+      setUploads((current) => current.filter((u) => u.id !== upload.id));
+    };
+
+    const uploading = uploads.some((upload) => !upload.uploaded && !upload.error);
+    const failed = uploads.some((upload) => upload.error);
+    const canSend =
+      (content.trim().length > 0 || uploads.length > 0) &&
+      !uploading &&
+      !failed &&
+      !sending &&
+      lockedFor <= 0;
+
+    const submit = async (e?: React.FormEvent) => {
+      e?.preventDefault();
+      if (!canSend) return;
+
+      const candidates = [...mentionCandidates, ...pickedMentionsRef.current.values()];
+      const encoded = encodeMentions(content.trim(), candidates);
+      const invalid = validateMessageContent(encoded);
+      if (invalid) {
+        setError(invalid);
+        return;
+      }
+
+      setError('');
+      setSending(true);
+      try {
+        await onSend(
+          encoded,
+          uploads.map((upload) => upload.uploaded!),
+          mentionsFor(encoded, candidates)
+        );
+        pickedMentionsRef.current.clear();
+        uploads.forEach((upload) => {
+          if (upload.previewUrl) URL.revokeObjectURL(upload.previewUrl);
+        });
+        setContent('');
+        setUploads([]);
+        onTyping?.(false);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Could not send message');
+      } finally {
+        setSending(false);
+        textareaRef.current?.focus();
+      }
+    };
+
+    const pickMention = (candidate: MentionCandidate) => {
+      const textarea = textareaRef.current;
+      if (!textarea || !mentionQuery) return;
+
+      const caret = textarea.selectionStart;
+      const inserted = `@${candidate.username} `;
+      setContent(content.slice(0, mentionQuery.start) + inserted + content.slice(caret));
+      setMentionQuery(null);
+      if (!isGroupMention(candidate.id)) {
+        pickedMentionsRef.current.set(candidate.id, candidate);
+      }
+
+      const position = mentionQuery.start + inserted.length;
+      requestAnimationFrame(() => {
+        textarea.focus();
+        textarea.setSelectionRange(position, position);
+      });
+    };
+
+    const showSuggestions = suggestions.length > 0;
+
+    return (
+      <form
+        onSubmit={submit}
+        onDragOver={(e) => {
+          if (e.dataTransfer.types.includes('Files')) e.preventDefault();
+        }}
+        onDrop={(e) => {
+          if (e.dataTransfer.files.length === 0) return;
+          e.preventDefault();
+          addFiles(Array.from(e.dataTransfer.files));
+        }}
+        className="p-4 border-t border-gray-200"
+      >
+        {header}
+        {error && <p className="mb-2 text-xs text-red-600">{error}</p>}
+        {lock && lockedFor > 0 && (
+          <p className="mb-2 text-xs text-amber-700">
+            {lock.reason} · {formatCountdown(lockedFor)}
+          </p>
+        )}
+        {uploads.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-2">
+            {uploads.map((upload) => (
+              <div
+                key={upload.id}
+                className={`relative w-40 p-2 border rounded-lg bg-gray-50 ${
+                  upload.error ? 'border-red-300' : 'border-gray-200'
+                }`}
+              >
+                <div className="flex items-center gap-2">
+                  {upload.previewUrl ? (
+                    <img
+                      src={upload.previewUrl}
+                      alt=""
+                      className="w-10 h-10 rounded object-cover flex-shrink-0"
+                    />
+                  ) : (
+                    <FileText className="w-10 h-10 text-blue-600 flex-shrink-0" />
+                  )}
+                  <div className="min-w-0">
+                    <p className="text-xs font-medium text-gray-800 truncate">
+                      {upload.file.name}
+                    </p>
+                    <p className={`text-[11px] ${upload.error ? 'text-red-600' : 'text-gray-500'}`}>
+                      {upload.error ?? formatBytes(upload.file.size)}
+                    </p>
+                  </div>
+                </div>
+                {!upload.uploaded && !upload.error && (
+                  <div className="mt-2 h-1 bg-gray-200 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-blue-600 transition-all"
+                      style={{ width: `${Math.round(upload.progress * 100)}%` }}
+                    />
+                  </div>
+                )}
+                <button
+                  type="button"
+                  onClick={() => removeUpload(upload)}
+                  title="Remove attachment"
+                  className="absolute -top-2 -right-2 p-0.5 bg-white border border-gray-200 rounded-full text-gray-500 hover:text-red-600 shadow-sm"
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex items-end gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              addFiles(Array.from(e.target.files ?? []));
+              e.target.value = '';
+            }}
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            title="Attach files"
+            className="p-3 text-gray-500 hover:bg-gray-100 rounded-xl transition"
+          >
+            <Paperclip className="w-5 h-5" />
+          </button>
+          <div className="relative flex-1 min-w-0 flex">
+            {showSuggestions && (
+              <MentionSuggestions
+                suggestions={suggestions}
+                activeIndex={activeSuggestion}
+                onPick={pickMention}
+                onHover={setActiveSuggestion}
+              />
+            )}
+            <textarea
+              ref={textareaRef}
+              value={content}
+              onChange={(e) => {
+                setContent(e.target.value);
+                onTyping?.(e.target.value.trim().length > 0);
+              }}
+              onSelect={(e) =>
+                setMentionQuery(
+                  findMentionQuery(e.currentTarget.value, e.currentTarget.selectionStart)
+                )
+              }
+              onBlur={() => setMentionQuery(null)}
+              onKeyDown={(e) => {
+                if (showSuggestions) {
+                  if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                    e.preventDefault();
+                    const step = e.key === 'ArrowDown' ? 1 : -1;
+                    setActiveSuggestion(
+                      (activeSuggestion + step + suggestions.length) % suggestions.length
+                    );
+                    return;
+                  }
+                  if (e.key === 'Enter' || e.key === 'Tab') {
+                    e.preventDefault();
+                    pickMention(suggestions[activeSuggestion]);
+                    return;
+                  }
+                  if (e.key === 'Escape') {
+                    e.preventDefault();
+                    setMentionQuery(null);
+                    return;
+                  }
+                }
+                if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+                  e.preventDefault();
+                  submit();
+                }
+              }}
+              onPaste={(e) => {
+                const files = Array.from(e.clipboardData.files);
+                if (files.length > 0) {
+                  e.preventDefault();
+                  addFiles(files);
+                }
+              }}
+              rows={1}
+              placeholder={placeholder}
+              className="flex-1 min-w-0 px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none resize-none leading-6"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={!canSend}
+            className="px-6 py-3 bg-blue-600 text-white rounded-xl hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Send className="w-5 h-5" />
+          </button>
+        </div>
+        {activity ? (
+          <p className="mt-1 text-[11px] font-medium text-gray-600 truncate">{activity}</p>
+        ) : (
+          <p className="mt-1 text-[11px] text-gray-400">
+            Shift+Enter for a new line · @ to mention · **bold** *italic* `code` ```code block``` &gt; quote ||spoiler||
+          </p>
+        )}
+      </form>
+    );
+  }
+);
@@ -0,0 +1,366 @@
+import { useState } from 'react';
+import { Pencil, Trash2, History, X, Reply, MessagesSquare, CornerUpLeft, AlertCircle } from 'lucide-react';
+import { supabase, Message, MessageReaction, MessageRevision } from '../lib/supabase';
+import { editMessage, deleteMessage, validateMessageContent } from '../lib/messages';
+import { addReaction, removeReaction, summarizeReactions, ReactionSummary } from '../lib/reactions';
+import { useAuth } from '../contexts/AuthContext';
+import { ReactionBar, ReactionPicker } from './ReactionBar';
+import { MarkdownContent } from './MarkdownContent';
+import { AttachmentList } from './AttachmentList';
+import { OutboxEntry } from '../lib/outbox';
+import { stripMarkdown } from '../lib/markdown';
+import { decodeMentions, encodeMentions, mentionNames, mentionsUser } from '../lib/mentions';
+
+interface MessageItemProps {
+  message: Message;
+  isOwn: boolean;
+  /** Owners and moderators can delete anyone's messages. */
+  canModerate?: boolean;
+  highlighted?: boolean;
+  reactions?: MessageReaction[];
+  onReply?: (message: Message) => void;
+  onOpenThread?: (message: Message) => void;
+  onJumpTo?: (messageId: string) => void;
+  /** Members whose read marker stops at this message. */
+  seenBy?: string[];
+  /** Set for optimistic messages that are still in the outbox. */
+  delivery?: Pick<OutboxEntry, 'state' | 'error'>;
+  onRetry?: () => void;
+  onDiscard?: () => void;
+}
+
+const formatTime = (timestamp: string) => {
+  const date = new Date(timestamp);
+  return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+};
+
+export function MessageItem({
+  message,
+  isOwn,
+  canModerate = false,
+  highlighted = false,
+  reactions,
+  onReply,
+  onOpenThread,
+  onJumpTo,
+  seenBy,
+  delivery,
+  onRetry,
+  onDiscard,
+}: MessageItemProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+  const [revisions, setRevisions] = useState<MessageRevision[] | null>(null);
+  const [error, setError] = useState('');
+  const { user } = useAuth();
+
+  const isDeleted = message.deleted_at !== null;
+  // Not on the server yet, so there's nothing to reply to, react to or edit.
+  const undelivered = delivery?.state === 'sending' || delivery?.state === 'failed';
+  const names = mentionNames(message);
+  const mentionsMe = !isOwn && !isDeleted && !!user && mentionsUser(message.content, user.id);
+
+  const startEditing = () => {
+    setDraft(decodeMentions(message.content, names));
+    setError('');
+    setIsEditing(true);
+  };
+
+  const saveEdit = async () => {
+    const content = encodeMentions(
+      draft.trim(),
+      Array.from(names, ([id, username]) => ({ id, username }))
+    );
+    if (!content && !message.message_attachments?.length) return;
+
+    if (content === message.content) {
+      setIsEditing(false);
+      return;
+    }
+
+    const invalid = validateMessageContent(content);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+
+    try {
+      await editMessage(message.id, content);
+      setIsEditing(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not edit message');
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!confirm('Delete this message? This cannot be undone.')) return;
+
+    try {
+      await deleteMessage(message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not delete message');
+    }
+  };
+
+  const react = async (emoji: string) => {
+    if (!user) return;
+
+    const own = reactions?.find((r) => r.emoji === emoji && r.user_id === user.id);
+    try {
+      if (own) {
+        await removeReaction(own.id);
+      } else {
+        await addReaction(message.room_id, message.id, user.id, emoji);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not update reaction');
+    }
+  };
+
+  const toggleReaction = (summary: ReactionSummary) => react(summary.emoji);
+
+  const toggleHistory = async () => {
+    if (revisions) {
+      setRevisions(null);
+      return;
+    }
+
+    const { data } = await supabase
+      .from('message_revisions')
+      .select('*')
+      .eq('message_id', message.id)
+      .order('created_at', { ascending: false });
+
+    setRevisions(data ?? []);
+  };
+
+  return (
+    <div
+      id={`message-${message.id}`}
+      className={`group flex gap-3 rounded-xl transition-colors duration-700 ${
+        isOwn ? 'flex-row-reverse' : ''
+      } ${highlighted ? 'bg-yellow-50' : mentionsMe ? 'bg-amber-50/70' : ''} ${
+        delivery?.state === 'sending' ? 'opacity-60' : ''
+      }`}
+    >
+      <div className="w-10 h-10 rounded-full bg-blue-600 flex items-center justify-center text-white font-bold flex-shrink-0">
+        {message.user_profiles?.username?.[0]?.toUpperCase() || 'U'}
+      </div>
+      <div className={`flex-1 ${isOwn ? 'text-right' : ''}`}>
+        <div className={`flex items-center gap-2 mb-1 ${isOwn ? 'justify-end' : ''}`}>
+          <span className="font-medium text-gray-800">
+            {message.user_profiles?.username || 'Unknown'}
+          </span>
+          <span className="text-xs text-gray-500">
+            {delivery?.state === 'sending' ? 'Sending…' : formatTime(message.created_at)}
+          </span>
+          {!isDeleted && !isEditing && !undelivered && (
+            <span className="flex items-center gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition">
+              {reactions && <ReactionPicker onPick={react} align={isOwn ? 'right' : 'left'} />}
+              {onReply && (
+                <button
+                  onClick={() => onReply(message)}
+                  title="Reply"
+                  className="p-1 text-gray-400 hover:text-gray-700 rounded"
+                >
+                  <Reply className="w-3.5 h-3.5" />
+                </button>
+              )}
+              {onOpenThread && (
+                <button
+                  onClick={() => onOpenThread(message)}
+                  title="Reply in thread"
+                  className="p-1 text-gray-400 hover:text-gray-700 rounded"
+                >
+                  <MessagesSquare className="w-3.5 h-3.5" />
+                </button>
+              )}
+              {isOwn && (
+                <button
+                  onClick={startEditing}
+                  title="Edit"
+                  className="p-1 text-gray-400 hover:text-gray-700 rounded"
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </button>
+              )}
+              {(isOwn || canModerate) && (
+                <button
+                  onClick={confirmDelete}
+                  title="Delete"
+                  className="p-1 text-gray-400 hover:text-red-600 rounded"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </span>
+          )}
+        </div>
+
+        {message.parent && (
+          <button
+            onClick={() => onJumpTo?.(message.parent!.id)}
+            className={`flex items-center gap-1.5 max-w-full mb-1 text-xs text-gray-500 hover:text-gray-800 ${
+              isOwn ? 'ml-auto' : ''
+            }`}
+          >
+            <CornerUpLeft className="w-3.5 h-3.5 flex-shrink-0" />
+            <span className="font-medium">
+              @{message.parent.user_profiles?.username || 'Unknown'}
+            </span>
+            <span className="truncate">
+              {message.parent.deleted_at
+                ? 'Original message was deleted'
+                : stripMarkdown(message.parent.content, mentionNames(message.parent))}
+            </span>
+          </button>
+        )}
+
+        {isDeleted ? (
+          <div className="inline-block px-4 py-2 rounded-2xl border border-dashed border-gray-300 text-gray-400 italic text-sm">
+            This message was deleted
+          </div>
+        ) : isEditing ? (
+          <div className="inline-flex flex-col gap-2 w-full max-w-lg text-left">
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  saveEdit();
+                } else if (e.key === 'Escape') {
+                  setIsEditing(false);
+                }
+              }}
+              autoFocus
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none resize-none"
+            />
+            <p className="text-xs text-gray-500">
+              escape to <button onClick={() => setIsEditing(false)} className="text-blue-600 hover:underline">cancel</button>
+              {' '}• enter to <button onClick={saveEdit} className="text-blue-600 hover:underline">save</button>
+            </p>
+          </div>
+        ) : (
+          message.content && (
+            <div
+              className={`inline-block max-w-full px-4 py-2 rounded-2xl text-left ${
+                isOwn ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-800'
+              }`}
+            >
+              <MarkdownContent
+                content={message.content}
+                inverted={isOwn}
+                mentionNames={names}
+                currentUserId={user?.id}
+              />
+            </div>
+          )
+        )}
+
+        {!isDeleted && message.message_attachments && (
+          <AttachmentList attachments={message.message_attachments} alignEnd={isOwn} />
+        )}
+
+        {delivery?.state === 'failed' && (
+          <div
+            className={`mt-1 flex items-center gap-2 text-xs text-red-600 ${isOwn ? 'justify-end' : ''}`}
+          >
+            <AlertCircle className="w-3.5 h-3.5 flex-shrink-0" />
+            <span>{delivery.error || 'Could not send message'}</span>
+            <button onClick={onRetry} className="font-medium hover:underline">
+              Retry
+            </button>
+            <button onClick={onDiscard} className="font-medium hover:underline">
+              Delete
+            </button>
+          </div>
+        )}
+
+        {reactions && !isDeleted && (
+          <ReactionBar
+            summaries={summarizeReactions(reactions, user?.id)}
+            onToggle={toggleReaction}
+            className={isOwn ? 'justify-end' : ''}
+          />
+        )}
+
+        {message.edited_at && !isDeleted && !isEditing && (
+          <div className={`mt-1 ${isOwn ? 'text-right' : ''}`}>
+            <button
+              onClick={toggleHistory}
+              title={`Edited ${new Date(message.edited_at).toLocaleString()}`}
+              className="text-xs text-gray-400 hover:text-gray-600"
+            >
+              (edited)
+            </button>
+          </div>
+        )}
+
+        {onOpenThread && message.reply_count > 0 && (
+          <div className={`mt-1 ${isOwn ? 'text-right' : ''}`}>
+            <button
+              onClick={() => onOpenThread(message)}
+              className="inline-flex items-center gap-1 text-xs font-medium text-blue-600 hover:underline"
+            >
+              <MessagesSquare className="w-3.5 h-3.5" />
+              {message.reply_count} {message.reply_count === 1 ? 'reply' : 'replies'}
+            </button>
+          </div>
+        )}
+
+        {revisions && (
+          <div className="mt-2 inline-block w-full max-w-lg text-left bg-gray-50 border border-gray-200 rounded-xl p-3">
+            <div className="flex items-center justify-between mb-2">
+              <span className="flex items-center gap-1 text-xs font-medium text-gray-600">
+                <History className="w-3.5 h-3.5" />
+                Edit history
+              </span>
+              <button onClick={() => setRevisions(null)} className="text-gray-400 hover:text-gray-600">
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </div>
+            {revisions.length === 0 ? (
+              <p className="text-xs text-gray-400">No earlier versions.</p>
+            ) : (
+              <ul className="space-y-2">
+                {revisions.map((revision) => (
+                  <li key={revision.id} className="text-sm">
+                    <span className="block text-xs text-gray-400">
+                      Replaced {new Date(revision.created_at).toLocaleString()}
+                    </span>
+                    <div className="text-gray-700">
+                      <MarkdownContent content={revision.content} mentionNames={names} />
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {seenBy && seenBy.length > 0 && (
+          <div
+            title={`Seen by ${seenBy.join(', ')}`}
+            className={`mt-1 flex items-center gap-1 ${isOwn ? 'justify-end' : ''}`}
+          >
+            <div className="flex -space-x-1.5">
+              {seenBy.slice(0, 5).map((username) => (
+                <div
+                  key={username}
+                  className="w-4 h-4 rounded-full bg-slate-400 ring-2 ring-white flex items-center justify-center text-white text-[8px] font-bold"
+                >
+                  {username[0]?.toUpperCase() || 'U'}
+                </div>
+              ))}
+            </div>
+            {seenBy.length > 5 && <span className="text-[10px] text-gray-400">+{seenBy.length - 5}</span>}
+          </div>
+        )}
+
+        {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+      </div>
+    </div>
+  );
+}
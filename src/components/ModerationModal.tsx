@@ -0,0 +1,108 @@
+import { useEffect, useState } from 'react';
+import { Undo2 } from 'lucide-react';
+import { ModerationLogEntry, RoomBan } from '../lib/supabase';
+import { describeLogEntry, loadBans, loadModerationLog, unbanMember } from '../lib/moderation';
+
+interface ModerationModalProps {
+  roomId: string;
+  roomName: string;
+  onClose: () => void;
+}
+
+type Tab = 'bans' | 'log';
+
+export function ModerationModal({ roomId, roomName, onClose }: ModerationModalProps) {
+  const [tab, setTab] = useState<Tab>('bans');
+  const [bans, setBans] = useState<RoomBan[]>([]);
+  const [log, setLog] = useState<ModerationLogEntry[]>([]);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const load = tab === 'bans' ? loadBans(roomId).then(setBans) : loadModerationLog(roomId).then(setLog);
+    load.catch((err) => console.error('Error loading moderation data:', err));
+  }, [roomId, tab]);
+
+  const unban = async (ban: RoomBan) => {
+    if (!confirm(`Unban ${ban.user_profiles?.username || 'this user'}?`)) return;
+
+    setError('');
+    try {
+      await unbanMember(roomId, ban.user_id);
+      setBans((prev) => prev.filter((b) => b.user_id !== ban.user_id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not unban user');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl p-6 w-full max-w-lg">
+        <h3 className="text-xl font-bold mb-4">Moderation for #{roomName}</h3>
+        <div className="flex gap-1 mb-4 p-1 bg-gray-100 rounded-lg">
+          {(['bans', 'log'] as Tab[]).map((value) => (
+            <button
+              key={value}
+              onClick={() => setTab(value)}
+              className={`flex-1 px-3 py-1.5 rounded-md text-sm font-medium transition ${
+                tab === value ? 'bg-white shadow text-gray-800' : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {value === 'bans' ? 'Bans' : 'Audit log'}
+            </button>
+          ))}
+        </div>
+        {error && <p className="mb-3 text-sm text-red-600">{error}</p>}
+
+        {tab === 'bans' ? (
+          <ul className="max-h-80 overflow-y-auto divide-y divide-gray-100 mb-4">
+            {bans.map((ban) => (
+              <li key={ban.user_id} className="flex items-center gap-3 py-2">
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium text-gray-800">
+                    {ban.user_profiles?.username || 'Unknown'}
+                  </p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {new Date(ban.created_at).toLocaleString()}
+                    {ban.reason && ` · ${ban.reason}`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => unban(ban)}
+                  title="Unban"
+                  className="p-2 text-gray-500 hover:bg-gray-100 hover:text-blue-600 rounded-lg transition"
+                >
+                  <Undo2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+            {bans.length === 0 && (
+              <li className="py-6 text-center text-sm text-gray-400">Nobody is banned</li>
+            )}
+          </ul>
+        ) : (
+          <ul className="max-h-80 overflow-y-auto divide-y divide-gray-100 mb-4">
+            {log.map((entry) => (
+              <li key={entry.id} className="py-2">
+                <p className="text-sm text-gray-800">{describeLogEntry(entry)}</p>
+                <p className="text-xs text-gray-500 truncate">
+                  {new Date(entry.created_at).toLocaleString()}
+                  {entry.reason && ` · ${entry.reason}`}
+                </p>
+              </li>
+            ))}
+            {log.length === 0 && (
+              <li className="py-6 text-center text-sm text-gray-400">No moderation actions yet</li>
+            )}
+          </ul>
+        )}
+
+        <button
+          onClick={onClose}
+          className="w-full px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition"
+        >
+          Done
+        </button>
+      </div>
+    </div>
+  );
+}
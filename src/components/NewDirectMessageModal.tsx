@@ -0,0 +1,167 @@
+import { useEffect, useState } from 'react';
+import { Check, X } from 'lucide-react';
+import { Room, UserProfile, UserStatus } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { MAX_GROUP_DM_MEMBERS, openDirectMessage, searchUsers } from '../lib/directMessages';
+import { USER_STATUSES } from '../lib/presence';
+
+interface NewDirectMessageModalProps {
+  /** Who has the app open right now, from `useOnlineUsers`. */
+  onlineUsers: Map<string, UserStatus>;
+  onClose: () => void;
+  onOpened: (room: Room) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+export function NewDirectMessageModal({
+  onlineUsers,
+  onClose,
+  onOpened,
+}: NewDirectMessageModalProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<UserProfile[]>([]);
+  const [selected, setSelected] = useState<UserProfile[]>([]);
+  const [opening, setOpening] = useState(false);
+  const [error, setError] = useState('');
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const users = await searchUsers(query, [user.id]);
+        if (!cancelled) setResults(users);
+      } catch (err) {
+        console.error('Error searching users:', err);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query, user]);
+
+  const isSelected = (profile: UserProfile) => selected.some((p) => p.id === profile.id);
+  const isFull = selected.length >= MAX_GROUP_DM_MEMBERS - 1;
+
+  const toggle = (profile: UserProfile) => {
+    if (isSelected(profile)) {
+      setSelected(selected.filter((p) => p.id !== profile.id));
+    } else if (!isFull) {
+      setSelected([...selected, profile]);
+    }
+  };
+
+  const start = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (selected.length === 0 || opening) return;
+
+    setError('');
+    setOpening(true);
+    try {
+      const room = await openDirectMessage(selected.map((p) => p.id));
+      onOpened(room);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not start conversation');
+    } finally {
+      setOpening(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl p-6 w-full max-w-md">
+        <h3 className="text-xl font-bold mb-1">New Message</h3>
+        <p className="text-sm text-gray-500 mb-4">
+          Pick one person for a direct message, or up to {MAX_GROUP_DM_MEMBERS - 1} for a group.
+        </p>
+        <form onSubmit={start}>
+          {selected.length > 0 && (
+            <div className="flex flex-wrap gap-1.5 mb-2">
+              {selected.map((profile) => (
+                <span
+                  key={profile.id}
+                  className="flex items-center gap-1 pl-2 pr-1 py-0.5 bg-blue-50 text-blue-700 rounded-full text-sm"
+                >
+                  {profile.username}
+                  <button
+                    type="button"
+                    onClick={() => toggle(profile)}
+                    className="p-0.5 hover:text-blue-900"
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search by username"
+            autoFocus
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+          />
+          <ul className="mt-2 mb-4 h-56 overflow-y-auto">
+            {results.map((profile) => {
+              const checked = isSelected(profile);
+              const status = onlineUsers.get(profile.id);
+
+              return (
+                <li key={profile.id}>
+                  <button
+                    type="button"
+                    onClick={() => toggle(profile)}
+                    disabled={!checked && isFull}
+                    className="w-full flex items-center gap-3 px-2 py-2 rounded-lg hover:bg-gray-50 transition disabled:opacity-50 text-left"
+                  >
+                    <div className="relative flex-shrink-0">
+                      <div className="w-8 h-8 rounded-full bg-blue-600 flex items-center justify-center text-white text-sm font-bold">
+                        {profile.username[0]?.toUpperCase() || 'U'}
+                      </div>
+                      {status && (
+                        <span
+                          className={`absolute -bottom-0.5 -right-0.5 w-3 h-3 rounded-full ring-2 ring-white ${USER_STATUSES[status].dotClass}`}
+                        />
+                      )}
+                    </div>
+                    <span className="flex-1 truncate font-medium text-gray-800">
+                      {profile.username}
+                    </span>
+                    {checked && <Check className="w-4 h-4 text-blue-600" />}
+                  </button>
+                </li>
+              );
+            })}
+            {query.trim() && results.length === 0 && (
+              <li className="px-2 py-6 text-center text-sm text-gray-400">No users found</li>
+            )}
+          </ul>
+          {error && <p className="mb-3 text-sm text-red-600">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={selected.length === 0 || opening}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {selected.length > 1 ? 'Start Group' : 'Start'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import { useEffect, useRef, useState } from 'react';
+import { AtSign, Bell, BellRing, CheckCheck, MessageSquare, Reply, X } from 'lucide-react';
+import { NotificationKind } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useNotifications } from '../hooks/useNotifications';
+import { describeNotification, NotificationGroup, notificationPreview } from '../lib/notifications';
+import { formatUnreadCount } from '../lib/unread';
+
+const KIND_ICONS: Record<NotificationKind, typeof Bell> = {
+  mention: AtSign,
+  reply: Reply,
+  direct_message: MessageSquare,
+};
+
+/** Sidebar bell with the unread count that opens the notification inbox. */
+export function NotificationCenter() {
+  const [open, setOpen] = useState(false);
+  const [error, setError] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { user } = useAuth();
+  const {
+    groups,
+    unreadCount,
+    desktopPermission,
+    requestDesktopPermission,
+    markRead,
+    markAllRead,
+    dismiss,
+    open: openNotification,
+  } = useNotifications();
+
+  useEffect(() => {
+    if (!open) return;
+
+    const close = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [open]);
+
+  const run = async (action: () => Promise<void>) => {
+    setError('');
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not update notifications');
+    }
+  };
+
+  const select = (group: NotificationGroup) => {
+    setOpen(false);
+    openNotification(group);
+    run(() => markRead(group));
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        title="Notifications"
+        className="relative p-2 hover:bg-slate-700 rounded-lg transition text-white"
+      >
+        <Bell className="w-5 h-5" />
+        {unreadCount > 0 && (
+          <span className="absolute top-0.5 right-0.5 px-1 min-w-[1rem] h-4 flex items-center justify-center rounded-full bg-red-500 text-white text-[10px] font-bold">
+            {formatUnreadCount(unreadCount)}
+          </span>
+        )}
+      </button>
+      {open && (
+        <div className="absolute left-0 mt-2 w-96 bg-white border border-gray-200 rounded-xl shadow-lg z-40">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200">
+            <h3 className="font-semibold text-gray-800">Notifications</h3>
+            <button
+              onClick={() => run(markAllRead)}
+              disabled={unreadCount === 0}
+              className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 disabled:text-gray-400"
+            >
+              <CheckCheck className="w-4 h-4" />
+              Mark all read
+            </button>
+          </div>
+          {desktopPermission === 'default' && (
+            <button
+              onClick={() => run(requestDesktopPermission)}
+              className="w-full flex items-center gap-2 px-4 py-2 bg-blue-50 text-sm text-blue-700 hover:bg-blue-100 transition"
+            >
+              <BellRing className="w-4 h-4" />
+              Enable desktop notifications
+            </button>
+          )}
+          {desktopPermission === 'denied' && (
+            <p className="px-4 py-2 bg-gray-50 text-xs text-gray-500">
+              Desktop notifications are blocked in your browser settings
+            </p>
+          )}
+          {error && <p className="px-4 pt-2 text-xs text-red-600">{error}</p>}
+          <ul className="max-h-96 overflow-y-auto py-1">
+            {groups.map((group) => {
+              const { notification } = group;
+              const Icon = KIND_ICONS[notification.kind];
+
+              return (
+                <li key={notification.message_id} className="group relative">
+                  <button
+                    onClick={() => select(group)}
+                    className={`w-full flex items-start gap-3 px-4 py-2.5 pr-10 text-left hover:bg-gray-50 transition ${
+                      group.unread ? 'bg-blue-50/50' : ''
+                    }`}
+                  >
+                    <div className="w-8 h-8 rounded-full bg-blue-600 flex items-center justify-center text-white flex-shrink-0">
+                      <Icon className="w-4 h-4" />
+                    </div>
+                    <div className="min-w-0 flex-1">
+                      <p className={`text-sm text-gray-800 ${group.unread ? 'font-semibold' : ''}`}>
+                        {describeNotification(notification, user?.id)}
+                      </p>
+                      <p className="text-sm text-gray-600 line-clamp-2 break-words">
+                        {notificationPreview(notification)}
+                      </p>
+                      <p className="mt-0.5 text-xs text-gray-400">
+                        {new Date(notification.created_at).toLocaleString()}
+                      </p>
+                    </div>
+                    {group.unread && (
+                      <span className="mt-1.5 w-2 h-2 rounded-full bg-blue-600 flex-shrink-0" />
+                    )}
+                  </button>
+                  <button
+                    onClick={() => run(() => dismiss(group))}
+                    title="Dismiss"
+                    className="absolute top-2 right-2 p-1 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded opacity-0 group-hover:opacity-100 transition"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </li>
+              );
+            })}
+            {groups.length === 0 && (
+              <li className="px-4 py-8 text-center text-sm text-gray-500">You're all caught up</li>
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { useEffect, useRef, useState } from 'react';
+import { Bell, BellOff, BellRing, Check } from 'lucide-react';
+import { NotificationLevel, Room } from '../lib/supabase';
+import { useNotifications } from '../hooks/useNotifications';
+import { defaultNotificationLevel, NOTIFICATION_LEVELS } from '../lib/notifications';
+
+const LEVEL_ICONS: Record<NotificationLevel, typeof Bell> = {
+  all: BellRing,
+  mentions: Bell,
+  muted: BellOff,
+};
+
+interface NotificationLevelMenuProps {
+  room: Room;
+}
+
+/** Header button for choosing how much of a room triggers notifications. */
+export function NotificationLevelMenu({ room }: NotificationLevelMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [error, setError] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { levelFor, setLevel } = useNotifications();
+  const current = levelFor(room);
+  const Icon = LEVEL_ICONS[current];
+
+  useEffect(() => {
+    if (!open) return;
+
+    const close = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [open]);
+
+  const choose = async (level: NotificationLevel) => {
+    setError('');
+    try {
+      await setLevel(room.id, level);
+      setOpen(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not update notifications');
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        title={`Notifications: ${NOTIFICATION_LEVELS[current].label}`}
+        className={`p-2 hover:bg-gray-100 rounded-lg transition ${
+          current === 'muted' ? 'text-red-500' : 'text-gray-600'
+        }`}
+      >
+        <Icon className="w-5 h-5" />
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-64 bg-white border border-gray-200 rounded-xl shadow-lg py-2 z-30">
+          <p className="px-4 pb-2 text-xs font-semibold uppercase tracking-wide text-gray-400">
+            Notify me about
+          </p>
+          {(Object.keys(NOTIFICATION_LEVELS) as NotificationLevel[]).map((level) => (
+            <button
+              key={level}
+              onClick={() => choose(level)}
+              className="w-full flex items-start gap-3 px-4 py-2 text-left hover:bg-gray-50 transition"
+            >
+              <span className="min-w-0 flex-1">
+                <span className="block text-sm font-medium text-gray-800">
+                  {NOTIFICATION_LEVELS[level].label}
+                  {level === defaultNotificationLevel(room) && (
+                    <span className="ml-1 font-normal text-gray-400">(default)</span>
+                  )}
+                </span>
+                <span className="block text-xs text-gray-500">
+                  {NOTIFICATION_LEVELS[level].description}
+                </span>
+              </span>
+              {level === current && <Check className="w-4 h-4 mt-0.5 text-blue-600 flex-shrink-0" />}
+            </button>
+          ))}
+          {error && <p className="px-4 pt-2 text-xs text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
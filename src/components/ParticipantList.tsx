@@ -0,0 +1,187 @@
+import { useEffect, useRef, useState } from 'react';
+import { Clock, Gavel, MessageSquare, Shield, ShieldOff, Users } from 'lucide-react';
+import { RoomParticipant, RoomRole } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { PresenceEntry, USER_STATUSES } from '../lib/presence';
+import { outranks, ROOM_ROLES } from '../lib/rooms';
+import { isTimedOut } from '../lib/moderation';
+import { MemberModerationMenu } from './MemberModerationMenu';
+
+interface ParticipantListProps {
+  roomId: string;
+  participants: PresenceEntry[];
+  members: RoomParticipant[];
+  currentRole: RoomRole | null;
+  onMessage: (userId: string) => void;
+  onChangeRole: (userId: string, role: Exclude<RoomRole, 'owner'>) => void;
+  /** Members talking in the room's call right now. */
+  speakingUserIds: Set<string>;
+}
+
+const ROLE_ORDER: RoomRole[] = ['owner', 'moderator', 'member'];
+
+/**
+ * Header button with the room's online count that opens the member list.
+ * Members currently in the room (per Realtime Presence) are listed first.
+ */
+export function ParticipantList({
+  roomId,
+  participants,
+  members,
+  currentRole,
+  onMessage,
+  onChangeRole,
+  speakingUserIds,
+}: ParticipantListProps) {
+  const [open, setOpen] = useState(false);
+  const [moderatingId, setModeratingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!open) return;
+
+    const close = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [open]);
+
+  const presence = new Map(participants.map((p) => [p.user_id, p]));
+  const sorted = [...members].sort((a, b) => {
+    const online = Number(presence.has(b.user_id)) - Number(presence.has(a.user_id));
+    if (online !== 0) return online;
+    const role = ROLE_ORDER.indexOf(a.role) - ROLE_ORDER.indexOf(b.role);
+    if (role !== 0) return role;
+    return (a.user_profiles?.username ?? '').localeCompare(b.user_profiles?.username ?? '');
+  });
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        title="Members"
+        className="flex items-center gap-2 px-2 py-1 text-gray-600 hover:bg-gray-100 rounded-lg transition"
+      >
+        <Users className="w-5 h-5" />
+        <span className="font-medium">{participants.length}</span>
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 bg-white border border-gray-200 rounded-xl shadow-lg py-2 z-30">
+          <p className="px-4 pb-2 text-xs font-semibold uppercase tracking-wide text-gray-400">
+            Members — {members.length} · {participants.length} online
+          </p>
+          {error && <p className="px-4 pb-2 text-xs text-red-600">{error}</p>}
+          <ul className="max-h-80 overflow-y-auto">
+            {sorted.map((member) => {
+              const isSelf = member.user_id === user?.id;
+              const entry = presence.get(member.user_id);
+              const username = member.user_profiles?.username || entry?.username || 'Unknown';
+              const canChangeRole = currentRole === 'owner' && member.role !== 'owner';
+              const timedOut = isTimedOut(member.timed_out_until);
+
+              return (
+                <li key={member.user_id}>
+                  <div
+                    className={`group flex items-center gap-3 px-4 py-1.5 hover:bg-gray-50 ${
+                      entry ? '' : 'opacity-60'
+                    }`}
+                  >
+                    <div className="relative flex-shrink-0">
+                      <div
+                        className={`w-8 h-8 rounded-full bg-blue-600 flex items-center justify-center text-white text-sm font-bold ${
+                          speakingUserIds.has(member.user_id) ? 'ring-2 ring-green-500 ring-offset-1' : ''
+                        }`}
+                      >
+                        {username[0]?.toUpperCase() || 'U'}
+                      </div>
+                      {entry && (
+                        <span
+                          className={`absolute -bottom-0.5 -right-0.5 w-3 h-3 rounded-full ring-2 ring-white ${USER_STATUSES[entry.status].dotClass}`}
+                        />
+                      )}
+                    </div>
+                    <span className="flex-1 min-w-0 truncate text-sm font-medium text-gray-800">
+                      {username}
+                      {isSelf && <span className="ml-1 text-gray-400 font-normal">(you)</span>}
+                    </span>
+                    {timedOut && (
+                      <span
+                        title={`Timed out until ${new Date(member.timed_out_until!).toLocaleString()}`}
+                      >
+                        <Clock className="w-4 h-4 text-amber-500" />
+                      </span>
+                    )}
+                    {member.role !== 'member' && (
+                      <span
+                        className={`px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase ${ROOM_ROLES[member.role].badgeClass}`}
+                      >
+                        {ROOM_ROLES[member.role].label}
+                      </span>
+                    )}
+                    {canChangeRole && (
+                      <button
+                        onClick={() =>
+                          onChangeRole(
+                            member.user_id,
+                            member.role === 'moderator' ? 'member' : 'moderator'
+                          )
+                        }
+                        title={member.role === 'moderator' ? 'Remove moderator' : 'Make moderator'}
+                        className="p-1 text-gray-400 hover:text-blue-600 opacity-0 group-hover:opacity-100 transition"
+                      >
+                        {member.role === 'moderator' ? (
+                          <ShieldOff className="w-4 h-4" />
+                        ) : (
+                          <Shield className="w-4 h-4" />
+                        )}
+                      </button>
+                    )}
+                    {!isSelf && (
+                      <button
+                        onClick={() => {
+                          setOpen(false);
+                          onMessage(member.user_id);
+                        }}
+                        title={`Message ${username}`}
+                        className="p-1 text-gray-400 hover:text-blue-600 opacity-0 group-hover:opacity-100 transition"
+                      >
+                        <MessageSquare className="w-4 h-4" />
+                      </button>
+                    )}
+                    {outranks(currentRole, member.role) && (
+                      <button
+                        onClick={() =>
+                          setModeratingId(moderatingId === member.user_id ? null : member.user_id)
+                        }
+                        title="Moderate"
+                        className={`p-1 text-gray-400 hover:text-red-600 transition ${
+                          moderatingId === member.user_id ? '' : 'opacity-0 group-hover:opacity-100'
+                        }`}
+                      >
+                        <Gavel className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                  {moderatingId === member.user_id && (
+                    <MemberModerationMenu
+                      roomId={roomId}
+                      member={member}
+                      onDone={() => {
+                        setModeratingId(null);
+                        setError('');
+                      }}
+                      onError={setError}
+                    />
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
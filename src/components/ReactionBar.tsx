@@ -0,0 +1,98 @@
+import { useEffect, useRef, useState } from 'react';
+import { SmilePlus } from 'lucide-react';
+import { QUICK_REACTIONS, ReactionSummary } from '../lib/reactions';
+
+interface ReactionPickerProps {
+  onPick: (emoji: string) => void;
+  align?: 'left' | 'right';
+}
+
+export function ReactionPicker({ onPick, align = 'left' }: ReactionPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  return (
+    <div ref={containerRef} className="relative inline-flex">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        title="Add reaction"
+        className="p-1 text-gray-400 hover:text-gray-700 rounded"
+      >
+        <SmilePlus className="w-3.5 h-3.5" />
+      </button>
+      {isOpen && (
+        <div
+          className={`absolute top-full mt-1 z-30 grid grid-cols-6 gap-1 p-2 bg-white border border-gray-200 rounded-xl shadow-lg ${
+            align === 'right' ? 'right-0' : 'left-0'
+          }`}
+        >
+          {QUICK_REACTIONS.map((emoji) => (
+            <button
+              key={emoji}
+              type="button"
+              onClick={() => {
+                onPick(emoji);
+                setIsOpen(false);
+              }}
+              className="w-8 h-8 flex items-center justify-center text-lg rounded-lg hover:bg-gray-100 transition"
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ReactionBarProps {
+  summaries: ReactionSummary[];
+  onToggle: (summary: ReactionSummary) => void;
+  className?: string;
+}
+
+const describeReactors = (summary: ReactionSummary) => {
+  const names = summary.usernames;
+  const shown = names.slice(0, 5).join(', ');
+  const rest = names.length - 5;
+  return `${rest > 0 ? `${shown} and ${rest} more` : shown} reacted with ${summary.emoji}`;
+};
+
+export function ReactionBar({ summaries, onToggle, className = '' }: ReactionBarProps) {
+  if (summaries.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-1 mt-1 ${className}`}>
+      {summaries.map((summary) => (
+        <button
+          key={summary.emoji}
+          type="button"
+          onClick={() => onToggle(summary)}
+          title={describeReactors(summary)}
+          className={`flex items-center gap-1 px-2 py-0.5 rounded-full border text-sm transition ${
+            summary.ownReaction
+              ? 'bg-blue-50 border-blue-300 text-blue-700'
+              : 'bg-gray-50 border-gray-200 text-gray-700 hover:border-gray-300'
+          }`}
+        >
+          <span>{summary.emoji}</span>
+          <span className="text-xs font-medium">{summary.count}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
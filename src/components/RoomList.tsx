@@ -1,44 +1,151 @@
-import { useState, useEffect } from 'react';
-import { supabase, Room } from '../lib/supabase';
+import { useState, useEffect, useRef } from 'react';
+import { supabase, Room, UserStatus } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
-import { Plus, Hash, LogOut } from 'lucide-react';
+import { Plus, Hash, Lock, LogOut, Volume2, MicOff, Headphones, Video, Monitor, ChevronDown, ChevronRight, Users, Ticket, Archive, BellOff, Search } from 'lucide-react';
+import { useVoiceStates } from '../hooks/useVoiceStates';
+import { useDirectMessages } from '../hooks/useDirectMessages';
+import { useOnlineUsers } from '../hooks/useOnlineUsers';
+import { useUnreadCounts } from '../hooks/useUnreadCounts';
+import { useNotifications } from '../hooks/useNotifications';
+import { USER_STATUSES } from '../lib/presence';
+import { directMessageMembers, roomDisplayName } from '../lib/directMessages';
+import { createRoom as insertRoom, parseInviteCode, redeemInvite } from '../lib/rooms';
+import { formatUnreadCount } from '../lib/unread';
+import { NewDirectMessageModal } from './NewDirectMessageModal';
+import { NotificationCenter } from './NotificationCenter';
+import { SearchModal } from './SearchModal';
 
 interface RoomListProps {
   selectedRoom: Room | null;
-  onSelectRoom: (room: Room) => void;
+  onSelectRoom: (room: Room | null) => void;
+  onOpenMessage: (room: Room, messageId: string, threadId: string | null) => void;
 }
 
-export function RoomList({ selectedRoom, onSelectRoom }: RoomListProps) {
+export function RoomList({ selectedRoom, onSelectRoom, onOpenMessage }: RoomListProps) {
   const [rooms, setRooms] = useState<Room[]>([]);
+  const [archivedRooms, setArchivedRooms] = useState<Room[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [newRoomName, setNewRoomName] = useState('');
   const [newRoomDesc, setNewRoomDesc] = useState('');
-  const { profile, signOut } = useAuth();
+  const [newRoomPrivate, setNewRoomPrivate] = useState(false);
+  const [createError, setCreateError] = useState('');
+  const [showJoinModal, setShowJoinModal] = useState(false);
+  const [inviteInput, setInviteInput] = useState('');
+  const [joinError, setJoinError] = useState('');
+  const [showStatusMenu, setShowStatusMenu] = useState(false);
+  const [showNewDirectMessage, setShowNewDirectMessage] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
+  const { user, profile, signOut, setStatus, setShareReadReceipts } = useAuth();
+  const voiceStates = useVoiceStates();
+  const conversations = useDirectMessages();
+  const onlineUsers = useOnlineUsers();
+  const unreadCounts = useUnreadCounts();
+  const { levelFor } = useNotifications();
+  const selectedRoomRef = useRef(selectedRoom);
+  selectedRoomRef.current = selectedRoom;
 
   useEffect(() => {
+    if (!user) return;
+
     loadRooms();
 
     const channel = supabase
       .channel('rooms_channel')
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'rooms' }, () => {
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'rooms' }, (payload) => {
         loadRooms();
+
+        // Keep the open room in step with renames, archiving and deletion.
+        const current = selectedRoomRef.current;
+        if (payload.eventType === 'UPDATE' && payload.new.id === current?.id) {
+          onSelectRoom({ ...current, ...(payload.new as Room) });
+        } else if (payload.eventType === 'DELETE' && payload.old.id === current?.id) {
+          onSelectRoom(null);
+        }
       })
+      // Private rooms only become visible once we're added as a member.
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'room_participants',
+          filter: `user_id=eq.${user.id}`,
+        },
+        () => {
+          loadRooms();
+        }
+      )
       .subscribe();
 
     return () => {
       supabase.removeChannel(channel);
     };
-  }, []);
+  }, [user, onSelectRoom]);
 
   const loadRooms = async () => {
     const { data } = await supabase
       .from('rooms')
       .select('*')
-      .eq('is_active', true)
+      .eq('kind', 'public')
       .order('created_at', { ascending: false });
 
     if (data) {
-      setRooms(data);
+      setRooms(data.filter((room) => room.is_active));
+      setArchivedRooms(data.filter((room) => !room.is_active));
+    }
+  };
+
+  const currentStatus = profile?.status ?? 'online';
+
+  // The open room is read as messages arrive, so its badges would only flicker.
+  // Muted rooms never draw attention to themselves.
+  const unreadFor = (room: Room) =>
+    selectedRoom?.id === room.id || levelFor(room) === 'muted'
+      ? undefined
+      : unreadCounts.get(room.id);
+
+  const renderUnreadBadges = (room: Room) => {
+    if (levelFor(room) === 'muted') {
+      return <BellOff className="w-3.5 h-3.5 text-slate-500" />;
+    }
+
+    const unread = unreadFor(room);
+    if (!unread) return null;
+
+    return (
+      <>
+        {unread.mention_count > 0 && (
+          <span
+            title={`${unread.mention_count} unread mention${unread.mention_count === 1 ? '' : 's'}`}
+            className="px-1.5 min-w-[1.25rem] h-5 flex items-center justify-center rounded-full bg-red-500 text-white text-xs font-bold"
+          >
+            @{formatUnreadCount(unread.mention_count)}
+          </span>
+        )}
+        {unread.unread_count > 0 && (
+          <span className="px-1.5 min-w-[1.25rem] h-5 flex items-center justify-center rounded-full bg-slate-600 text-white text-xs font-semibold">
+            {formatUnreadCount(unread.unread_count)}
+          </span>
+        )}
+      </>
+    );
+  };
+
+  const toggleReadReceipts = async () => {
+    try {
+      await setShareReadReceipts(!profile?.share_read_receipts);
+    } catch (error) {
+      console.error('Error updating read receipts:', error);
+    }
+  };
+
+  const changeStatus = async (status: UserStatus) => {
+    setShowStatusMenu(false);
+    try {
+      await setStatus(status);
+    } catch (error) {
+      console.error('Error updating status:', error);
     }
   };
 
@@ -46,21 +153,38 @@ export function RoomList({ selectedRoom, onSelectRoom }: RoomListProps) {
     e.preventDefault();
     if (!newRoomName.trim()) return;
 
-    const { data, error } = await supabase
-      .from('rooms')
-      .insert({
+    setCreateError('');
+    try {
+      const room = await insertRoom({
         name: newRoomName,
         description: newRoomDesc,
-        created_by: profile?.id,
-      })
-      .select()
-      .single();
-
-    if (data && !error) {
+        isPrivate: newRoomPrivate,
+      });
       setNewRoomName('');
       setNewRoomDesc('');
+      setNewRoomPrivate(false);
       setShowCreateModal(false);
-      onSelectRoom(data);
+      loadRooms();
+      onSelectRoom(room);
+    } catch (error) {
+      setCreateError(error instanceof Error ? error.message : 'Could not create room');
+    }
+  };
+
+  const joinWithInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = parseInviteCode(inviteInput);
+    if (!code) return;
+
+    setJoinError('');
+    try {
+      const room = await redeemInvite(code);
+      setInviteInput('');
+      setShowJoinModal(false);
+      loadRooms();
+      onSelectRoom(room);
+    } catch (error) {
+      setJoinError(error instanceof Error ? error.message : 'Could not join room');
     }
   };
 
@@ -69,34 +193,220 @@ export function RoomList({ selectedRoom, onSelectRoom }: RoomListProps) {
       <div className="p-4 border-b border-slate-700">
         <div className="flex items-center justify-between mb-4">
           <h2 className="font-bold text-white text-lg">Rooms</h2>
+          <div className="flex items-center">
+            <button
+              onClick={() => setShowSearch(true)}
+              title="Search messages"
+              className="p-2 hover:bg-slate-700 rounded-lg transition text-white"
+            >
+              <Search className="w-5 h-5" />
+            </button>
+            <NotificationCenter />
+            <button
+              onClick={() => setShowJoinModal(true)}
+              title="Join with invite"
+              className="p-2 hover:bg-slate-700 rounded-lg transition text-white"
+            >
+              <Ticket className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setShowCreateModal(true)}
+              title="Create room"
+              className="p-2 hover:bg-slate-700 rounded-lg transition text-white"
+            >
+              <Plus className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+        <div className="relative">
           <button
-            onClick={() => setShowCreateModal(true)}
-            className="p-2 hover:bg-slate-700 rounded-lg transition text-white"
+            onClick={() => setShowStatusMenu(!showStatusMenu)}
+            className="w-full flex items-center gap-3 bg-slate-900 rounded-lg p-3 text-left hover:bg-slate-950 transition"
           >
-            <Plus className="w-5 h-5" />
+            <div className="relative flex-shrink-0">
+              <div className="w-9 h-9 rounded-full bg-blue-600 flex items-center justify-center text-white font-bold">
+                {profile?.username?.[0]?.toUpperCase() || 'U'}
+              </div>
+              <span
+                className={`absolute -bottom-0.5 -right-0.5 w-3.5 h-3.5 rounded-full ring-2 ring-slate-900 ${USER_STATUSES[currentStatus].dotClass}`}
+              />
+            </div>
+            <div className="min-w-0 flex-1">
+              <p className="text-white font-medium text-sm truncate">{profile?.username}</p>
+              <p className="text-slate-400 text-xs mt-1">{USER_STATUSES[currentStatus].label}</p>
+            </div>
+            <ChevronDown className="w-4 h-4 text-slate-400" />
           </button>
-        </div>
-        <div className="bg-slate-900 rounded-lg p-3">
-          <p className="text-white font-medium text-sm">{profile?.username}</p>
-          <p className="text-slate-400 text-xs mt-1">Online</p>
+          {showStatusMenu && (
+            <div className="absolute left-0 right-0 mt-2 bg-slate-900 rounded-lg shadow-xl py-1 z-40 border border-slate-700">
+              {(Object.keys(USER_STATUSES) as UserStatus[]).map((status) => (
+                <button
+                  key={status}
+                  onClick={() => changeStatus(status)}
+                  className={`w-full flex items-center gap-3 px-3 py-2 text-sm transition ${
+                    status === currentStatus
+                      ? 'bg-slate-700 text-white'
+                      : 'text-slate-300 hover:bg-slate-800'
+                  }`}
+                >
+                  <span className={`w-2.5 h-2.5 rounded-full ${USER_STATUSES[status].dotClass}`} />
+                  {USER_STATUSES[status].label}
+                </button>
+              ))}
+              <label
+                title="Show others when you've read their messages in DMs and small rooms, and see theirs"
+                className="flex items-center gap-3 px-3 py-2 mt-1 border-t border-slate-700 text-sm text-slate-300 cursor-pointer hover:bg-slate-800"
+              >
+                <input
+                  type="checkbox"
+                  checked={profile?.share_read_receipts ?? true}
+                  onChange={toggleReadReceipts}
+                />
+                Read receipts
+              </label>
+            </div>
+          )}
         </div>
       </div>
 
       <div className="flex-1 overflow-y-auto p-2">
-        {rooms.map((room) => (
+        {rooms.map((room) => {
+          const roomVoiceStates = voiceStates.filter((v) => v.room_id === room.id);
+          const hasUnread = (unreadFor(room)?.unread_count ?? 0) > 0;
+
+          return (
+            <div key={room.id} className="mb-1">
+              <button
+                onClick={() => onSelectRoom(room)}
+                className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg transition ${
+                  selectedRoom?.id === room.id
+                    ? 'bg-slate-700 text-white'
+                    : hasUnread
+                      ? 'text-white hover:bg-slate-700/50'
+                      : 'text-slate-300 hover:bg-slate-700/50'
+                }`}
+              >
+                {room.is_private ? <Lock className="w-5 h-5" /> : <Hash className="w-5 h-5" />}
+                <span className={`truncate ${hasUnread ? 'font-bold' : 'font-medium'}`}>
+                  {room.name}
+                </span>
+                <span className="ml-auto flex items-center gap-1.5 flex-shrink-0">
+                  {roomVoiceStates.length > 0 && <Volume2 className="w-4 h-4 text-green-400" />}
+                  {renderUnreadBadges(room)}
+                </span>
+              </button>
+              {roomVoiceStates.length > 0 && (
+                <ul className="ml-8 mt-1 space-y-0.5">
+                  {roomVoiceStates.map((voiceState) => (
+                    <li
+                      key={voiceState.user_id}
+                      className="flex items-center gap-2 px-2 py-1 text-sm text-slate-400"
+                    >
+                      <div className="w-5 h-5 rounded-full bg-blue-600 flex items-center justify-center text-white text-[10px] font-bold flex-shrink-0">
+                        {voiceState.user_profiles?.username?.[0]?.toUpperCase() || 'U'}
+                      </div>
+                      <span className="truncate">
+                        {voiceState.user_profiles?.username || 'Unknown'}
+                      </span>
+                      <span className="ml-auto flex items-center gap-1 flex-shrink-0">
+                        {voiceState.is_video_on && <Video className="w-3.5 h-3.5" />}
+                        {voiceState.is_screen_sharing && <Monitor className="w-3.5 h-3.5" />}
+                        {voiceState.is_muted && <MicOff className="w-3.5 h-3.5 text-red-400" />}
+                        {voiceState.is_deafened && <Headphones className="w-3.5 h-3.5 text-red-400" />}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+
+        <div className="flex items-center justify-between mt-4 mb-1 px-3">
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-400">
+            Direct Messages
+          </h3>
           <button
-            key={room.id}
-            onClick={() => onSelectRoom(room)}
-            className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg mb-1 transition ${
-              selectedRoom?.id === room.id
-                ? 'bg-slate-700 text-white'
-                : 'text-slate-300 hover:bg-slate-700/50'
-            }`}
+            onClick={() => setShowNewDirectMessage(true)}
+            title="New message"
+            className="p-1 hover:bg-slate-700 rounded transition text-slate-400 hover:text-white"
           >
-            <Hash className="w-5 h-5" />
-            <span className="font-medium truncate">{room.name}</span>
+            <Plus className="w-4 h-4" />
           </button>
-        ))}
+        </div>
+        {conversations.map((conversation) => {
+          const members = directMessageMembers(conversation, profile?.id);
+          const other = conversation.kind === 'dm' ? members[0] : undefined;
+          const otherStatus = other && onlineUsers.get(other.id);
+          const inCall = voiceStates.some((v) => v.room_id === conversation.id);
+          const hasUnread = (unreadFor(conversation)?.unread_count ?? 0) > 0;
+
+          return (
+            <button
+              key={conversation.id}
+              onClick={() => onSelectRoom(conversation)}
+              className={`w-full flex items-center gap-3 px-3 py-2 mb-1 rounded-lg transition ${
+                selectedRoom?.id === conversation.id
+                  ? 'bg-slate-700 text-white'
+                  : hasUnread
+                    ? 'text-white hover:bg-slate-700/50'
+                    : 'text-slate-300 hover:bg-slate-700/50'
+              }`}
+            >
+              <div className="relative flex-shrink-0">
+                <div className="w-6 h-6 rounded-full bg-blue-600 flex items-center justify-center text-white text-xs font-bold">
+                  {other ? other.username[0]?.toUpperCase() || 'U' : <Users className="w-3.5 h-3.5" />}
+                </div>
+                {otherStatus && (
+                  <span
+                    className={`absolute -bottom-0.5 -right-0.5 w-2.5 h-2.5 rounded-full ring-2 ring-slate-800 ${USER_STATUSES[otherStatus].dotClass}`}
+                  />
+                )}
+              </div>
+              <span className={`truncate ${hasUnread ? 'font-bold' : 'font-medium'}`}>
+                {roomDisplayName(conversation, profile?.id)}
+              </span>
+              <span className="ml-auto flex items-center gap-1.5 flex-shrink-0">
+                {inCall && <Volume2 className="w-4 h-4 text-green-400" />}
+                {renderUnreadBadges(conversation)}
+              </span>
+            </button>
+          );
+        })}
+        {conversations.length === 0 && (
+          <p className="px-3 py-1 text-sm text-slate-500">No conversations yet</p>
+        )}
+
+        {archivedRooms.length > 0 && (
+          <>
+            <button
+              onClick={() => setShowArchived(!showArchived)}
+              className="w-full flex items-center gap-1 mt-4 mb-1 px-3 text-xs font-semibold uppercase tracking-wide text-slate-400 hover:text-slate-200"
+            >
+              {showArchived ? (
+                <ChevronDown className="w-3.5 h-3.5" />
+              ) : (
+                <ChevronRight className="w-3.5 h-3.5" />
+              )}
+              Archived rooms ({archivedRooms.length})
+            </button>
+            {showArchived &&
+              archivedRooms.map((room) => (
+                <button
+                  key={room.id}
+                  onClick={() => onSelectRoom(room)}
+                  className={`w-full flex items-center gap-3 px-3 py-2 mb-1 rounded-lg transition ${
+                    selectedRoom?.id === room.id
+                      ? 'bg-slate-700 text-white'
+                      : 'text-slate-400 hover:bg-slate-700/50'
+                  }`}
+                >
+                  <Archive className="w-5 h-5" />
+                  <span className="font-medium truncate">{room.name}</span>
+                </button>
+              ))}
+          </>
+        )}
       </div>
 
       <div className="p-4 border-t border-slate-700">
@@ -109,6 +419,23 @@ export function RoomList({ selectedRoom, onSelectRoom }: RoomListProps) {
         </button>
       </div>
 
+      {showSearch && (
+        <SearchModal
+          rooms={[...rooms, ...conversations, ...archivedRooms]}
+          initialRoomId={selectedRoom?.id ?? null}
+          onClose={() => setShowSearch(false)}
+          onOpenMessage={onOpenMessage}
+        />
+      )}
+
+      {showNewDirectMessage && (
+        <NewDirectMessageModal
+          onlineUsers={onlineUsers}
+          onClose={() => setShowNewDirectMessage(false)}
+          onOpened={onSelectRoom}
+        />
+      )}
+
       {showCreateModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
           <div className="bg-white rounded-xl p-6 w-full max-w-md">
@@ -133,6 +460,21 @@ export function RoomList({ selectedRoom, onSelectRoom }: RoomListProps) {
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
                 />
               </div>
+              <label className="flex items-start gap-3 mb-4 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={newRoomPrivate}
+                  onChange={(e) => setNewRoomPrivate(e.target.checked)}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="block text-sm font-medium">Private room</span>
+                  <span className="block text-xs text-gray-500">
+                    Only people you invite can see and join it
+                  </span>
+                </span>
+              </label>
+              {createError && <p className="mb-4 text-sm text-red-600">{createError}</p>}
               <div className="flex gap-2">
                 <button
                   type="button"
@@ -152,6 +494,42 @@ export function RoomList({ selectedRoom, onSelectRoom }: RoomListProps) {
           </div>
         </div>
       )}
+
+      {showJoinModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl p-6 w-full max-w-md">
+            <h3 className="text-xl font-bold mb-4">Join a Room</h3>
+            <form onSubmit={joinWithInvite}>
+              <div className="mb-4">
+                <label className="block text-sm font-medium mb-2">Invite link or code</label>
+                <input
+                  type="text"
+                  value={inviteInput}
+                  onChange={(e) => setInviteInput(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                  required
+                />
+              </div>
+              {joinError && <p className="mb-4 text-sm text-red-600">{joinError}</p>}
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => setShowJoinModal(false)}
+                  className="flex-1 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition"
+                >
+                  Join
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,254 @@
+import { useState } from 'react';
+import { Archive, ArchiveRestore, Crown, Timer, Trash2 } from 'lucide-react';
+import { Room, RoomParticipant, RoomRole } from '../lib/supabase';
+import { deleteRoom, transferOwnership, updateRoom } from '../lib/rooms';
+import { setSlowMode, SLOW_MODE_OPTIONS } from '../lib/moderation';
+
+interface RoomSettingsModalProps {
+  room: Room;
+  currentRole: RoomRole | null;
+  members: RoomParticipant[];
+  onClose: () => void;
+  onDeleted: () => void;
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none';
+
+export function RoomSettingsModal({
+  room,
+  currentRole,
+  members,
+  onClose,
+  onDeleted,
+}: RoomSettingsModalProps) {
+  const [name, setName] = useState(room.name);
+  const [description, setDescription] = useState(room.description);
+  const [topic, setTopic] = useState(room.topic);
+  const [newOwnerId, setNewOwnerId] = useState('');
+  const [deleteConfirmation, setDeleteConfirmation] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const isOwner = currentRole === 'owner';
+  const candidates = members.filter((m) => m.role !== 'owner');
+  const hasChanges =
+    name.trim() !== room.name || description !== room.description || topic !== room.topic;
+
+  const run = async (action: () => Promise<void>) => {
+    setError('');
+    setBusy(true);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const save = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !hasChanges) return;
+
+    run(async () => {
+      await updateRoom(room.id, { name: name.trim(), description, topic });
+      onClose();
+    });
+  };
+
+  const toggleArchived = () =>
+    run(async () => {
+      await updateRoom(room.id, { is_active: !room.is_active });
+      onClose();
+    });
+
+  const transfer = () => {
+    const member = candidates.find((m) => m.user_id === newOwnerId);
+    if (!member) return;
+    if (
+      !confirm(
+        `Make ${member.user_profiles?.username || 'this member'} the owner of #${room.name}? You'll become a moderator.`
+      )
+    ) {
+      return;
+    }
+
+    run(async () => {
+      await transferOwnership(room.id, member.user_id);
+      onClose();
+    });
+  };
+
+  const changeSlowMode = (seconds: number) =>
+    run(() => setSlowMode(room.id, seconds));
+
+  const destroy = () =>
+    run(async () => {
+      await deleteRoom(room.id);
+      onDeleted();
+    });
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl p-6 w-full max-w-lg max-h-full overflow-y-auto">
+        <h3 className="text-xl font-bold mb-4">Room Settings</h3>
+        <form onSubmit={save}>
+          <div className="mb-4">
+            <label className="block text-sm font-medium mb-2">Room Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className={inputClass}
+              required
+            />
+          </div>
+          <div className="mb-4">
+            <label className="block text-sm font-medium mb-2">Description</label>
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div className="mb-4">
+            <label className="block text-sm font-medium mb-2">Topic</label>
+            <input
+              type="text"
+              value={topic}
+              onChange={(e) => setTopic(e.target.value)}
+              placeholder="What's being discussed right now"
+              className={inputClass}
+            />
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!hasChanges || !name.trim() || busy}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save
+            </button>
+          </div>
+        </form>
+
+        {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+
+        <div className="mt-6 pt-6 border-t border-gray-200 flex items-center justify-between gap-4">
+          <div>
+            <p className="flex items-center gap-2 font-medium text-gray-800">
+              <Timer className="w-4 h-4" />
+              Slow mode
+            </p>
+            <p className="text-sm text-gray-500">
+              How long members wait between messages. Moderators are exempt.
+            </p>
+          </div>
+          <select
+            value={room.slow_mode_seconds}
+            onChange={(e) => changeSlowMode(Number(e.target.value))}
+            disabled={busy}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none flex-shrink-0"
+          >
+            {SLOW_MODE_OPTIONS.map((option) => (
+              <option key={option.seconds} value={option.seconds}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {isOwner && (
+          <div className="mt-6 pt-6 border-t border-gray-200 space-y-5">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <p className="font-medium text-gray-800">
+                  {room.is_active ? 'Archive room' : 'Unarchive room'}
+                </p>
+                <p className="text-sm text-gray-500">
+                  {room.is_active
+                    ? 'Hide it from the room list and make it read-only.'
+                    : 'Bring it back to the room list and allow new messages.'}
+                </p>
+              </div>
+              <button
+                onClick={toggleArchived}
+                disabled={busy}
+                className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition disabled:opacity-50 flex-shrink-0"
+              >
+                {room.is_active ? (
+                  <Archive className="w-4 h-4" />
+                ) : (
+                  <ArchiveRestore className="w-4 h-4" />
+                )}
+                {room.is_active ? 'Archive' : 'Unarchive'}
+              </button>
+            </div>
+
+            <div>
+              <p className="font-medium text-gray-800">Transfer ownership</p>
+              <p className="text-sm text-gray-500 mb-2">
+                The new owner gets full control; you stay on as a moderator.
+              </p>
+              <div className="flex gap-2">
+                <select
+                  value={newOwnerId}
+                  onChange={(e) => setNewOwnerId(e.target.value)}
+                  className={inputClass}
+                >
+                  <option value="">Choose a member</option>
+                  {candidates.map((member) => (
+                    <option key={member.user_id} value={member.user_id}>
+                      {member.user_profiles?.username || 'Unknown'}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={transfer}
+                  disabled={!newOwnerId || busy}
+                  className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition disabled:opacity-50 flex-shrink-0"
+                >
+                  <Crown className="w-4 h-4" />
+                  Transfer
+                </button>
+              </div>
+            </div>
+
+            <div className="p-4 border border-red-200 rounded-lg bg-red-50">
+              <p className="font-medium text-red-700">Delete room</p>
+              <p className="text-sm text-red-600 mb-2">
+                Permanently deletes the room, its messages and files. This cannot be undone.
+                Type <span className="font-mono font-semibold">{room.name}</span> to confirm.
+              </p>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={deleteConfirmation}
+                  onChange={(e) => setDeleteConfirmation(e.target.value)}
+                  className={inputClass}
+                />
+                <button
+                  onClick={destroy}
+                  disabled={deleteConfirmation !== room.name || busy}
+                  className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition disabled:opacity-50 disabled:cursor-not-allowed flex-shrink-0"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Delete
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,298 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link2, Loader2, MessageSquare, Paperclip, Search, X } from 'lucide-react';
+import { Room, UserProfile } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { isDirectMessage, roomDisplayName, searchUsers } from '../lib/directMessages';
+import { decodeMentions, mentionNames } from '../lib/mentions';
+import {
+  EMPTY_SEARCH_FILTERS,
+  hasSearchCriteria,
+  SearchFilters,
+  searchMessages,
+  SearchResult,
+  splitSnippet,
+} from '../lib/search';
+
+interface SearchModalProps {
+  /** Rooms and conversations offered in the room filter. */
+  rooms: Room[];
+  initialRoomId: string | null;
+  onClose: () => void;
+  onOpenMessage: (room: Room, messageId: string, threadId: string | null) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+export function SearchModal({ rooms, initialRoomId, onClose, onOpenMessage }: SearchModalProps) {
+  const [filters, setFilters] = useState<SearchFilters>({
+    ...EMPTY_SEARCH_FILTERS,
+    roomId: initialRoomId,
+  });
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState('');
+  const [author, setAuthor] = useState<UserProfile | null>(null);
+  const [authorQuery, setAuthorQuery] = useState('');
+  const [authorOptions, setAuthorOptions] = useState<UserProfile[]>([]);
+  // Responses for anything but the latest search are dropped.
+  const searchIdRef = useRef(0);
+  const { user } = useAuth();
+
+  const runSearch = async (offset: number) => {
+    const searchId = ++searchIdRef.current;
+    setSearching(true);
+    setError('');
+    try {
+      const page = await searchMessages(filters, offset);
+      if (searchId !== searchIdRef.current) return;
+
+      setResults((prev) => (offset === 0 ? page.results : [...prev, ...page.results]));
+      setHasMore(page.hasMore);
+    } catch (err) {
+      if (searchId === searchIdRef.current) {
+        setError(err instanceof Error ? err.message : 'Search failed');
+      }
+    } finally {
+      if (searchId === searchIdRef.current) setSearching(false);
+    }
+  };
+  const runSearchRef = useRef(runSearch);
+  runSearchRef.current = runSearch;
+
+  useEffect(() => {
+    if (!hasSearchCriteria(filters)) {
+      searchIdRef.current++;
+      setResults([]);
+      setHasMore(false);
+      setSearching(false);
+      return;
+    }
+
+    const timeout = setTimeout(() => runSearchRef.current(0), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [filters]);
+
+  useEffect(() => {
+    if (author || !authorQuery.trim()) {
+      setAuthorOptions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const users = await searchUsers(authorQuery, []);
+        if (!cancelled) setAuthorOptions(users.slice(0, 6));
+      } catch (err) {
+        console.error('Error searching users:', err);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [authorQuery, author]);
+
+  const update = (changes: Partial<SearchFilters>) => setFilters((prev) => ({ ...prev, ...changes }));
+
+  const pickAuthor = (profile: UserProfile | null) => {
+    setAuthor(profile);
+    setAuthorQuery('');
+    update({ authorId: profile?.id ?? null });
+  };
+
+  const open = (result: SearchResult) => {
+    onOpenMessage(result.message.room, result.message.id, result.message.thread_id);
+    onClose();
+  };
+
+  const channelLabel = (room: Room) =>
+    isDirectMessage(room) ? `@${roomDisplayName(room, user?.id)}` : `#${room.name}`;
+
+  const toggleClass = (active: boolean) =>
+    `flex items-center gap-1.5 px-3 py-1.5 rounded-lg border text-sm transition ${
+      active
+        ? 'bg-blue-50 border-blue-300 text-blue-700'
+        : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+    }`;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-start justify-center z-50 p-4 pt-16">
+      <div className="bg-white rounded-xl w-full max-w-2xl flex flex-col max-h-[80vh]">
+        <div className="p-4 border-b border-gray-200 space-y-3">
+          <div className="flex items-center gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+              <input
+                type="text"
+                value={filters.query}
+                onChange={(e) => update({ query: e.target.value })}
+                onKeyDown={(e) => {
+                  if (e.key === 'Escape') onClose();
+                }}
+                placeholder='Search messages — use "quotes" for phrases, -word to exclude'
+                autoFocus
+                className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+              />
+            </div>
+            <button
+              onClick={onClose}
+              title="Close"
+              className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg transition"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={filters.roomId ?? ''}
+              onChange={(e) => update({ roomId: e.target.value || null })}
+              className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm bg-white outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="">All rooms</option>
+              {rooms.map((room) => (
+                <option key={room.id} value={room.id}>
+                  {channelLabel(room)}
+                </option>
+              ))}
+            </select>
+            {author ? (
+              <span className="flex items-center gap-1 pl-3 pr-1 py-1 bg-blue-50 text-blue-700 rounded-lg text-sm">
+                from @{author.username}
+                <button onClick={() => pickAuthor(null)} className="p-0.5 hover:text-blue-900">
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </span>
+            ) : (
+              <div className="relative">
+                <input
+                  type="text"
+                  value={authorQuery}
+                  onChange={(e) => setAuthorQuery(e.target.value)}
+                  placeholder="From user"
+                  className="w-36 px-3 py-1.5 border border-gray-300 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                {authorOptions.length > 0 && (
+                  <ul className="absolute left-0 top-full mt-1 w-48 py-1 bg-white border border-gray-200 rounded-lg shadow-lg z-10">
+                    {authorOptions.map((profile) => (
+                      <li key={profile.id}>
+                        <button
+                          onClick={() => pickAuthor(profile)}
+                          className="w-full px-3 py-1.5 text-left text-sm hover:bg-gray-50 truncate"
+                        >
+                          @{profile.username}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+            <label className="flex items-center gap-1 text-sm text-gray-600">
+              From
+              <input
+                type="date"
+                value={filters.from}
+                max={filters.to || undefined}
+                onChange={(e) => update({ from: e.target.value })}
+                className="px-2 py-1 border border-gray-300 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+            <label className="flex items-center gap-1 text-sm text-gray-600">
+              to
+              <input
+                type="date"
+                value={filters.to}
+                min={filters.from || undefined}
+                onChange={(e) => update({ to: e.target.value })}
+                className="px-2 py-1 border border-gray-300 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+            <button
+              onClick={() => update({ hasAttachment: !filters.hasAttachment })}
+              className={toggleClass(filters.hasAttachment)}
+            >
+              <Paperclip className="w-4 h-4" />
+              Has file
+            </button>
+            <button
+              onClick={() => update({ hasLink: !filters.hasLink })}
+              className={toggleClass(filters.hasLink)}
+            >
+              <Link2 className="w-4 h-4" />
+              Has link
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto">
+          {error && <p className="px-4 pt-3 text-sm text-red-600">{error}</p>}
+          <ul className="divide-y divide-gray-100">
+            {results.map((result) => {
+              const { message } = result;
+              const names = mentionNames(message);
+
+              return (
+                <li key={message.id}>
+                  <button
+                    onClick={() => open(result)}
+                    className="w-full px-4 py-3 text-left hover:bg-gray-50 transition"
+                  >
+                    <div className="flex items-center gap-2 text-xs text-gray-500 mb-1">
+                      <span className="font-semibold text-gray-700">{channelLabel(message.room)}</span>
+                      <span>·</span>
+                      <span>{message.user_profiles?.username || 'Unknown'}</span>
+                      <span>·</span>
+                      <span>{new Date(message.created_at).toLocaleString()}</span>
+                      {message.thread_id && (
+                        <span className="flex items-center gap-1 text-gray-400">
+                          <MessageSquare className="w-3 h-3" />
+                          in thread
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-800 break-words whitespace-pre-wrap line-clamp-3">
+                      {splitSnippet(result.snippet).map((part, index) =>
+                        part.highlighted ? (
+                          <mark key={index} className="bg-yellow-200 text-gray-900 rounded px-0.5">
+                            {decodeMentions(part.text, names)}
+                          </mark>
+                        ) : (
+                          <span key={index}>{decodeMentions(part.text, names)}</span>
+                        )
+                      )}
+                    </p>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+          {searching && (
+            <div className="flex justify-center py-4 text-gray-400">
+              <Loader2 className="w-5 h-5 animate-spin" />
+            </div>
+          )}
+          {!searching && hasMore && (
+            <div className="flex justify-center py-3">
+              <button
+                onClick={() => runSearch(results.length)}
+                className="px-4 py-1.5 text-sm text-blue-600 hover:bg-blue-50 rounded-lg transition"
+              >
+                Load more results
+              </button>
+            </div>
+          )}
+          {!searching && !error && results.length === 0 && (
+            <p className="px-4 py-10 text-center text-sm text-gray-500">
+              {hasSearchCriteria(filters)
+                ? 'No messages found'
+                : 'Type to search, or narrow down by author, date, files or links'}
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
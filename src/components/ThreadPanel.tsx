@@ -0,0 +1,143 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { X, MessagesSquare } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useThreadMessages } from '../hooks/useThreadMessages';
+import { useMessageReactions } from '../hooks/useMessageReactions';
+import { useOutbox } from '../hooks/useOutbox';
+import { outbox } from '../lib/outbox';
+import { MessageMention } from '../lib/supabase';
+import { UploadedAttachment } from '../lib/attachments';
+import { MessageItem } from './MessageItem';
+import { ComposerLock, MessageComposer } from './MessageComposer';
+import { MentionCandidate } from '../lib/mentions';
+
+interface ThreadPanelProps {
+  roomId: string;
+  rootId: string;
+  canModerate?: boolean;
+  lock?: ComposerLock | null;
+  mentionCandidates?: MentionCandidate[];
+  searchDirectory?: boolean;
+  /** Who is typing in this thread, e.g. "Alice is typing…". */
+  typing?: string;
+  onTyping?: (typing: boolean) => void;
+  onClose: () => void;
+}
+
+export function ThreadPanel({
+  roomId,
+  rootId,
+  canModerate = false,
+  lock,
+  mentionCandidates,
+  searchDirectory,
+  typing,
+  onTyping,
+  onClose,
+}: ThreadPanelProps) {
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const { user, profile } = useAuth();
+  const { root, replies } = useThreadMessages(rootId);
+  const messageIds = useMemo(
+    () => [...(root ? [root.id] : []), ...replies.map((m) => m.id)],
+    [root, replies]
+  );
+  const reactions = useMessageReactions(roomId, messageIds, `thread_${rootId}`);
+  const outboxEntries = useOutbox(roomId);
+  const unsentReplies = useMemo(() => {
+    const delivered = new Set(messageIds);
+    return outboxEntries.filter(
+      (entry) => entry.message.thread_id === rootId && !delivered.has(entry.message.id)
+    );
+  }, [outboxEntries, messageIds, rootId]);
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [replies.length, unsentReplies.length]);
+
+  const sendReply = async (
+    content: string,
+    attachments: UploadedAttachment[],
+    mentions: MessageMention[]
+  ) => {
+    if (!profile) return;
+
+    await outbox.send({ roomId, content, threadId: rootId, attachments, mentions }, profile);
+  };
+
+  const discardReply = async (messageId: string) => {
+    try {
+      await outbox.discard(messageId);
+    } catch (error) {
+      console.error('Error discarding message:', error);
+    }
+  };
+
+  return (
+    <div className="w-96 flex flex-col border-l border-gray-200 bg-white">
+      <div className="h-16 border-b border-gray-200 flex items-center justify-between px-4">
+        <div className="flex items-center gap-2 text-gray-800">
+          <MessagesSquare className="w-5 h-5" />
+          <h3 className="font-bold">Thread</h3>
+          {root && root.reply_count > 0 && (
+            <span className="text-sm text-gray-500">
+              {root.reply_count} {root.reply_count === 1 ? 'reply' : 'replies'}
+            </span>
+          )}
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg transition"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {root ? (
+          <div className="pb-4 border-b border-gray-100">
+            <MessageItem
+              message={root}
+              isOwn={root.user_id === user?.id}
+              canModerate={canModerate}
+              reactions={reactions.get(root.id) ?? []}
+            />
+          </div>
+        ) : (
+          <p className="text-sm text-gray-400 text-center">Loading thread...</p>
+        )}
+        {replies.map((reply) => (
+          <MessageItem
+            key={reply.id}
+            message={reply}
+            isOwn={reply.user_id === user?.id}
+            canModerate={canModerate}
+            reactions={reactions.get(reply.id) ?? []}
+          />
+        ))}
+        {unsentReplies.map((entry) => (
+          <MessageItem
+            key={entry.message.id}
+            message={entry.message}
+            isOwn
+            delivery={entry}
+            onRetry={() => outbox.retry(entry.message.id)}
+            onDiscard={() => discardReply(entry.message.id)}
+          />
+        ))}
+        <div ref={messagesEndRef} />
+      </div>
+
+      <MessageComposer
+        roomId={roomId}
+        placeholder="Reply to thread..."
+        onSend={sendReply}
+        lock={lock}
+        mentionCandidates={mentionCandidates}
+        searchDirectory={searchDirectory}
+        onTyping={onTyping}
+        activity={typing}
+      />
+    </div>
+  );
+}
@@ -1,21 +1,23 @@
 import { createContext, useContext, useEffect, useState } from 'react';
 import { User } from '@supabase/supabase-js';
-import { supabase, UserProfile } from '../lib/supabase';
+import { supabase, OwnProfile, PROFILE_COLUMNS, UserStatus } from '../lib/supabase';
 
 interface AuthContextType {
   user: User | null;
-  profile: UserProfile | null;
+  profile: OwnProfile | null;
   loading: boolean;
   signUp: (email: string, password: string, username: string) => Promise<void>;
   signIn: (email: string, password: string) => Promise<void>;
   signOut: () => Promise<void>;
+  setStatus: (status: UserStatus) => Promise<void>;
+  setShareReadReceipts: (enabled: boolean) => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
-  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [profile, setProfile] = useState<OwnProfile | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -44,14 +46,14 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   }, []);
 
   const loadProfile = async (userId: string) => {
-    const { data, error } = await supabase
-      .from('user_profiles')
-      .select('*')
-      .eq('id', userId)
-      .maybeSingle();
+    // Our own row in `user_statuses` holds the status as set, even when invisible.
+    const [{ data }, { data: statusRow }] = await Promise.all([
+      supabase.from('user_profiles').select(PROFILE_COLUMNS).eq('id', userId).maybeSingle(),
+      supabase.from('user_statuses').select('status').eq('user_id', userId).maybeSingle(),
+    ]);
 
     if (data) {
-      setProfile(data);
+      setProfile({ ...data, status: statusRow?.status ?? 'online' });
     }
     setLoading(false);
   };
@@ -90,8 +92,36 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     if (error) throw error;
   };
 
+  const setStatus = async (status: UserStatus) => {
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('user_profiles')
+      .update({ status })
+      .eq('id', user.id);
+
+    if (error) throw error;
+
+    setProfile((prev) => (prev ? { ...prev, status } : prev));
+  };
+
+  const setShareReadReceipts = async (enabled: boolean) => {
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('user_profiles')
+      .update({ share_read_receipts: enabled })
+      .eq('id', user.id);
+
+    if (error) throw error;
+
+    setProfile((prev) => (prev ? { ...prev, share_read_receipts: enabled } : prev));
+  };
+
   return (
-    <AuthContext.Provider value={{ user, profile, loading, signUp, signIn, signOut }}>
+    <AuthContext.Provider
+      value={{ user, profile, loading, signUp, signIn, signOut, setStatus, setShareReadReceipts }}
+    >
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,312 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { supabase, Message, NotificationLevel, Room, UserNotification } from '../lib/supabase';
+import { useAuth } from './AuthContext';
+import { DesktopPermission, NotificationContext } from '../hooks/useNotifications';
+import {
+  defaultNotificationLevel,
+  describeNotification,
+  dismissNotifications,
+  groupNotifications,
+  loadNotification,
+  loadNotificationLevels,
+  loadNotifications,
+  markAllNotificationsRead,
+  markNotificationsRead,
+  notificationPreview,
+  NotificationGroup,
+  setNotificationLevel,
+} from '../lib/notifications';
+import { isDirectMessage, loadDirectMessage, roomDisplayName } from '../lib/directMessages';
+import { loadMessage } from '../lib/messages';
+import { stripMarkdown } from '../lib/markdown';
+import { mentionNames } from '../lib/mentions';
+import { setTabBadge } from '../lib/tabBadge';
+
+interface NotificationProviderProps {
+  children: React.ReactNode;
+  onOpenMessage: (room: Room, messageId: string, threadId: string | null) => void;
+}
+
+const isAway = () => document.hidden || !document.hasFocus();
+
+const currentPermission = (): DesktopPermission =>
+  'Notification' in window ? Notification.permission : 'unsupported';
+
+function showDesktopAlert(title: string, body: string, tag: string, onClick: () => void) {
+  if (currentPermission() !== 'granted') return;
+
+  const popup = new Notification(title, { body, tag });
+  popup.onclick = () => {
+    window.focus();
+    onClick();
+    popup.close();
+  };
+}
+
+/**
+ * Owns the notification inbox and per-room preferences. While the window is
+ * hidden or unfocused it also raises desktop popups and badges the tab with
+ * the unread count.
+ */
+export function NotificationProvider({ children, onOpenMessage }: NotificationProviderProps) {
+  const [notifications, setNotifications] = useState<UserNotification[]>([]);
+  const [levels, setLevels] = useState<Map<string, NotificationLevel>>(new Map());
+  const [desktopPermission, setDesktopPermission] = useState(currentPermission);
+  const [away, setAway] = useState(isAway);
+  // Messages from rooms set to "all" that arrived while away; they have no inbox entry.
+  const [missedWhileAway, setMissedWhileAway] = useState(0);
+  const { user } = useAuth();
+  const levelsRef = useRef(levels);
+  levelsRef.current = levels;
+  const onOpenMessageRef = useRef(onOpenMessage);
+  onOpenMessageRef.current = onOpenMessage;
+  const alertedMessageIdsRef = useRef(new Set<string>());
+
+  const reloadLevels = useCallback(async () => {
+    try {
+      setLevels(await loadNotificationLevels());
+    } catch (error) {
+      console.error('Error loading notification preferences:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+
+    const openNotification = (notification: UserNotification) => {
+      if (!notification.room) return;
+      onOpenMessageRef.current(
+        notification.room,
+        notification.message_id,
+        notification.message?.thread_id ?? null
+      );
+    };
+
+    // Returns false if this message already raised a popup, e.g. as both a
+    // mention and a message in a room set to "all".
+    const claimAlert = (messageId: string) => {
+      if (!isAway() || alertedMessageIdsRef.current.has(messageId)) return false;
+      alertedMessageIdsRef.current.add(messageId);
+      return true;
+    };
+
+    const alertNotification = (notification: UserNotification) => {
+      const level = notification.room
+        ? levelsRef.current.get(notification.room_id) ?? defaultNotificationLevel(notification.room)
+        : 'mentions';
+      if (notification.kind === 'direct_message' && level !== 'all') return;
+      if (!claimAlert(notification.message_id)) return;
+
+      showDesktopAlert(
+        describeNotification(notification, user.id),
+        notificationPreview(notification),
+        notification.message_id,
+        () => openNotification(notification)
+      );
+    };
+
+    const alertMessage = async (message: Message) => {
+      if (!claimAlert(message.id)) return;
+      setMissedWhileAway((count) => count + 1);
+
+      try {
+        const [room, full] = await Promise.all([
+          loadDirectMessage(message.room_id),
+          loadMessage(message.id),
+        ]);
+        if (!full) return;
+
+        const author = full.user_profiles?.username || 'Someone';
+        const where = `${isDirectMessage(room) ? '@' : '#'}${roomDisplayName(room, user.id)}`;
+        showDesktopAlert(
+          `${author} in ${where}`,
+          stripMarkdown(full.content, mentionNames(full)) || 'Sent an attachment',
+          message.id,
+          () => onOpenMessageRef.current(room, message.id, message.thread_id)
+        );
+      } catch (error) {
+        console.error('Error showing message alert:', error);
+      }
+    };
+
+    loadNotifications()
+      .then((data) => {
+        if (!cancelled) setNotifications(data);
+      })
+      .catch((error) => console.error('Error loading notifications:', error));
+    reloadLevels();
+
+    const channel = supabase
+      .channel(`notifications_${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${user.id}`,
+        },
+        async (payload) => {
+          try {
+            const notification = await loadNotification(payload.new.id);
+            if (!notification || cancelled) return;
+
+            setNotifications((prev) =>
+              prev.some((n) => n.id === notification.id) ? prev : [notification, ...prev]
+            );
+            alertNotification(notification);
+          } catch (error) {
+            console.error('Error loading notification:', error);
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${user.id}`,
+        },
+        (payload) => {
+          setNotifications((prev) =>
+            prev.map((n) => (n.id === payload.new.id ? { ...n, read_at: payload.new.read_at } : n))
+          );
+        }
+      )
+      .on(
+        'postgres_changes',
+        // Delete events only carry the primary key, so they can't be filtered by user.
+        { event: 'DELETE', schema: 'public', table: 'notifications' },
+        (payload) => {
+          setNotifications((prev) => prev.filter((n) => n.id !== payload.old.id));
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'notification_preferences',
+          filter: `user_id=eq.${user.id}`,
+        },
+        reloadLevels
+      )
+      .on(
+        'postgres_changes',
+        // Unfiltered, but RLS only delivers messages from rooms we can read.
+        { event: 'INSERT', schema: 'public', table: 'messages' },
+        (payload) => {
+          const message = payload.new as Message;
+          if (message.user_id === user.id) return;
+          // Other levels are covered by the notifications the server creates.
+          if (levelsRef.current.get(message.room_id) !== 'all') return;
+          alertMessage(message);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+    };
+  }, [user, reloadLevels]);
+
+  useEffect(() => {
+    const update = () => {
+      const nowAway = isAway();
+      setAway(nowAway);
+      if (!nowAway) setMissedWhileAway(0);
+    };
+
+    document.addEventListener('visibilitychange', update);
+    window.addEventListener('focus', update);
+    window.addEventListener('blur', update);
+    return () => {
+      document.removeEventListener('visibilitychange', update);
+      window.removeEventListener('focus', update);
+      window.removeEventListener('blur', update);
+    };
+  }, []);
+
+  const groups = useMemo(() => groupNotifications(notifications), [notifications]);
+  const unreadCount = groups.filter((group) => group.unread).length;
+
+  useEffect(() => {
+    setTabBadge(away ? unreadCount + missedWhileAway : 0);
+  }, [away, unreadCount, missedWhileAway]);
+
+  useEffect(() => () => setTabBadge(0), []);
+
+  const requestDesktopPermission = useCallback(async () => {
+    if (!('Notification' in window)) return;
+    setDesktopPermission(await Notification.requestPermission());
+  }, []);
+
+  const setReadAt = (ids: string[], readAt: string) => {
+    setNotifications((prev) =>
+      prev.map((n) => (ids.includes(n.id) && !n.read_at ? { ...n, read_at: readAt } : n))
+    );
+  };
+
+  const markRead = async (group: NotificationGroup) => {
+    if (!group.unread) return;
+    setReadAt(group.ids, new Date().toISOString());
+    await markNotificationsRead(group.ids);
+  };
+
+  const markAllRead = async () => {
+    if (!user) return;
+    setReadAt(notifications.map((n) => n.id), new Date().toISOString());
+    await markAllNotificationsRead(user.id);
+  };
+
+  const dismiss = async (group: NotificationGroup) => {
+    setNotifications((prev) => prev.filter((n) => !group.ids.includes(n.id)));
+    await dismissNotifications(group.ids);
+  };
+
+  const open = (group: NotificationGroup) => {
+    const { notification } = group;
+    if (!notification.room) return;
+    onOpenMessage(notification.room, notification.message_id, notification.message?.thread_id ?? null);
+  };
+
+  const levelFor = useCallback(
+    (room: Pick<Room, 'id' | 'kind'>) => levels.get(room.id) ?? defaultNotificationLevel(room),
+    [levels]
+  );
+
+  const setLevel = async (roomId: string, level: NotificationLevel) => {
+    if (!user) return;
+
+    setLevels((prev) => new Map(prev).set(roomId, level));
+    try {
+      await setNotificationLevel(user.id, roomId, level);
+    } catch (error) {
+      reloadLevels();
+      throw error;
+    }
+  };
+
+  return (
+    <NotificationContext.Provider
+      value={{
+        groups,
+        unreadCount,
+        desktopPermission,
+        requestDesktopPermission,
+        markRead,
+        markAllRead,
+        dismiss,
+        open,
+        levelFor,
+        setLevel,
+      }}
+    >
+      {children}
+    </NotificationContext.Provider>
+  );
+}
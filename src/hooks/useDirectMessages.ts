@@ -0,0 +1,58 @@
+import { useEffect, useState } from 'react';
+import { supabase, Room } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { DIRECT_MESSAGE_SELECT } from '../lib/directMessages';
+
+/**
+ * The current user's DMs and group DMs with their members. RLS only returns
+ * conversations the user belongs to; new ones show up when someone else adds
+ * us as a participant.
+ */
+export function useDirectMessages() {
+  const [conversations, setConversations] = useState<Room[]>([]);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+
+    const loadConversations = async () => {
+      const { data } = await supabase
+        .from('rooms')
+        .select(DIRECT_MESSAGE_SELECT)
+        .neq('kind', 'public')
+        .eq('is_active', true)
+        .order('created_at', { ascending: false });
+
+      if (data && !cancelled) {
+        setConversations(data);
+      }
+    };
+
+    loadConversations();
+
+    const channel = supabase
+      .channel(`direct_messages_${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'room_participants',
+          filter: `user_id=eq.${user.id}`,
+        },
+        () => {
+          loadConversations();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
+  return conversations;
+}
@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  DevicePreferences,
+  listMediaDevices,
+  loadDevicePreferences,
+  MediaDeviceLists,
+  saveDevicePreferences,
+} from '../lib/mediaDevices';
+
+/** The browser's media devices, kept current as they are plugged in and out. */
+export function useMediaDevices() {
+  const [devices, setDevices] = useState<MediaDeviceLists>({
+    audioInputs: [],
+    videoInputs: [],
+    audioOutputs: [],
+  });
+  const [preferences, setPreferences] = useState<DevicePreferences>(loadDevicePreferences);
+
+  const refresh = useCallback(async () => {
+    try {
+      setDevices(await listMediaDevices());
+    } catch (error) {
+      console.error('Error listing media devices:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+  }, [refresh]);
+
+  const choose = useCallback((kind: keyof DevicePreferences, deviceId: string | null) => {
+    setPreferences((prev) => {
+      const next = { ...prev, [kind]: deviceId };
+      saveDevicePreferences(next);
+      return next;
+    });
+  }, []);
+
+  return { devices, preferences, choose, refresh };
+}
@@ -0,0 +1,249 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { supabase, Message } from '../lib/supabase';
+import { MESSAGE_SELECT, loadMessage, newerThan, olderThan } from '../lib/messages';
+import { loadMentions, mentionedUserIds } from '../lib/mentions';
+
+export const MESSAGE_PAGE_SIZE = 50;
+
+/**
+ * Message history for a room's main feed (thread replies live in their own
+ * panel), newest page first. Older and newer pages are fetched with a
+ * (created_at, id) keyset cursor taken from the loaded edge, so rows inserted
+ * while scrolling never shift or duplicate a page.
+ *
+ * After `loadAround` the window may stop short of the present; `hasNewer` is
+ * then true and live inserts are held back until the gap is closed.
+ */
+export function useMessageHistory(roomId: string) {
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [hasNewer, setHasNewer] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+
+  // Guards against responses for a room we've already navigated away from.
+  const roomIdRef = useRef(roomId);
+  const hasNewerRef = useRef(false);
+  const loadingRef = useRef(false);
+
+  const updateHasNewer = (value: boolean) => {
+    hasNewerRef.current = value;
+    setHasNewer(value);
+  };
+
+  const loadLatest = useCallback(async () => {
+    const { data } = await supabase
+      .from('messages')
+      .select(MESSAGE_SELECT)
+      .eq('room_id', roomId)
+      .is('thread_id', null)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(MESSAGE_PAGE_SIZE);
+
+    if (data && roomIdRef.current === roomId) {
+      setMessages(data.reverse());
+      setHasMore(data.length === MESSAGE_PAGE_SIZE);
+      updateHasNewer(false);
+    }
+  }, [roomId]);
+
+  useEffect(() => {
+    roomIdRef.current = roomId;
+    setMessages([]);
+    setHasMore(false);
+    updateHasNewer(false);
+
+    const appendMessage = async (messageId: string) => {
+      const data = await loadMessage(messageId);
+
+      if (data && roomIdRef.current === roomId && !hasNewerRef.current) {
+        setMessages((prev) =>
+          prev.some((m) => m.id === data.id) ? prev : [...prev, data]
+        );
+      }
+    };
+
+    const refreshMentions = async (messageId: string) => {
+      const mentions = await loadMentions(messageId);
+
+      if (roomIdRef.current === roomId) {
+        setMessages((prev) =>
+          prev.map((m) => (m.id === messageId ? { ...m, message_mentions: mentions } : m))
+        );
+      }
+    };
+
+    loadLatest();
+
+    const channel = supabase
+      .channel(`room_${roomId}_messages`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'messages',
+          filter: `room_id=eq.${roomId}`,
+        },
+        (payload) => {
+          const newMsg = payload.new as Message;
+          if (!newMsg.thread_id) {
+            appendMessage(newMsg.id);
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+          filter: `room_id=eq.${roomId}`,
+        },
+        (payload) => {
+          const updated = payload.new as Message;
+          setMessages((prev) =>
+            prev.map((m) => {
+              if (m.id === updated.id) {
+                return { ...m, ...updated };
+              }
+              // Keep quoted previews in step with edits and deletions.
+              if (m.parent?.id === updated.id) {
+                return {
+                  ...m,
+                  parent: { ...m.parent, content: updated.content, deleted_at: updated.deleted_at },
+                };
+              }
+              return m;
+            })
+          );
+          if (mentionedUserIds(updated.content).length > 0) {
+            refreshMentions(updated.id).catch((error) =>
+              console.error('Error loading mentions:', error)
+            );
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        // DELETE events can't be filtered and only carry the primary key.
+        { event: 'DELETE', schema: 'public', table: 'messages' },
+        (payload) => {
+          const deletedId = (payload.old as Partial<Message>).id;
+          setMessages((prev) => prev.filter((m) => m.id !== deletedId));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [roomId, loadLatest]);
+
+  const loadOlder = useCallback(async () => {
+    const oldest = messages[0];
+    if (!oldest || !hasMore || loadingRef.current) return;
+
+    loadingRef.current = true;
+    setLoadingOlder(true);
+
+    const { data } = await supabase
+      .from('messages')
+      .select(MESSAGE_SELECT)
+      .eq('room_id', roomId)
+      .is('thread_id', null)
+      .or(olderThan(oldest))
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(MESSAGE_PAGE_SIZE);
+
+    if (data && roomIdRef.current === roomId) {
+      setMessages((prev) => [...data.reverse(), ...prev]);
+      setHasMore(data.length === MESSAGE_PAGE_SIZE);
+    }
+
+    loadingRef.current = false;
+    setLoadingOlder(false);
+  }, [messages, hasMore, roomId]);
+
+  const loadNewer = useCallback(async () => {
+    const newest = messages[messages.length - 1];
+    if (!newest || !hasNewer || loadingRef.current) return;
+
+    loadingRef.current = true;
+
+    const { data } = await supabase
+      .from('messages')
+      .select(MESSAGE_SELECT)
+      .eq('room_id', roomId)
+      .is('thread_id', null)
+      .or(newerThan(newest))
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(MESSAGE_PAGE_SIZE);
+
+    if (data && roomIdRef.current === roomId) {
+      setMessages((prev) => [...prev, ...data]);
+      updateHasNewer(data.length === MESSAGE_PAGE_SIZE);
+    }
+
+    loadingRef.current = false;
+  }, [messages, hasNewer, roomId]);
+
+  /**
+   * Replaces the loaded window with the page surrounding `messageId`, for
+   * jumping to a message that isn't loaded. Resolves to false if the message
+   * isn't visible in this room's main feed.
+   */
+  const loadAround = useCallback(
+    async (messageId: string) => {
+      if (messages.some((m) => m.id === messageId)) return true;
+
+      const target = await loadMessage(messageId);
+      if (!target || target.room_id !== roomId || target.thread_id) return false;
+
+      const half = Math.floor(MESSAGE_PAGE_SIZE / 2);
+      const [older, newer] = await Promise.all([
+        supabase
+          .from('messages')
+          .select(MESSAGE_SELECT)
+          .eq('room_id', roomId)
+          .is('thread_id', null)
+          .or(olderThan(target))
+          .order('created_at', { ascending: false })
+          .order('id', { ascending: false })
+          .limit(half),
+        supabase
+          .from('messages')
+          .select(MESSAGE_SELECT)
+          .eq('room_id', roomId)
+          .is('thread_id', null)
+          .or(newerThan(target))
+          .order('created_at', { ascending: true })
+          .order('id', { ascending: true })
+          .limit(half),
+      ]);
+
+      if (roomIdRef.current !== roomId) return false;
+
+      const olderRows = older.data ?? [];
+      const newerRows = newer.data ?? [];
+      setMessages([...olderRows.reverse(), target, ...newerRows]);
+      setHasMore(olderRows.length === half);
+      updateHasNewer(newerRows.length === half);
+      return true;
+    },
+    [messages, roomId]
+  );
+
+  return {
+    messages,
+    hasMore,
+    hasNewer,
+    loadingOlder,
+    loadOlder,
+    loadNewer,
+    loadAround,
+    loadLatest,
+  };
+}
@@ -0,0 +1,97 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { supabase, MessageReaction } from '../lib/supabase';
+import { REACTION_SELECT } from '../lib/reactions';
+
+/**
+ * Reactions for the given messages, grouped by message id and kept live.
+ * Reactions are fetched once per message id as new messages come into view.
+ * `scope` keeps the realtime channel unique when several lists are open.
+ */
+export function useMessageReactions(roomId: string, messageIds: string[], scope: string) {
+  const [reactions, setReactions] = useState<MessageReaction[]>([]);
+  const loadedIdsRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    loadedIdsRef.current = new Set();
+    setReactions([]);
+
+    const loadReaction = async (reactionId: string) => {
+      const { data } = await supabase
+        .from('message_reactions')
+        .select(REACTION_SELECT)
+        .eq('id', reactionId)
+        .maybeSingle();
+
+      if (data && loadedIdsRef.current.has(data.message_id)) {
+        setReactions((prev) =>
+          prev.some((r) => r.id === data.id) ? prev : [...prev, data]
+        );
+      }
+    };
+
+    const channel = supabase
+      .channel(`reactions_${scope}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'message_reactions',
+          filter: `room_id=eq.${roomId}`,
+        },
+        (payload) => {
+          const reaction = payload.new as MessageReaction;
+          if (loadedIdsRef.current.has(reaction.message_id)) {
+            loadReaction(reaction.id);
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        // DELETE events can't be filtered and only carry the primary key.
+        { event: 'DELETE', schema: 'public', table: 'message_reactions' },
+        (payload) => {
+          const deletedId = (payload.old as Partial<MessageReaction>).id;
+          setReactions((prev) => prev.filter((r) => r.id !== deletedId));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [roomId, scope]);
+
+  useEffect(() => {
+    const newIds = messageIds.filter((id) => !loadedIdsRef.current.has(id));
+    if (newIds.length === 0) return;
+
+    newIds.forEach((id) => loadedIdsRef.current.add(id));
+
+    const loadReactions = async () => {
+      const { data } = await supabase
+        .from('message_reactions')
+        .select(REACTION_SELECT)
+        .in('message_id', newIds);
+
+      if (data) {
+        setReactions((prev) => [
+          ...prev,
+          ...data.filter((r) => !prev.some((existing) => existing.id === r.id)),
+        ]);
+      }
+    };
+
+    loadReactions();
+  }, [messageIds]);
+
+  return useMemo(() => {
+    const byMessage = new Map<string, MessageReaction[]>();
+    reactions.forEach((reaction) => {
+      const list = byMessage.get(reaction.message_id) ?? [];
+      list.push(reaction);
+      byMessage.set(reaction.message_id, list);
+    });
+    return byMessage;
+  }, [reactions]);
+}
@@ -0,0 +1,30 @@
+import { createContext, useContext } from 'react';
+import { NotificationLevel, Room } from '../lib/supabase';
+import { NotificationGroup } from '../lib/notifications';
+
+export type DesktopPermission = NotificationPermission | 'unsupported';
+
+export interface NotificationContextType {
+  /** Inbox entries, one per message, newest first. */
+  groups: NotificationGroup[];
+  unreadCount: number;
+  desktopPermission: DesktopPermission;
+  requestDesktopPermission: () => Promise<void>;
+  markRead: (group: NotificationGroup) => Promise<void>;
+  markAllRead: () => Promise<void>;
+  dismiss: (group: NotificationGroup) => Promise<void>;
+  /** Opens the notification's room at the message it points to. */
+  open: (group: NotificationGroup) => void;
+  levelFor: (room: Pick<Room, 'id' | 'kind'>) => NotificationLevel;
+  setLevel: (roomId: string, level: NotificationLevel) => Promise<void>;
+}
+
+export const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
+
+export function useNotifications() {
+  const context = useContext(NotificationContext);
+  if (context === undefined) {
+    throw new Error('useNotifications must be used within a NotificationProvider');
+  }
+  return context;
+}
@@ -0,0 +1,55 @@
+import { useEffect, useState } from 'react';
+import { supabase, UserStatus } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { PresenceEntry } from '../lib/presence';
+
+/**
+ * The status of everyone with the app open, keyed by user id, from an
+ * app-wide Realtime Presence channel. Entries disappear as soon as a
+ * client's socket drops, so a closed or crashed tab never shows as online.
+ * Invisible users see others but aren't tracked.
+ */
+export function useOnlineUsers() {
+  const [statuses, setStatuses] = useState<Map<string, UserStatus>>(new Map());
+  const { user, profile } = useAuth();
+
+  const username = profile?.username;
+  const status = profile?.status ?? 'online';
+
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase.channel('online_users', {
+      config: { presence: { key: user.id } },
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<PresenceEntry>();
+        // A user with several tabs open has one presence per tab; keep the latest.
+        setStatuses(
+          new Map(
+            Object.entries(state)
+              .filter(([, presences]) => presences.length > 0)
+              .map(([userId, presences]) => [userId, presences[presences.length - 1].status])
+          )
+        );
+      })
+      .subscribe(async (subscribeStatus) => {
+        if (subscribeStatus !== 'SUBSCRIBED' || status === 'invisible') return;
+
+        await channel.track({
+          user_id: user.id,
+          username: username ?? 'Unknown',
+          status,
+          online_at: new Date().toISOString(),
+        });
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, username, status]);
+
+  return statuses;
+}
@@ -0,0 +1,22 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { outbox, OutboxEntry } from '../lib/outbox';
+
+/** Unsent and just-sent messages for a room, oldest first. */
+export function useOutbox(roomId: string) {
+  const [entries, setEntries] = useState<OutboxEntry[]>(() => outbox.entriesFor(roomId));
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!user) return;
+
+    const update = () => setEntries(outbox.entriesFor(roomId));
+    update();
+    const unsubscribe = outbox.subscribe(update);
+    outbox.start(user.id);
+
+    return unsubscribe;
+  }, [roomId, user]);
+
+  return entries;
+}
@@ -0,0 +1,149 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  loadReadReceipts,
+  TYPING_THROTTLE_MS,
+  TYPING_TIMEOUT_MS,
+  TypingUser,
+} from '../lib/roomActivity';
+
+/**
+ * Typing indicators and read receipts over the room's
+ * `room_activity_${roomId}` broadcast channel. Typing is throttled on the
+ * sending side and expires on the receiving side, so a client that vanishes
+ * mid-sentence is cleared without a "stopped" event. Receipts are loaded
+ * once from the server and then kept current by `read` broadcasts. The
+ * channel is private, so only users who can access the room get in.
+ */
+export function useRoomActivity(roomId: string, receiptsEnabled: boolean) {
+  const [typingUsers, setTypingUsers] = useState<TypingUser[]>([]);
+  const [readReceipts, setReadReceipts] = useState<Map<string, string>>(new Map());
+  const { user, profile } = useAuth();
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const lastTypingRef = useRef<{ threadId: string | null; sentAt: number } | null>(null);
+  const receiptsEnabledRef = useRef(receiptsEnabled);
+  receiptsEnabledRef.current = receiptsEnabled;
+  const profileRef = useRef(profile);
+  profileRef.current = profile;
+
+  useEffect(() => {
+    if (!user) return;
+
+    setTypingUsers([]);
+    lastTypingRef.current = null;
+
+    const channel = supabase.channel(`room_activity_${roomId}`, { config: { private: true } });
+    channel
+      .on('broadcast', { event: 'typing' }, ({ payload }) => {
+        // Our own other tabs are on the channel too.
+        if (payload.user_id === user.id) return;
+
+        setTypingUsers((prev) => [
+          ...prev.filter(
+            (t) => !(t.user_id === payload.user_id && t.thread_id === payload.thread_id)
+          ),
+          {
+            user_id: payload.user_id,
+            username: payload.username,
+            thread_id: payload.thread_id,
+            expires_at: Date.now() + TYPING_TIMEOUT_MS,
+          },
+        ]);
+      })
+      .on('broadcast', { event: 'stop_typing' }, ({ payload }) => {
+        setTypingUsers((prev) =>
+          prev.filter((t) => !(t.user_id === payload.user_id && t.thread_id === payload.thread_id))
+        );
+      })
+      .on('broadcast', { event: 'read' }, ({ payload }) => {
+        if (payload.user_id === user.id || !receiptsEnabledRef.current) return;
+
+        setReadReceipts((prev) => {
+          const current = prev.get(payload.user_id);
+          if (current && current >= payload.read_at) return prev;
+          return new Map(prev).set(payload.user_id, payload.read_at);
+        });
+      })
+      .subscribe();
+    channelRef.current = channel;
+
+    return () => {
+      channelRef.current = null;
+      supabase.removeChannel(channel);
+    };
+  }, [roomId, user]);
+
+  useEffect(() => {
+    if (typingUsers.length === 0) return;
+
+    const interval = setInterval(() => {
+      const now = Date.now();
+      setTypingUsers((prev) =>
+        prev.some((t) => t.expires_at <= now) ? prev.filter((t) => t.expires_at > now) : prev
+      );
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [typingUsers.length]);
+
+  useEffect(() => {
+    setReadReceipts(new Map());
+    if (!user || !receiptsEnabled) return;
+
+    let cancelled = false;
+    loadReadReceipts(roomId)
+      .then((receipts) => {
+        if (!cancelled) setReadReceipts(receipts);
+      })
+      .catch((error) => console.error('Error loading read receipts:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId, user, receiptsEnabled]);
+
+  /** Call on every edit; `typing` is false once the draft is sent or cleared. */
+  const notifyTyping = useCallback((threadId: string | null, typing: boolean) => {
+    const channel = channelRef.current;
+    const current = profileRef.current;
+    // Invisible users don't give themselves away by typing.
+    if (!channel || !current || current.status === 'invisible') return;
+
+    const last = lastTypingRef.current;
+    if (!typing) {
+      if (last?.threadId !== threadId) return;
+      lastTypingRef.current = null;
+      channel.send({
+        type: 'broadcast',
+        event: 'stop_typing',
+        payload: { user_id: current.id, thread_id: threadId },
+      });
+      return;
+    }
+
+    const now = Date.now();
+    if (last?.threadId === threadId && now - last.sentAt < TYPING_THROTTLE_MS) return;
+
+    lastTypingRef.current = { threadId, sentAt: now };
+    channel.send({
+      type: 'broadcast',
+      event: 'typing',
+      payload: { user_id: current.id, username: current.username, thread_id: threadId },
+    });
+  }, []);
+
+  const announceRead = useCallback((readAt: string) => {
+    const channel = channelRef.current;
+    const current = profileRef.current;
+    if (!channel || !current || !receiptsEnabledRef.current) return;
+
+    channel.send({
+      type: 'broadcast',
+      event: 'read',
+      payload: { user_id: current.id, read_at: readAt },
+    });
+  }, []);
+
+  return { typingUsers, notifyTyping, readReceipts, announceRead };
+}
@@ -0,0 +1,80 @@
+import { useEffect, useState } from 'react';
+import { supabase, PROFILE_COLUMNS, RoomParticipant } from '../lib/supabase';
+
+/**
+ * Everyone who belongs to a room, with their role. Heartbeat and role
+ * updates are merged in place; only new members trigger a reload, since
+ * their profile has to be fetched.
+ */
+export function useRoomMembers(roomId: string) {
+  const [members, setMembers] = useState<RoomParticipant[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setMembers([]);
+
+    const loadMembers = async () => {
+      const { data } = await supabase
+        .from('room_participants')
+        .select(`
+          *,
+          user_profiles (${PROFILE_COLUMNS})
+        `)
+        .eq('room_id', roomId)
+        .order('joined_at', { ascending: true });
+
+      if (data && !cancelled) {
+        setMembers(data);
+      }
+    };
+
+    loadMembers();
+
+    const channel = supabase
+      .channel(`room_${roomId}_members`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'room_participants',
+          filter: `room_id=eq.${roomId}`,
+        },
+        () => {
+          loadMembers();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'room_participants',
+          filter: `room_id=eq.${roomId}`,
+        },
+        (payload) => {
+          const updated = payload.new as RoomParticipant;
+          setMembers((prev) =>
+            prev.map((m) => (m.id === updated.id ? { ...m, ...updated } : m))
+          );
+        }
+      )
+      .on(
+        'postgres_changes',
+        // DELETE events can't be filtered and only carry the primary key.
+        { event: 'DELETE', schema: 'public', table: 'room_participants' },
+        (payload) => {
+          const removedId = (payload.old as Partial<RoomParticipant>).id;
+          setMembers((prev) => prev.filter((m) => m.id !== removedId));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+    };
+  }, [roomId]);
+
+  return members;
+}
@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { PresenceEntry } from '../lib/presence';
+
+/**
+ * Who currently has the room open, from Realtime Presence. Entries disappear
+ * as soon as a client's socket drops, so unlike `room_participants.is_online`
+ * this never goes stale. Invisible users see others but aren't tracked.
+ */
+export function useRoomPresence(roomId: string) {
+  const [entries, setEntries] = useState<PresenceEntry[]>([]);
+  const { user, profile } = useAuth();
+
+  const username = profile?.username;
+  const status = profile?.status ?? 'online';
+
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase.channel(`room_${roomId}_presence`, {
+      config: { private: true, presence: { key: user.id } },
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<PresenceEntry>();
+        // A user with several tabs open has one presence per tab; keep the latest.
+        setEntries(
+          Object.values(state)
+            .map((presences) => presences[presences.length - 1])
+            .filter(Boolean)
+        );
+      })
+      .subscribe(async (subscribeStatus) => {
+        if (subscribeStatus !== 'SUBSCRIBED' || status === 'invisible') return;
+
+        await channel.track({
+          user_id: user.id,
+          username: username ?? 'Unknown',
+          status,
+          online_at: new Date().toISOString(),
+        });
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [roomId, user, username, status]);
+
+  return entries;
+}
@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import { supabase, Message } from '../lib/supabase';
+import { MESSAGE_SELECT, loadMessage } from '../lib/messages';
+import { loadMentions, mentionedUserIds } from '../lib/mentions';
+
+const THREAD_REPLY_LIMIT = 200;
+
+/** The root message of a thread plus its replies, oldest first, kept live. */
+export function useThreadMessages(rootId: string) {
+  const [root, setRoot] = useState<Message | null>(null);
+  const [replies, setReplies] = useState<Message[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setRoot(null);
+    setReplies([]);
+
+    const loadThread = async () => {
+      const [rootMessage, { data }] = await Promise.all([
+        loadMessage(rootId),
+        supabase
+          .from('messages')
+          .select(MESSAGE_SELECT)
+          .eq('thread_id', rootId)
+          .order('created_at', { ascending: true })
+          .order('id', { ascending: true })
+          .limit(THREAD_REPLY_LIMIT),
+      ]);
+
+      if (cancelled) return;
+      setRoot(rootMessage);
+      if (data) {
+        setReplies(data);
+      }
+    };
+
+    const appendReply = async (messageId: string) => {
+      const data = await loadMessage(messageId);
+
+      if (data && !cancelled) {
+        setReplies((prev) =>
+          prev.some((m) => m.id === data.id) ? prev : [...prev, data]
+        );
+      }
+    };
+
+    const refreshMentions = async (messageId: string) => {
+      const mentions = await loadMentions(messageId);
+      if (cancelled) return;
+
+      const withMentions = (m: Message) =>
+        m.id === messageId ? { ...m, message_mentions: mentions } : m;
+      setReplies((prev) => prev.map(withMentions));
+      setRoot((prev) => (prev ? withMentions(prev) : prev));
+    };
+
+    const onEdited = (updated: Message) => {
+      if (mentionedUserIds(updated.content).length > 0) {
+        refreshMentions(updated.id).catch((error) =>
+          console.error('Error loading mentions:', error)
+        );
+      }
+    };
+
+    loadThread();
+
+    const channel = supabase
+      .channel(`thread_${rootId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'messages',
+          filter: `thread_id=eq.${rootId}`,
+        },
+        (payload) => {
+          appendReply((payload.new as Message).id);
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+          filter: `thread_id=eq.${rootId}`,
+        },
+        (payload) => {
+          const updated = payload.new as Message;
+          setReplies((prev) =>
+            prev.map((m) => (m.id === updated.id ? { ...m, ...updated } : m))
+          );
+          onEdited(updated);
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+          filter: `id=eq.${rootId}`,
+        },
+        (payload) => {
+          const updated = payload.new as Message;
+          setRoot((prev) => (prev ? { ...prev, ...updated } : prev));
+          onEdited(updated);
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'messages' },
+        (payload) => {
+          const deletedId = (payload.old as Partial<Message>).id;
+          setReplies((prev) => prev.filter((m) => m.id !== deletedId));
+          if (deletedId === rootId) {
+            setRoot(null);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+    };
+  }, [rootId]);
+
+  return { root, replies };
+}
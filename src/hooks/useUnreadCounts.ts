@@ -0,0 +1,82 @@
+import { useEffect, useRef, useState } from 'react';
+import { supabase, RoomUnreadCount } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { loadUnreadCounts } from '../lib/unread';
+
+const RELOAD_DELAY_MS = 500;
+
+/**
+ * Unread and mention counts for every room the current user belongs to,
+ * keyed by room id. Counting happens server-side, so new messages and read
+ * markers (from this or another tab) just schedule a reload; bursts of
+ * messages are coalesced into one.
+ */
+export function useUnreadCounts() {
+  const [counts, setCounts] = useState<Map<string, RoomUnreadCount>>(new Map());
+  const reloadTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+
+    const reload = async () => {
+      try {
+        const data = await loadUnreadCounts();
+        if (!cancelled) {
+          setCounts(new Map(data.map((count) => [count.room_id, count])));
+        }
+      } catch (error) {
+        console.error('Error loading unread counts:', error);
+      }
+    };
+
+    const scheduleReload = () => {
+      clearTimeout(reloadTimeoutRef.current);
+      reloadTimeoutRef.current = setTimeout(reload, RELOAD_DELAY_MS);
+    };
+
+    reload();
+
+    const channel = supabase
+      .channel(`unread_counts_${user.id}`)
+      .on(
+        'postgres_changes',
+        // Unfiltered, but RLS only delivers messages from rooms we can read.
+        { event: 'INSERT', schema: 'public', table: 'messages' },
+        (payload) => {
+          if (payload.new.user_id !== user.id) scheduleReload();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'room_read_states',
+          filter: `user_id=eq.${user.id}`,
+        },
+        scheduleReload
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'room_participants',
+          filter: `user_id=eq.${user.id}`,
+        },
+        scheduleReload
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(reloadTimeoutRef.current);
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
+  return counts;
+}
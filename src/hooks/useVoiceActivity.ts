@@ -0,0 +1,59 @@
+import { useEffect, useRef, useState } from 'react';
+import { watchVoiceActivity } from '../lib/audioLevel';
+
+export interface VoiceSource {
+  userId: string;
+  stream: MediaStream;
+}
+
+/** Ids of the users whose streams currently carry speech. */
+export function useVoiceActivity(sources: VoiceSource[]) {
+  const [speaking, setSpeaking] = useState<Set<string>>(new Set());
+  const watchersRef = useRef(new Map<string, { userId: string; stop: () => void }>());
+
+  useEffect(() => {
+    const watchers = watchersRef.current;
+    const wanted = new Map(
+      sources
+        .filter((source) => source.stream.getAudioTracks().length > 0)
+        .map((source) => [`${source.userId}:${source.stream.id}`, source])
+    );
+
+    const update = (userId: string, isSpeaking: boolean) =>
+      setSpeaking((prev) => {
+        if (prev.has(userId) === isSpeaking) return prev;
+        const next = new Set(prev);
+        if (isSpeaking) {
+          next.add(userId);
+        } else {
+          next.delete(userId);
+        }
+        return next;
+      });
+
+    watchers.forEach((watcher, key) => {
+      if (wanted.has(key)) return;
+      watcher.stop();
+      watchers.delete(key);
+      update(watcher.userId, false);
+    });
+
+    wanted.forEach((source, key) => {
+      if (watchers.has(key)) return;
+      watchers.set(key, {
+        userId: source.userId,
+        stop: watchVoiceActivity(source.stream, (isSpeaking) => update(source.userId, isSpeaking)),
+      });
+    });
+  }, [sources]);
+
+  useEffect(() => {
+    const watchers = watchersRef.current;
+    return () => {
+      watchers.forEach((watcher) => watcher.stop());
+      watchers.clear();
+    };
+  }, []);
+
+  return speaking;
+}
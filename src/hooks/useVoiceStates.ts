@@ -0,0 +1,80 @@
+import { useEffect, useState } from 'react';
+import { supabase, PROFILE_COLUMNS, VoiceState } from '../lib/supabase';
+import { PRESENCE_TIMEOUT_MS } from '../lib/presence';
+
+/** How often rows whose heartbeat has since stopped are dropped from the list. */
+const STALE_CHECK_INTERVAL_MS = 15_000;
+
+const isFresh = (voiceState: VoiceState, now: number) =>
+  Date.parse(voiceState.updated_at) > now - PRESENCE_TIMEOUT_MS;
+
+/**
+ * Live list of who is connected to voice, either in one room or (without a
+ * `roomId`) across every room for the sidebar roster.
+ */
+export function useVoiceStates(roomId?: string) {
+  const [voiceStates, setVoiceStates] = useState<VoiceState[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadVoiceStates = async () => {
+      let query = supabase
+        .from('voice_states')
+        .select(`
+          *,
+          user_profiles (${PROFILE_COLUMNS})
+        `)
+        // Skip rows whose heartbeat stopped but haven't been expired server-side yet.
+        .gt('updated_at', new Date(Date.now() - PRESENCE_TIMEOUT_MS).toISOString())
+        .order('joined_at', { ascending: true });
+
+      if (roomId) {
+        query = query.eq('room_id', roomId);
+      }
+
+      const { data } = await query;
+
+      if (data && !cancelled) {
+        setVoiceStates(data);
+      }
+    };
+
+    loadVoiceStates();
+
+    const channel = supabase
+      .channel(roomId ? `room_${roomId}_voice` : 'voice_states_channel')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'voice_states',
+          ...(roomId ? { filter: `room_id=eq.${roomId}` } : {}),
+        },
+        () => {
+          loadVoiceStates();
+        }
+      )
+      .subscribe();
+
+    // A client that dies stops bumping its row without sending a change, and
+    // the server only expires it once a minute.
+    const staleCheck = setInterval(() => {
+      const now = Date.now();
+      setVoiceStates((prev) =>
+        prev.every((voiceState) => isFresh(voiceState, now))
+          ? prev
+          : prev.filter((voiceState) => isFresh(voiceState, now))
+      );
+    }, STALE_CHECK_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(staleCheck);
+      supabase.removeChannel(channel);
+    };
+  }, [roomId]);
+
+  return voiceStates;
+}
@@ -0,0 +1,220 @@
+import { supabase, MessageAttachment } from './supabase';
+
+export const ATTACHMENT_BUCKET = 'attachments';
+export const MAX_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 10;
+
+// Keep in step with the bucket's `allowed_mime_types`. Nothing a browser
+// would execute, like HTML or SVG, belongs here.
+const ALLOWED_MIME_TYPES = new Set([
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'image/avif',
+  'video/mp4',
+  'video/webm',
+  'video/quicktime',
+  'audio/mpeg',
+  'audio/mp4',
+  'audio/ogg',
+  'audio/wav',
+  'audio/webm',
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'text/markdown',
+  'application/json',
+  'application/zip',
+  'application/gzip',
+  'application/x-tar',
+]);
+
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+/** Attachment metadata as passed to `send_message`, once the file is uploaded. */
+export type UploadedAttachment = Pick<
+  MessageAttachment,
+  'storage_path' | 'file_name' | 'mime_type' | 'size_bytes' | 'width' | 'height'
+>;
+
+/** Browsers report no type for many log and source files; treat those as text. */
+export const mimeTypeOf = (file: File) => file.type || 'text/plain';
+
+export function validateAttachment(file: File): string | null {
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name} is larger than ${formatBytes(MAX_ATTACHMENT_BYTES)}`;
+  }
+  if (!ALLOWED_MIME_TYPES.has(mimeTypeOf(file))) {
+    return `${file.name} is not a supported file type`;
+  }
+  return null;
+}
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export const isImage = (mimeType: string) => mimeType.startsWith('image/');
+export const isVideo = (mimeType: string) => mimeType.startsWith('video/');
+
+/** Images and video are previewed in place; every other file is only served as a download. */
+const isShownInline = (mimeType: string) => isImage(mimeType) || isVideo(mimeType);
+
+/** Object path; the first two segments are what the storage policies check. */
+export function attachmentPath(roomId: string, userId: string, fileName: string) {
+  const safeName = fileName.replace(/[^\w.-]+/g, '_').slice(-100) || 'file';
+  return `${roomId}/${userId}/${crypto.randomUUID()}-${safeName}`;
+}
+
+async function readDimensions(file: File): Promise<{ width: number; height: number } | null> {
+  const url = URL.createObjectURL(file);
+  try {
+    if (isImage(file.type)) {
+      const image = new Image();
+      image.src = url;
+      await image.decode();
+      return { width: image.naturalWidth, height: image.naturalHeight };
+    }
+    if (isVideo(file.type)) {
+      const video = document.createElement('video');
+      video.preload = 'metadata';
+      video.src = url;
+      await new Promise((resolve, reject) => {
+        video.onloadedmetadata = resolve;
+        video.onerror = reject;
+      });
+      return { width: video.videoWidth, height: video.videoHeight };
+    }
+  } catch {
+    // Unreadable media still uploads; it just renders without a reserved size.
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+  return null;
+}
+
+/**
+ * Uploads straight to the Storage REST endpoint with XHR, because the
+ * supabase-js client doesn't report upload progress.
+ */
+export async function uploadAttachment(
+  file: File,
+  path: string,
+  onProgress: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<UploadedAttachment> {
+  const { data } = await supabase.auth.getSession();
+  const accessToken = data.session?.access_token;
+  if (!accessToken) throw new Error('You must be signed in to upload files');
+
+  const mimeType = mimeTypeOf(file);
+  const dimensions = await readDimensions(file);
+
+  await new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const encodedPath = path.split('/').map(encodeURIComponent).join('/');
+    xhr.open(
+      'POST',
+      `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/object/${ATTACHMENT_BUCKET}/${encodedPath}`
+    );
+    xhr.setRequestHeader('Authorization', `Bearer ${accessToken}`);
+    xhr.setRequestHeader('apikey', import.meta.env.VITE_SUPABASE_ANON_KEY);
+    xhr.setRequestHeader('Content-Type', mimeType);
+    xhr.setRequestHeader('x-upsert', 'false');
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress(event.loaded / event.total);
+      }
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress(1);
+        resolve();
+      } else {
+        let message = `Upload failed (${xhr.status})`;
+        try {
+          message = JSON.parse(xhr.responseText).message ?? message;
+        } catch {
+          // Keep the status-based message.
+        }
+        reject(new Error(message));
+      }
+    };
+    xhr.onerror = () => reject(new Error('Upload failed: network error'));
+    xhr.onabort = () => reject(new DOMException('Upload cancelled', 'AbortError'));
+    signal?.addEventListener('abort', () => xhr.abort());
+
+    xhr.send(file);
+  });
+
+  return {
+    storage_path: path,
+    file_name: file.name,
+    mime_type: mimeType,
+    size_bytes: file.size,
+    width: dimensions?.width ?? null,
+    height: dimensions?.height ?? null,
+  };
+}
+
+export async function removeAttachmentFiles(paths: string[]) {
+  if (paths.length === 0) return;
+
+  const { error } = await supabase.storage.from(ATTACHMENT_BUCKET).remove(paths);
+  if (error) throw error;
+}
+
+const signedUrlCache = new Map<string, { url: string; expiresAt: number }>();
+
+async function signUrls(paths: string[], download: boolean, now: number) {
+  if (paths.length === 0) return;
+
+  const { data } = await supabase.storage
+    .from(ATTACHMENT_BUCKET)
+    .createSignedUrls(paths, SIGNED_URL_TTL_SECONDS, { download });
+
+  data?.forEach((entry) => {
+    if (entry.path && entry.signedUrl) {
+      signedUrlCache.set(entry.path, {
+        url: entry.signedUrl,
+        expiresAt: now + (SIGNED_URL_TTL_SECONDS - 60) * 1000,
+      });
+    }
+  });
+}
+
+/**
+ * Signed URLs for private attachments, cached until shortly before they
+ * expire. Anything not previewed inline is signed with
+ * `Content-Disposition: attachment`, so the browser saves it rather than
+ * rendering whatever the uploader declared it to be.
+ */
+export async function getAttachmentUrls(
+  attachments: Pick<MessageAttachment, 'storage_path' | 'mime_type'>[]
+) {
+  const now = Date.now();
+  const missing = attachments.filter(({ storage_path }) => {
+    const cached = signedUrlCache.get(storage_path);
+    return !cached || cached.expiresAt < now;
+  });
+  const pathsWhere = (inline: boolean) =>
+    missing
+      .filter(({ mime_type }) => isShownInline(mime_type) === inline)
+      .map(({ storage_path }) => storage_path);
+
+  await Promise.all([
+    signUrls(pathsWhere(true), false, now),
+    signUrls(pathsWhere(false), true, now),
+  ]);
+
+  const paths = attachments.map(({ storage_path }) => storage_path);
+  return new Map(
+    paths
+      .filter((path) => signedUrlCache.has(path))
+      .map((path) => [path, signedUrlCache.get(path)!.url])
+  );
+}
@@ -0,0 +1,94 @@
+/** Loudness above which a stream counts as someone speaking, on the 0–1 scale below. */
+const SPEAKING_THRESHOLD = 0.08;
+
+/** Speech is kept "on" through pauses this short, so the highlight doesn't flicker between words. */
+const SPEAKING_HOLD_MS = 400;
+
+const VOICE_POLL_INTERVAL_MS = 100;
+
+// Browsers cap how many audio contexts a page may open, and a call can have
+// a stream per participant, so every analyser and playback node shares one.
+let sharedContext: AudioContext | null = null;
+
+export function audioContext() {
+  sharedContext ??= new AudioContext();
+  // Contexts created before any user gesture start suspended.
+  if (sharedContext.state === 'suspended') {
+    void sharedContext.resume();
+  }
+  return sharedContext;
+}
+
+/** Reads the current loudness of `stream`'s audio, from 0 (silence) to 1. */
+function createLevelReader(stream: MediaStream) {
+  const context = audioContext();
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 512;
+  const source = context.createMediaStreamSource(stream);
+  source.connect(analyser);
+
+  const samples = new Float32Array(analyser.fftSize);
+  return {
+    read() {
+      analyser.getFloatTimeDomainData(samples);
+      let sum = 0;
+      for (const sample of samples) {
+        sum += sample * sample;
+      }
+      // Speech sits well below full scale, so stretch the RMS to fill the meter.
+      return Math.min(1, Math.sqrt(sum / samples.length) * 4);
+    },
+    close() {
+      source.disconnect();
+    },
+  };
+}
+
+/**
+ * Calls `onLevel` once per animation frame with the loudness of `stream`'s
+ * audio, from 0 (silence) to 1. Returns a function that stops monitoring.
+ */
+export function monitorAudioLevel(stream: MediaStream, onLevel: (level: number) => void) {
+  const reader = createLevelReader(stream);
+
+  let frame = 0;
+  const tick = () => {
+    onLevel(reader.read());
+    frame = requestAnimationFrame(tick);
+  };
+  tick();
+
+  return () => {
+    cancelAnimationFrame(frame);
+    reader.close();
+  };
+}
+
+/**
+ * Calls `onChange` whenever speech starts or stops on `stream`. Polls on a
+ * timer rather than animation frames so it keeps working in a background
+ * tab. Returns a function that stops watching.
+ */
+export function watchVoiceActivity(stream: MediaStream, onChange: (speaking: boolean) => void) {
+  const reader = createLevelReader(stream);
+
+  let speaking = false;
+  let lastVoiceAt = 0;
+  const interval = setInterval(() => {
+    const now = Date.now();
+    if (reader.read() >= SPEAKING_THRESHOLD) {
+      lastVoiceAt = now;
+    }
+
+    const next = now - lastVoiceAt < SPEAKING_HOLD_MS;
+    if (next !== speaking) {
+      speaking = next;
+      onChange(speaking);
+    }
+  }, VOICE_POLL_INTERVAL_MS);
+
+  return () => {
+    clearInterval(interval);
+    reader.close();
+  };
+}
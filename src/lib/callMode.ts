@@ -0,0 +1,51 @@
+import { BaseCallSession, CallSession } from './callSession';
+import { SfuCallSession } from './sfuSession';
+import { SupabaseSignalingTransport } from './signaling';
+
+export type CallMode = 'mesh' | 'sfu';
+
+/**
+ * JSON-RPC WebSocket endpoint of the media server, e.g.
+ * `ws://localhost:7000/ws` for the development container in `sfu/`. Calls
+ * stay full-mesh when it isn't set.
+ */
+const SFU_URL = import.meta.env.VITE_SFU_URL as string | undefined;
+
+/** Largest call kept in a full mesh; every peer uploads to every other. */
+export const MESH_MAX_PARTICIPANTS = 4;
+
+/**
+ * How long the participant count has to stay past the threshold before the
+ * call switches, so someone rejoining after a blip doesn't move everyone.
+ */
+export const CALL_MODE_SETTLE_MS = 3000;
+
+/**
+ * Every participant derives the mode from the same count of people in voice,
+ * so the whole call moves to the media server (and back) together.
+ */
+export const callModeFor = (participants: number): CallMode =>
+  SFU_URL && participants > MESH_MAX_PARTICIPANTS ? 'sfu' : 'mesh';
+
+export function createCallSession(
+  mode: CallMode,
+  userId: string,
+  roomId: string,
+  rtcConfig?: RTCConfiguration
+): BaseCallSession {
+  if (mode === 'sfu' && SFU_URL) {
+    return new SfuCallSession({
+      userId,
+      roomId,
+      url: SFU_URL,
+      transport: new SupabaseSignalingTransport(roomId, 'sfu'),
+      rtcConfig,
+    });
+  }
+
+  return new CallSession({
+    userId,
+    transport: new SupabaseSignalingTransport(roomId),
+    rtcConfig,
+  });
+}
@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CallSession } from './callSession';
+import { InMemorySignalingBus } from './signaling';
+import {
+  createFakePeerConnection,
+  fakeCamera,
+  fakeMicrophone,
+  FakePeerConnection,
+} from '../test/fakeWebRTC';
+
+// The bus never touches Supabase, but the transport module imports the client.
+vi.mock('./supabase', () => ({ supabase: {} }));
+
+let bus: InMemorySignalingBus;
+let sessions: CallSession[] = [];
+
+function joinCall(userId: string) {
+  const session = new CallSession({
+    userId,
+    transport: bus.createTransport(),
+    createPeerConnection: createFakePeerConnection,
+  });
+  sessions.push(session);
+  session.join(fakeMicrophone());
+  return session;
+}
+
+const peerConnection = (session: CallSession, remoteId: string) =>
+  session.getPeerConnection(remoteId) as unknown as FakePeerConnection | undefined;
+
+const remoteStreamFrom = (session: CallSession, remoteId: string) =>
+  session.getRemoteStreams().find((remote) => remote.userId === remoteId)?.stream;
+
+function expectConnected(a: CallSession, b: CallSession) {
+  expect(peerConnection(a, b.userId)?.connectionState).toBe('connected');
+  expect(peerConnection(b, a.userId)?.connectionState).toBe('connected');
+  expect(remoteStreamFrom(a, b.userId)?.getAudioTracks()).toHaveLength(1);
+  expect(remoteStreamFrom(b, a.userId)?.getAudioTracks()).toHaveLength(1);
+}
+
+describe('CallSession over the in-memory bus', () => {
+  afterEach(() => {
+    sessions.forEach((session) => session.destroy());
+    sessions = [];
+  });
+
+  // "alice" < "bob" < "carol", so each order puts polite and impolite peers
+  // on different sides of the first offer.
+  it.each([
+    ['alice', 'bob', 'carol'],
+    ['carol', 'bob', 'alice'],
+    ['bob', 'carol', 'alice'],
+  ])('connects everyone when %s, %s and %s join in turn', async (...userIds) => {
+    bus = new InMemorySignalingBus();
+
+    for (const userId of userIds) {
+      joinCall(userId);
+      await vi.waitFor(() => {
+        sessions.forEach((a, i) => sessions.slice(i + 1).forEach((b) => expectConnected(a, b)));
+      });
+    }
+  });
+
+  it('resolves glare by rolling back the polite peer', async () => {
+    bus = new InMemorySignalingBus();
+    const alice = joinCall('alice');
+    const bob = joinCall('bob');
+    await vi.waitFor(() => expectConnected(alice, bob));
+
+    // Both cameras start in the same tick, so both sides offer at once.
+    alice.addCameraTrack(fakeCamera());
+    bob.addCameraTrack(fakeCamera());
+
+    await vi.waitFor(() => {
+      expect(remoteStreamFrom(alice, 'bob')?.getVideoTracks()).toHaveLength(1);
+      expect(remoteStreamFrom(bob, 'alice')?.getVideoTracks()).toHaveLength(1);
+    });
+    expect(peerConnection(alice, 'bob')?.rollbacks).toBe(1);
+    expect(peerConnection(bob, 'alice')?.rollbacks).toBe(0);
+    expect(peerConnection(alice, 'bob')?.signalingState).toBe('stable');
+    expect(peerConnection(bob, 'alice')?.signalingState).toBe('stable');
+  });
+
+  it('renegotiates a camera added mid-call', async () => {
+    bus = new InMemorySignalingBus();
+    const alice = joinCall('alice');
+    const bob = joinCall('bob');
+    await vi.waitFor(() => expectConnected(alice, bob));
+    expect(remoteStreamFrom(bob, 'alice')?.getVideoTracks()).toHaveLength(0);
+
+    alice.addCameraTrack(fakeCamera());
+    await vi.waitFor(() => {
+      expect(remoteStreamFrom(bob, 'alice')?.getVideoTracks()).toHaveLength(1);
+    });
+
+    alice.removeCameraTrack();
+    await vi.waitFor(() => {
+      expect(remoteStreamFrom(bob, 'alice')?.getVideoTracks()).toHaveLength(0);
+    });
+    expect(remoteStreamFrom(bob, 'alice')?.getAudioTracks()).toHaveLength(1);
+  });
+});
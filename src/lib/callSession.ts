@@ -0,0 +1,622 @@
+import { SignalingTransport, SignalMessage } from './signaling';
+
+export interface CallState {
+  inCall: boolean;
+  muted: boolean;
+  /** Remote audio is silenced; deafening mutes the mic too. */
+  deafened: boolean;
+  videoOn: boolean;
+  screenSharing: boolean;
+}
+
+export interface RemoteStream {
+  userId: string;
+  stream: MediaStream;
+}
+
+export interface CallSessionEvents {
+  state: CallState;
+  'remote-streams': RemoteStream[];
+  'peer-joined': { userId: string };
+  'peer-left': { userId: string };
+  /** The session lost its connection and the call can't go on through it. */
+  error: Error;
+}
+
+type Listener<T> = (payload: T) => void;
+
+export interface CallSessionOptions {
+  userId: string;
+  transport: SignalingTransport;
+  rtcConfig?: RTCConfiguration;
+  /** Override to run sessions outside a browser, e.g. against a node WebRTC binding. */
+  createPeerConnection?: (config: RTCConfiguration) => RTCPeerConnection;
+}
+
+interface PeerState {
+  userId: string;
+  connection: RTCPeerConnection;
+  polite: boolean;
+  makingOffer: boolean;
+  ignoreOffer: boolean;
+  isSettingRemoteAnswerPending: boolean;
+  pendingCandidates: RTCIceCandidateInit[];
+}
+
+export const defaultRtcConfig: RTCConfiguration = {
+  iceServers: [
+    { urls: 'stun:stun.l.google.com:19302' },
+    { urls: 'stun:stun1.l.google.com:19302' },
+  ],
+};
+
+export interface CallConnection {
+  /** Stable key; the remote user's id in a mesh call. */
+  id: string;
+  /** The user at the other end, or null for a connection to a media server. */
+  userId: string | null;
+  label: string;
+  connection: RTCPeerConnection;
+}
+
+/** Local media handed from one session to the next when a call changes topology. */
+export interface CallMedia {
+  localStream: MediaStream;
+  screenStream: MediaStream | null;
+  /** Whether the mic is muted apart from any deafening. */
+  muted: boolean;
+  deafened: boolean;
+}
+
+const IDLE_STATE: CallState = {
+  inCall: false,
+  muted: false,
+  deafened: false,
+  videoOn: false,
+  screenSharing: false,
+};
+
+/**
+ * Local media, call state and events shared by every call topology.
+ * Subclasses decide how tracks reach the other participants.
+ */
+export abstract class BaseCallSession {
+  readonly userId: string;
+
+  protected rtcConfig: RTCConfiguration;
+  protected remoteStreams: RemoteStream[] = [];
+  protected state: CallState = IDLE_STATE;
+
+  private listeners = new Map<keyof CallSessionEvents, Set<Listener<never>>>();
+  private _localStream: MediaStream | null = null;
+  private _screenStream: MediaStream | null = null;
+  private mutedBeforeDeafen = false;
+
+  constructor(userId: string, rtcConfig: RTCConfiguration | undefined) {
+    this.userId = userId;
+    this.rtcConfig = rtcConfig ?? defaultRtcConfig;
+  }
+
+  get localStream() {
+    return this._localStream;
+  }
+
+  get screenStream() {
+    return this._screenStream;
+  }
+
+  getState(): CallState {
+    return this.state;
+  }
+
+  getRemoteStreams(): RemoteStream[] {
+    return this.remoteStreams;
+  }
+
+  /** The peer connections currently open, for diagnostics. */
+  abstract getConnections(): CallConnection[];
+
+  on<K extends keyof CallSessionEvents>(event: K, listener: Listener<CallSessionEvents[K]>) {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener);
+    return () => {
+      set.delete(listener);
+    };
+  }
+
+  /**
+   * Replaces the ICE servers, e.g. with renewed TURN credentials. New
+   * connections use the config as given; open ones pick up the new servers
+   * for their next ICE restart.
+   */
+  setRtcConfig(config: RTCConfiguration) {
+    this.rtcConfig = config;
+    this.getConnections().forEach(({ connection }) => {
+      try {
+        connection.setConfiguration({
+          ...connection.getConfiguration(),
+          iceServers: config.iceServers,
+        });
+      } catch (error) {
+        console.error('Error updating ICE servers:', error);
+      }
+    });
+  }
+
+  /** Joins the call with `stream` as the microphone (and optionally camera) stream. */
+  join(stream: MediaStream) {
+    if (this.state.inCall) return;
+
+    this._localStream = stream;
+    this.setState({
+      inCall: true,
+      muted: false,
+      deafened: false,
+      videoOn: stream.getVideoTracks().length > 0,
+      screenSharing: false,
+    });
+    this.connect();
+  }
+
+  leave() {
+    if (!this.state.inCall) return;
+
+    this.disconnect();
+
+    this._localStream?.getTracks().forEach((track) => track.stop());
+    this._localStream = null;
+    this._screenStream?.getTracks().forEach((track) => track.stop());
+    this._screenStream = null;
+
+    this.setRemoteStreams([]);
+    this.setState(IDLE_STATE);
+  }
+
+  /**
+   * Leaves the call without stopping the local tracks or emitting events,
+   * and returns them so another session can carry on with the same media.
+   */
+  handOff(): CallMedia | null {
+    const localStream = this._localStream;
+    if (!this.state.inCall || !localStream) return null;
+
+    const { muted, deafened } = this.state;
+    const media = {
+      localStream,
+      screenStream: this._screenStream,
+      muted: deafened ? this.mutedBeforeDeafen : muted,
+      deafened,
+    };
+    this.disconnect();
+    this._localStream = null;
+    this._screenStream = null;
+    this.remoteStreams = [];
+    this.state = IDLE_STATE;
+    return media;
+  }
+
+  /** Joins with media handed off by another session. */
+  resume(media: CallMedia) {
+    this.join(media.localStream);
+    if (media.screenStream) {
+      this.startScreenShare(media.screenStream);
+    }
+    this.setMuted(media.muted);
+    if (media.deafened) {
+      this.setDeafened(true);
+    }
+  }
+
+  /** Leaves the call and releases the signaling. The session can't be reused. */
+  destroy() {
+    this.leave();
+    this.close();
+    this.listeners.clear();
+  }
+
+  /** Unmuting while deafened undeafens as well, since talking blind is never intended. */
+  setMuted(muted: boolean) {
+    const audioTrack = this._localStream?.getAudioTracks()[0];
+    if (!audioTrack) return;
+
+    audioTrack.enabled = !muted;
+    this.setState(muted ? { muted } : { muted, deafened: false });
+  }
+
+  /**
+   * Deafening mutes the mic; undeafening puts it back the way it was. The
+   * remote audio itself is silenced by whatever plays it.
+   */
+  setDeafened(deafened: boolean) {
+    if (!this.state.inCall || deafened === this.state.deafened) return;
+
+    if (deafened) {
+      this.mutedBeforeDeafen = this.state.muted;
+    }
+    const muted = deafened || this.mutedBeforeDeafen;
+    const audioTrack = this._localStream?.getAudioTracks()[0];
+    if (audioTrack) {
+      audioTrack.enabled = !muted;
+    }
+    this.setState({ muted, deafened });
+  }
+
+  /** Switches microphones without renegotiating; the muted state carries over. */
+  replaceMicrophone(track: MediaStreamTrack) {
+    const stream = this._localStream;
+    const current = stream?.getAudioTracks()[0];
+    if (!stream || !current) {
+      track.stop();
+      return;
+    }
+
+    track.enabled = !this.state.muted;
+    this.swapTrack(stream, current, track);
+  }
+
+  /** Switches cameras without renegotiating. */
+  replaceCamera(track: MediaStreamTrack) {
+    const stream = this._localStream;
+    const current = stream?.getVideoTracks()[0];
+    if (!stream || !current) {
+      track.stop();
+      return;
+    }
+
+    this.swapTrack(stream, current, track);
+  }
+
+  addCameraTrack(track: MediaStreamTrack) {
+    const stream = this._localStream;
+    if (!stream) return;
+
+    stream.addTrack(track);
+    this.publishTrack(track, stream);
+    this.setState({ videoOn: true });
+  }
+
+  removeCameraTrack() {
+    const stream = this._localStream;
+    if (!stream) return;
+
+    stream.getVideoTracks().forEach((track) => {
+      this.unpublishTrack(track);
+      track.stop();
+      stream.removeTrack(track);
+    });
+    this.setState({ videoOn: false });
+  }
+
+  startScreenShare(stream: MediaStream) {
+    if (!this.state.inCall) return;
+
+    this.stopScreenShare();
+    this._screenStream = stream;
+    stream.getTracks().forEach((track) => this.publishTrack(track, stream));
+
+    const videoTrack = stream.getVideoTracks()[0];
+    if (videoTrack) {
+      videoTrack.addEventListener('ended', () => {
+        if (this._screenStream === stream) {
+          this.stopScreenShare();
+        }
+      });
+    }
+
+    this.setState({ screenSharing: true });
+  }
+
+  stopScreenShare() {
+    const stream = this._screenStream;
+    if (!stream) return;
+
+    stream.getTracks().forEach((track) => {
+      this.unpublishTrack(track);
+      track.stop();
+    });
+    this._screenStream = null;
+    this.setState({ screenSharing: false });
+  }
+
+  // `replaceTrack` keeps the sender and its transceiver, so the other side
+  // sees the new device without an offer/answer round.
+  private swapTrack(stream: MediaStream, current: MediaStreamTrack, next: MediaStreamTrack) {
+    stream.removeTrack(current);
+    stream.addTrack(next);
+    this.getConnections().forEach(({ connection }) => {
+      connection
+        .getSenders()
+        .filter((sender) => sender.track === current)
+        .forEach((sender) => {
+          sender.replaceTrack(next).catch((error) => console.error('Error switching device:', error));
+        });
+    });
+    current.stop();
+  }
+
+  /** Starts sending the local streams once the call has been joined. */
+  protected abstract connect(): void;
+  /** Closes every connection; the local tracks are left to the caller. */
+  protected abstract disconnect(): void;
+  protected abstract publishTrack(track: MediaStreamTrack, stream: MediaStream): void;
+  protected abstract unpublishTrack(track: MediaStreamTrack): void;
+  /** Releases the signaling transport. */
+  protected abstract close(): void;
+
+  protected emit<K extends keyof CallSessionEvents>(event: K, payload: CallSessionEvents[K]) {
+    const set = this.listeners.get(event) as Set<Listener<CallSessionEvents[K]>> | undefined;
+    set?.forEach((listener) => listener(payload));
+  }
+
+  protected setState(patch: Partial<CallState>) {
+    this.state = { ...this.state, ...patch };
+    this.emit('state', this.state);
+  }
+
+  protected setRemoteStreams(streams: RemoteStream[]) {
+    this.remoteStreams = streams;
+    this.emit('remote-streams', streams);
+  }
+
+  protected addRemoteStream(userId: string, stream: MediaStream) {
+    this.setRemoteStreams([
+      ...this.remoteStreams.filter((r) => r.stream.id !== stream.id),
+      { userId, stream },
+    ]);
+  }
+
+  protected removeRemoteStreams(userId: string, streamId?: string) {
+    this.setRemoteStreams(
+      this.remoteStreams.filter(
+        (r) => r.userId !== userId || (streamId !== undefined && r.stream.id !== streamId)
+      )
+    );
+  }
+}
+
+/**
+ * One user's side of a full-mesh call. Owns the peer connections and the
+ * perfect-negotiation signaling, and reports changes through typed events so
+ * UI code never has to reach into connection state.
+ */
+export class CallSession extends BaseCallSession {
+  private transport: SignalingTransport;
+  private createPeerConnection: (config: RTCConfiguration) => RTCPeerConnection;
+  private unsubscribeTransport: () => void;
+
+  private peers = new Map<string, PeerState>();
+
+  constructor(options: CallSessionOptions) {
+    super(options.userId, options.rtcConfig);
+    this.transport = options.transport;
+    this.createPeerConnection =
+      options.createPeerConnection ?? ((config) => new RTCPeerConnection(config));
+    this.unsubscribeTransport = this.transport.subscribe((message) => {
+      void this.handleSignal(message);
+    });
+  }
+
+  getPeerConnection(userId: string): RTCPeerConnection | undefined {
+    return this.peers.get(userId)?.connection;
+  }
+
+  getConnections(): CallConnection[] {
+    return Array.from(this.peers.values(), (peer) => ({
+      id: peer.userId,
+      userId: peer.userId,
+      label: 'Peer',
+      connection: peer.connection,
+    }));
+  }
+
+  // Peers already in the call open a connection to us and send the first
+  // offer, so it doesn't matter who joined first.
+  protected connect() {
+    this.transport.send({ type: 'join', from: this.userId });
+  }
+
+  protected disconnect() {
+    this.transport.send({ type: 'leave', from: this.userId });
+
+    this.peers.forEach((peer) => peer.connection.close());
+    this.peers.clear();
+  }
+
+  protected close() {
+    this.unsubscribeTransport();
+    this.transport.close();
+  }
+
+  // Adding or removing a sender fires `negotiationneeded` on each connection,
+  // which sends a fresh offer to that peer.
+  protected publishTrack(track: MediaStreamTrack, stream: MediaStream) {
+    this.peers.forEach((peer) => {
+      peer.connection.addTrack(track, stream);
+    });
+  }
+
+  protected unpublishTrack(track: MediaStreamTrack) {
+    this.peers.forEach((peer) => {
+      const sender = peer.connection.getSenders().find((s) => s.track === track);
+      if (sender) {
+        peer.connection.removeTrack(sender);
+      }
+    });
+  }
+
+  private async handleSignal(message: SignalMessage) {
+    if (message.from === this.userId || !this.state.inCall) return;
+
+    switch (message.type) {
+      case 'join':
+        if (!this.peers.has(message.from)) {
+          this.createPeer(message.from);
+        }
+        break;
+      case 'leave':
+        this.closePeer(message.from);
+        break;
+      case 'description':
+        if (message.to === this.userId) {
+          await this.handleDescription(message.from, message.description);
+        }
+        break;
+      case 'ice-candidate':
+        if (message.to === this.userId) {
+          await this.handleIceCandidate(message.from, message.candidate);
+        }
+        break;
+    }
+  }
+
+  private createPeer(remoteId: string): PeerState {
+    const pc = this.createPeerConnection(this.rtcConfig);
+    const peer: PeerState = {
+      userId: remoteId,
+      connection: pc,
+      // Both sides derive the same roles from the user ids, so exactly one
+      // of them backs off when their offers collide.
+      polite: this.userId < remoteId,
+      makingOffer: false,
+      ignoreOffer: false,
+      isSettingRemoteAnswerPending: false,
+      pendingCandidates: [],
+    };
+    this.peers.set(remoteId, peer);
+
+    pc.onnegotiationneeded = async () => {
+      try {
+        peer.makingOffer = true;
+        await pc.setLocalDescription();
+        this.transport.send({
+          type: 'description',
+          from: this.userId,
+          to: remoteId,
+          description: pc.localDescription!.toJSON(),
+        });
+      } catch (error) {
+        console.error('Error creating offer:', error);
+      } finally {
+        peer.makingOffer = false;
+      }
+    };
+
+    pc.onicecandidate = ({ candidate }) => {
+      if (candidate) {
+        this.transport.send({
+          type: 'ice-candidate',
+          from: this.userId,
+          to: remoteId,
+          candidate: candidate.toJSON(),
+        });
+      }
+    };
+
+    pc.ontrack = ({ track, streams }) => {
+      const stream = streams[0] ?? new MediaStream([track]);
+      stream.onremovetrack = () => {
+        if (stream.getTracks().length === 0) {
+          this.removeRemoteStreams(remoteId, stream.id);
+        } else {
+          this.addRemoteStream(remoteId, stream);
+        }
+      };
+      this.addRemoteStream(remoteId, stream);
+    };
+
+    pc.onconnectionstatechange = () => {
+      if (pc.connectionState === 'failed') {
+        pc.restartIce();
+      }
+    };
+
+    const localStream = this.localStream;
+    localStream?.getTracks().forEach((track) => pc.addTrack(track, localStream));
+
+    const screenStream = this.screenStream;
+    screenStream?.getTracks().forEach((track) => pc.addTrack(track, screenStream));
+
+    this.emit('peer-joined', { userId: remoteId });
+    return peer;
+  }
+
+  private closePeer(remoteId: string) {
+    const peer = this.peers.get(remoteId);
+    if (!peer) return;
+
+    peer.connection.close();
+    this.peers.delete(remoteId);
+    this.removeRemoteStreams(remoteId);
+    this.emit('peer-left', { userId: remoteId });
+  }
+
+  private async flushPendingCandidates(peer: PeerState) {
+    const candidates = peer.pendingCandidates.splice(0);
+    for (const candidate of candidates) {
+      try {
+        await peer.connection.addIceCandidate(candidate);
+      } catch (error) {
+        console.error('Error adding queued ICE candidate:', error);
+      }
+    }
+  }
+
+  private async handleDescription(from: string, description: RTCSessionDescriptionInit) {
+    const peer = this.peers.get(from) ?? this.createPeer(from);
+    const pc = peer.connection;
+
+    const readyForOffer =
+      !peer.makingOffer &&
+      (pc.signalingState === 'stable' || peer.isSettingRemoteAnswerPending);
+    const offerCollision = description.type === 'offer' && !readyForOffer;
+
+    peer.ignoreOffer = !peer.polite && offerCollision;
+    if (peer.ignoreOffer) return;
+
+    try {
+      if (offerCollision) {
+        await pc.setLocalDescription({ type: 'rollback' });
+      }
+
+      peer.isSettingRemoteAnswerPending = description.type === 'answer';
+      await pc.setRemoteDescription(description);
+      peer.isSettingRemoteAnswerPending = false;
+
+      await this.flushPendingCandidates(peer);
+
+      if (description.type === 'offer') {
+        await pc.setLocalDescription();
+        this.transport.send({
+          type: 'description',
+          from: this.userId,
+          to: from,
+          description: pc.localDescription!.toJSON(),
+        });
+      }
+    } catch (error) {
+      peer.isSettingRemoteAnswerPending = false;
+      console.error('Error handling session description:', error);
+    }
+  }
+
+  private async handleIceCandidate(from: string, candidate: RTCIceCandidateInit) {
+    const peer = this.peers.get(from) ?? this.createPeer(from);
+
+    if (!peer.connection.remoteDescription) {
+      peer.pendingCandidates.push(candidate);
+      return;
+    }
+
+    try {
+      await peer.connection.addIceCandidate(candidate);
+    } catch (error) {
+      if (!peer.ignoreOffer) {
+        console.error('Error adding ICE candidate:', error);
+      }
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import { supabase, PROFILE_COLUMNS, Room, UserProfile } from './supabase';
+
+/** Counting the current user, as enforced by `open_direct_message`. */
+export const MAX_GROUP_DM_MEMBERS = 10;
+
+export const DIRECT_MESSAGE_SELECT = `
+  *,
+  room_participants (
+    *,
+    user_profiles (${PROFILE_COLUMNS})
+  )
+`;
+
+export const isDirectMessage = (room: Pick<Room, 'kind'>) => room.kind !== 'public';
+
+/** Everyone in the conversation except the current user. */
+export function directMessageMembers(room: Room, currentUserId: string | undefined) {
+  return (room.room_participants ?? [])
+    .filter((participant) => participant.user_id !== currentUserId)
+    .flatMap((participant) => (participant.user_profiles ? [participant.user_profiles] : []));
+}
+
+/**
+ * DMs are named after the other members from the viewer's side; the stored
+ * name lists everyone and only serves as a fallback.
+ */
+export function roomDisplayName(room: Room, currentUserId: string | undefined) {
+  if (!isDirectMessage(room)) return room.name;
+
+  const members = directMessageMembers(room, currentUserId);
+  if (members.length === 0) return room.name;
+  return members
+    .map((member) => member.username)
+    .sort((a, b) => a.localeCompare(b))
+    .join(', ');
+}
+
+/** Returns the existing one-to-one DM with these users, or starts a new conversation. */
+export async function openDirectMessage(userIds: string[]) {
+  const { data, error } = await supabase.rpc('open_direct_message', {
+    p_user_ids: userIds,
+  });
+  if (error) throw error;
+
+  return loadDirectMessage((data as Room).id);
+}
+
+export async function loadDirectMessage(roomId: string) {
+  const { data, error } = await supabase
+    .from('rooms')
+    .select(DIRECT_MESSAGE_SELECT)
+    .eq('id', roomId)
+    .single();
+  if (error) throw error;
+
+  return data as Room;
+}
+
+export async function searchUsers(query: string, excludeIds: string[]) {
+  const term = query.trim().replace(/[%_\\]/g, (c) => `\\${c}`);
+  if (!term) return [];
+
+  let request = supabase
+    .from('user_profiles')
+    .select(PROFILE_COLUMNS)
+    .ilike('username', `%${term}%`)
+    .order('username')
+    .limit(20);
+
+  if (excludeIds.length > 0) {
+    request = request.not('id', 'in', `(${excludeIds.join(',')})`);
+  }
+
+  const { data, error } = await request;
+  if (error) throw error;
+
+  return data as UserProfile[];
+}
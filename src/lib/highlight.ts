@@ -0,0 +1,185 @@
+/**
+ * Lightweight syntax highlighting for fenced code blocks. It's a single-pass
+ * tokenizer covering comments, strings, numbers and keywords, which is enough
+ * to make pasted snippets and stack traces readable without a grammar library.
+ */
+
+export type TokenType = 'plain' | 'comment' | 'string' | 'number' | 'keyword';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+interface LanguageSpec {
+  keywords: string[];
+  lineComment?: string;
+  blockComment?: [string, string];
+}
+
+const C_LIKE_COMMENTS = { lineComment: '//', blockComment: ['/*', '*/'] as [string, string] };
+
+const JS_KEYWORDS = [
+  'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default',
+  'delete', 'do', 'else', 'enum', 'export', 'extends', 'false', 'finally', 'for', 'from',
+  'function', 'if', 'implements', 'import', 'in', 'instanceof', 'interface', 'let', 'new',
+  'null', 'of', 'private', 'protected', 'public', 'readonly', 'return', 'static', 'super',
+  'switch', 'this', 'throw', 'true', 'try', 'type', 'typeof', 'undefined', 'var', 'void',
+  'while', 'yield',
+];
+
+const LANGUAGES: Record<string, LanguageSpec> = {
+  javascript: { keywords: JS_KEYWORDS, ...C_LIKE_COMMENTS },
+  typescript: { keywords: JS_KEYWORDS, ...C_LIKE_COMMENTS },
+  python: {
+    keywords: [
+      'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del',
+      'elif', 'else', 'except', 'False', 'finally', 'for', 'from', 'global', 'if', 'import',
+      'in', 'is', 'lambda', 'None', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return',
+      'True', 'try', 'while', 'with', 'yield',
+    ],
+    lineComment: '#',
+  },
+  go: {
+    keywords: [
+      'break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'false',
+      'for', 'func', 'go', 'goto', 'if', 'import', 'interface', 'map', 'nil', 'package',
+      'range', 'return', 'select', 'struct', 'switch', 'true', 'type', 'var',
+    ],
+    ...C_LIKE_COMMENTS,
+  },
+  rust: {
+    keywords: [
+      'as', 'async', 'await', 'break', 'const', 'continue', 'crate', 'else', 'enum', 'false',
+      'fn', 'for', 'if', 'impl', 'in', 'let', 'loop', 'match', 'mod', 'move', 'mut', 'pub',
+      'ref', 'return', 'self', 'Self', 'static', 'struct', 'super', 'trait', 'true', 'type',
+      'unsafe', 'use', 'where', 'while',
+    ],
+    ...C_LIKE_COMMENTS,
+  },
+  java: {
+    keywords: [
+      'abstract', 'boolean', 'break', 'case', 'catch', 'class', 'continue', 'default', 'do',
+      'double', 'else', 'enum', 'extends', 'false', 'final', 'finally', 'float', 'for', 'if',
+      'implements', 'import', 'int', 'interface', 'long', 'new', 'null', 'package', 'private',
+      'protected', 'public', 'return', 'static', 'super', 'switch', 'this', 'throw', 'throws',
+      'true', 'try', 'void', 'while',
+    ],
+    ...C_LIKE_COMMENTS,
+  },
+  sql: {
+    keywords: [
+      'add', 'alter', 'and', 'as', 'asc', 'by', 'create', 'delete', 'desc', 'distinct', 'drop',
+      'exists', 'from', 'group', 'having', 'in', 'index', 'insert', 'into', 'is', 'join',
+      'left', 'like', 'limit', 'not', 'null', 'on', 'or', 'order', 'policy', 'primary',
+      'references', 'select', 'set', 'table', 'update', 'values', 'where', 'with',
+    ],
+    lineComment: '--',
+    blockComment: ['/*', '*/'],
+  },
+  bash: {
+    keywords: [
+      'case', 'do', 'done', 'echo', 'elif', 'else', 'esac', 'exit', 'export', 'fi', 'for',
+      'function', 'if', 'in', 'local', 'return', 'then', 'while',
+    ],
+    lineComment: '#',
+  },
+  json: { keywords: ['true', 'false', 'null'] },
+  yaml: { keywords: ['true', 'false', 'null', 'yes', 'no'], lineComment: '#' },
+};
+
+const ALIASES: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  py: 'python',
+  rs: 'rust',
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash',
+  yml: 'yaml',
+  psql: 'sql',
+  postgres: 'sql',
+};
+
+export function resolveLanguage(language: string): string | null {
+  const name = ALIASES[language] ?? language;
+  return LANGUAGES[name] ? name : null;
+}
+
+export function highlight(code: string, language: string): Token[] {
+  const name = resolveLanguage(language);
+  if (!name) return [{ type: 'plain', text: code }];
+
+  const spec = LANGUAGES[name];
+  const caseInsensitive = name === 'sql';
+  const keywords = new Set(
+    caseInsensitive ? spec.keywords.map((k) => k.toLowerCase()) : spec.keywords
+  );
+
+  const tokens: Token[] = [];
+  const push = (type: TokenType, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      tokens.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  while (i < code.length) {
+    const rest = code.slice(i);
+
+    if (spec.lineComment && rest.startsWith(spec.lineComment)) {
+      const end = code.indexOf('\n', i);
+      const stop = end === -1 ? code.length : end;
+      push('comment', code.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    if (spec.blockComment && rest.startsWith(spec.blockComment[0])) {
+      const end = code.indexOf(spec.blockComment[1], i + spec.blockComment[0].length);
+      const stop = end === -1 ? code.length : end + spec.blockComment[1].length;
+      push('comment', code.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    const quote = rest[0];
+    if (quote === '"' || quote === "'" || quote === '`') {
+      let j = i + 1;
+      while (j < code.length && code[j] !== quote) {
+        if (code[j] === '\\') j += 1;
+        else if (code[j] === '\n' && quote !== '`') break;
+        j += 1;
+      }
+      const stop = Math.min(j + 1, code.length);
+      push('string', code.slice(i, stop));
+      i = stop;
+      continue;
+    }
+
+    const number = rest.match(/^\d[\d_]*(\.\d+)?([eE][+-]?\d+)?/);
+    if (number && (i === 0 || !/\w/.test(code[i - 1]))) {
+      push('number', number[0]);
+      i += number[0].length;
+      continue;
+    }
+
+    const word = rest.match(/^[A-Za-z_$][\w$]*/);
+    if (word) {
+      const candidate = caseInsensitive ? word[0].toLowerCase() : word[0];
+      push(keywords.has(candidate) ? 'keyword' : 'plain', word[0]);
+      i += word[0].length;
+      continue;
+    }
+
+    push('plain', rest[0]);
+    i += 1;
+  }
+
+  return tokens;
+}
@@ -0,0 +1,151 @@
+import { supabase } from './supabase';
+import { defaultRtcConfig } from './callSession';
+
+/**
+ * ICE servers come from two optional sources, both set at build time:
+ *
+ * - `VITE_ICE_SERVERS`: a JSON array of `RTCIceServer`s that replaces the
+ *   public STUN defaults, e.g. to point at our own STUN server.
+ * - `VITE_TURN_CREDENTIALS_FUNCTION`: the name of the edge function that
+ *   issues short-lived TURN credentials (`turn-credentials`). Its servers are
+ *   added to the static ones and refetched shortly before they expire.
+ */
+const TURN_CREDENTIALS_FUNCTION = import.meta.env.VITE_TURN_CREDENTIALS_FUNCTION as
+  | string
+  | undefined;
+
+/** Credentials are renewed once they have less than this left. */
+const CREDENTIAL_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+export type CandidateType = 'host' | 'srflx' | 'prflx' | 'relay';
+
+export interface IceEndpoint {
+  type: CandidateType;
+  protocol: string;
+  address: string | null;
+  port: number | null;
+  /** Protocol between us and the TURN server, for relay candidates. */
+  relayProtocol: string | null;
+}
+
+export interface IceDiagnostics {
+  connectionState: RTCPeerConnectionState;
+  iceConnectionState: RTCIceConnectionState;
+  /** The candidate pair in use, or null until one has been selected. */
+  local: IceEndpoint | null;
+  remote: IceEndpoint | null;
+  roundTripTimeMs: number | null;
+}
+
+interface TurnCredentials {
+  iceServers: RTCIceServer[];
+  expiresAt: number;
+}
+
+let turnCredentials: TurnCredentials | null = null;
+
+function staticIceServers(): RTCIceServer[] {
+  const configured = import.meta.env.VITE_ICE_SERVERS as string | undefined;
+  if (!configured) return defaultRtcConfig.iceServers ?? [];
+
+  try {
+    return JSON.parse(configured) as RTCIceServer[];
+  } catch (error) {
+    console.error('Invalid VITE_ICE_SERVERS, using defaults:', error);
+    return defaultRtcConfig.iceServers ?? [];
+  }
+}
+
+async function loadTurnServers(): Promise<RTCIceServer[]> {
+  if (!TURN_CREDENTIALS_FUNCTION) return [];
+  if (turnCredentials && turnCredentials.expiresAt - Date.now() > CREDENTIAL_REFRESH_MARGIN_MS) {
+    return turnCredentials.iceServers;
+  }
+
+  const { data, error } = await supabase.functions.invoke(TURN_CREDENTIALS_FUNCTION);
+  if (error) throw error;
+
+  const { iceServers, ttl } = data as { iceServers: RTCIceServer[]; ttl: number };
+  turnCredentials = { iceServers, expiresAt: Date.now() + ttl * 1000 };
+  return iceServers;
+}
+
+/**
+ * The configuration for new peer connections. If TURN credentials can't be
+ * fetched the call still goes ahead on STUN alone, which works for most
+ * networks.
+ */
+export async function loadRtcConfig(): Promise<RTCConfiguration> {
+  let turnServers: RTCIceServer[] = [];
+  try {
+    turnServers = await loadTurnServers();
+  } catch (error) {
+    console.error('Error loading TURN credentials:', error);
+  }
+
+  return { ...defaultRtcConfig, iceServers: [...staticIceServers(), ...turnServers] };
+}
+
+/** Whether any configured server can relay media. */
+export const hasTurnServer = (config: RTCConfiguration) =>
+  (config.iceServers ?? []).some((server) =>
+    [server.urls].flat().some((url) => /^turns?:/.test(url))
+  );
+
+function toEndpoint(stats: RTCStats | undefined): IceEndpoint | null {
+  if (!stats) return null;
+
+  const candidate = stats as RTCStats & {
+    candidateType: CandidateType;
+    protocol: string;
+    address?: string;
+    port?: number;
+    relayProtocol?: string;
+  };
+  return {
+    type: candidate.candidateType,
+    protocol: candidate.protocol,
+    address: candidate.address ?? null,
+    port: candidate.port ?? null,
+    relayProtocol: candidate.relayProtocol ?? null,
+  };
+}
+
+/** Reads which candidate pair a connection settled on from its stats. */
+export async function loadIceDiagnostics(pc: RTCPeerConnection): Promise<IceDiagnostics> {
+  const report = await pc.getStats();
+
+  let pairId: string | undefined;
+  report.forEach((stats) => {
+    if (stats.type === 'transport' && stats.selectedCandidatePairId) {
+      pairId = stats.selectedCandidatePairId;
+    }
+  });
+  // Firefox doesn't report transports; it flags the pair itself instead.
+  if (!pairId) {
+    report.forEach((stats) => {
+      if (stats.type === 'candidate-pair' && stats.selected) {
+        pairId = stats.id;
+      }
+    });
+  }
+
+  const pair = pairId ? report.get(pairId) : undefined;
+  return {
+    connectionState: pc.connectionState,
+    iceConnectionState: pc.iceConnectionState,
+    local: toEndpoint(pair && report.get(pair.localCandidateId)),
+    remote: toEndpoint(pair && report.get(pair.remoteCandidateId)),
+    roundTripTimeMs:
+      typeof pair?.currentRoundTripTime === 'number'
+        ? Math.round(pair.currentRoundTripTime * 1000)
+        : null,
+  };
+}
+
+/** How media flows over a selected candidate pair. */
+export function describeRoute(local: IceEndpoint, remote: IceEndpoint) {
+  if (local.type === 'relay' || remote.type === 'relay') return 'Relayed through TURN';
+  if (local.type === 'host' && remote.type === 'host') return 'Direct on the local network';
+  return 'Direct through NAT';
+}
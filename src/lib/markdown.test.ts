@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { BlockNode, parseInline, parseMarkdown } from './markdown';
+
+const quoteDepth = (blocks: BlockNode[]): number =>
+  Math.max(0, ...blocks.map((block) => (block.type === 'quote' ? 1 + quoteDepth(block.children) : 0)));
+
+describe('parseMarkdown', () => {
+  it('caps quote nesting instead of recursing once per marker', () => {
+    const blocks = parseMarkdown('>'.repeat(8000) + 'x');
+
+    expect(quoteDepth(blocks)).toBe(8);
+  });
+
+  it('caps inline nesting', () => {
+    const markers = ['**', '~~', '||', '*'];
+    const open = Array.from({ length: 4000 }, (_, i) => markers[i % markers.length]);
+    const text = open.join('') + 'x' + [...open].reverse().join('');
+
+    expect(() => parseInline(text)).not.toThrow();
+  });
+});
+
+describe('bare links', () => {
+  const linkIn = (text: string) => parseInline(text).find((node) => node.type === 'link');
+
+  it('keeps a closing paren that matches one in the URL', () => {
+    expect(linkIn('see https://x.com/a_(b)')).toMatchObject({ href: 'https://x.com/a_(b)' });
+  });
+
+  it('drops sentence punctuation and unmatched parens', () => {
+    expect(linkIn('(see https://x.com/a_(b)).')).toMatchObject({ href: 'https://x.com/a_(b)' });
+    expect(linkIn('(https://x.com/a)')).toMatchObject({ href: 'https://x.com/a' });
+    expect(linkIn('at https://x.com/a, then')).toMatchObject({ href: 'https://x.com/a' });
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * A small markdown dialect for chat messages. Parsing produces a plain tree
+ * that `MarkdownContent` renders as React elements, so message text is only
+ * ever emitted as text nodes and raw HTML in a message stays literal.
+ *
+ * Blocks: paragraphs, ``` fenced code blocks ```, and > block quotes.
+ * Inline: **bold**, *italic* / _italic_, ~~strike~~, `code`, ||spoiler||,
+ * bare http(s) URLs, `<@user id>` / @everyone / @here mentions, and
+ * backslash escapes.
+ *
+ * Nesting is capped so a message can't parse or render into a tree deep
+ * enough to overflow the stack; markers past the cap stay literal.
+ */
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'break' }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; text: string }
+  | { type: 'mention'; userId: string }
+  | { type: 'groupMention'; group: 'everyone' | 'here' }
+  | { type: 'bold' | 'italic' | 'strike' | 'spoiler'; children: InlineNode[] };
+
+export type BlockNode =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'code'; language: string; code: string }
+  | { type: 'quote'; children: BlockNode[] };
+
+const FENCE = '```';
+const URL_PATTERN = /^https?:\/\/[^\s<>"]+/i;
+const TRAILING_PUNCTUATION = /[.,;:!?'"\]]/;
+const USER_MENTION = /^<@([0-9a-f-]{36})>/i;
+const GROUP_MENTION = /^@(everyone|here)(?!\w)/;
+const ESCAPABLE = '\\`*_~|>[]()#';
+const MAX_QUOTE_DEPTH = 8;
+const MAX_INLINE_DEPTH = 8;
+
+const DELIMITERS: { marker: string; type: 'bold' | 'italic' | 'strike' | 'spoiler' }[] = [
+  { marker: '**', type: 'bold' },
+  { marker: '||', type: 'spoiler' },
+  { marker: '~~', type: 'strike' },
+  { marker: '*', type: 'italic' },
+  { marker: '_', type: 'italic' },
+];
+
+export function parseMarkdown(source: string): BlockNode[] {
+  return parseBlocks(source.replace(/\r\n?/g, '\n').split('\n'));
+}
+
+function parseBlocks(lines: string[], depth = 0): BlockNode[] {
+  // Past the cap, `>` lines are ordinary text in the innermost quote.
+  const isQuoteLine = (line: string) => depth < MAX_QUOTE_DEPTH && line.startsWith('>');
+
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.trimStart().startsWith(FENCE)) {
+      const language = line.trimStart().slice(FENCE.length).trim().toLowerCase();
+      const code: string[] = [];
+      i += 1;
+      while (i < lines.length && !lines[i].trimStart().startsWith(FENCE)) {
+        code.push(lines[i]);
+        i += 1;
+      }
+      i += 1; // closing fence, or past the end for an unterminated block
+      blocks.push({ type: 'code', language, code: code.join('\n') });
+      continue;
+    }
+
+    if (isQuoteLine(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && isQuoteLine(lines[i])) {
+        quoted.push(lines[i].replace(/^> ?/, ''));
+        i += 1;
+      }
+      blocks.push({ type: 'quote', children: parseBlocks(quoted, depth + 1) });
+      continue;
+    }
+
+    if (line.trim() === '') {
+      i += 1;
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() !== '' &&
+      !isQuoteLine(lines[i]) &&
+      !lines[i].trimStart().startsWith(FENCE)
+    ) {
+      paragraph.push(lines[i]);
+      i += 1;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+}
+
+export function parseInline(text: string, depth = 0): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let buffer = '';
+  let i = 0;
+
+  const flush = () => {
+    if (buffer) {
+      nodes.push({ type: 'text', text: buffer });
+      buffer = '';
+    }
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+    const rest = text.slice(i);
+
+    if (char === '\\' && i + 1 < text.length && ESCAPABLE.includes(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '\n') {
+      flush();
+      nodes.push({ type: 'break' });
+      i += 1;
+      continue;
+    }
+
+    if (char === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end > i + 1) {
+        flush();
+        nodes.push({ type: 'code', text: text.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    const url = (char === 'h' || char === 'H') && isWordStart(text, i) ? rest.match(URL_PATTERN) : null;
+    if (url) {
+      const href = trimUrl(url[0]);
+      flush();
+      nodes.push({ type: 'link', href, text: href });
+      i += href.length;
+      continue;
+    }
+
+    const userMention = char === '<' ? rest.match(USER_MENTION) : null;
+    if (userMention) {
+      flush();
+      nodes.push({ type: 'mention', userId: userMention[1].toLowerCase() });
+      i += userMention[0].length;
+      continue;
+    }
+
+    const groupMention = char === '@' && isWordStart(text, i) ? rest.match(GROUP_MENTION) : null;
+    if (groupMention) {
+      flush();
+      nodes.push({ type: 'groupMention', group: groupMention[1] as 'everyone' | 'here' });
+      i += groupMention[0].length;
+      continue;
+    }
+
+    const delimiter =
+      depth < MAX_INLINE_DEPTH ? DELIMITERS.find(({ marker }) => rest.startsWith(marker)) : undefined;
+    if (delimiter) {
+      const { marker, type } = delimiter;
+      const end = findClosing(text, i + marker.length, marker);
+      const inner = end === -1 ? '' : text.slice(i + marker.length, end);
+      // `_` only delimits at word boundaries so snake_case stays intact.
+      const boundaryOk =
+        marker !== '_' || (isWordStart(text, i) && !/\w/.test(text[end + 1] ?? ''));
+
+      if (inner && !/^\s/.test(inner) && !/\s$/.test(inner) && boundaryOk) {
+        flush();
+        nodes.push({ type, children: parseInline(inner, depth + 1) });
+        i = end + marker.length;
+        continue;
+      }
+    }
+
+    buffer += char;
+    i += 1;
+  }
+
+  flush();
+  return nodes;
+}
+
+/**
+ * Drops punctuation that ends the sentence rather than the URL. A closing
+ * paren stays when it matches an opening one in the URL, as in
+ * `https://en.wikipedia.org/wiki/Mercury_(planet)`.
+ */
+function trimUrl(url: string) {
+  let end = url.length;
+  while (end > 0) {
+    const last = url[end - 1];
+    if (last === ')') {
+      const href = url.slice(0, end);
+      if (href.split(')').length <= href.split('(').length) break;
+    } else if (!TRAILING_PUNCTUATION.test(last)) {
+      break;
+    }
+    end -= 1;
+  }
+  return url.slice(0, end);
+}
+
+function isWordStart(text: string, index: number) {
+  return index === 0 || !/\w/.test(text[index - 1]);
+}
+
+/** Next unescaped `marker` at or after `from`, skipping over inline code spans. */
+function findClosing(text: string, from: number, marker: string) {
+  let i = from;
+  while (i < text.length) {
+    if (text[i] === '\\') {
+      i += 2;
+      continue;
+    }
+    if (text[i] === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end !== -1) {
+        i = end + 1;
+        continue;
+      }
+    }
+    if (text.startsWith(marker, i)) {
+      // `*` must not match the first half of a `**`.
+      if (marker.length === 1 && text[i + 1] === marker) {
+        i += 2;
+        continue;
+      }
+      return i;
+    }
+    i += 1;
+  }
+  return -1;
+}
+
+/**
+ * Plain-text rendering for previews where formatting isn't shown. Pass
+ * `mentionNames` (user id to username) to show mentioned users by name.
+ */
+export function stripMarkdown(source: string, mentionNames?: Map<string, string>) {
+  const inlineText = (nodes: InlineNode[]): string =>
+    nodes
+      .map((node) => {
+        switch (node.type) {
+          case 'text':
+          case 'code':
+          case 'link':
+            return node.text;
+          case 'break':
+            return ' ';
+          case 'mention':
+            return `@${mentionNames?.get(node.userId) ?? 'unknown-user'}`;
+          case 'groupMention':
+            return `@${node.group}`;
+          case 'spoiler':
+            return '▮▮▮';
+          default:
+            return inlineText(node.children);
+        }
+      })
+      .join('');
+
+  const blockText = (blocks: BlockNode[]): string =>
+    blocks
+      .map((block) => {
+        switch (block.type) {
+          case 'paragraph':
+            return inlineText(block.children);
+          case 'code':
+            return block.code.replace(/\s+/g, ' ');
+          case 'quote':
+            return blockText(block.children);
+        }
+      })
+      .join(' ');
+
+  return blockText(parseMarkdown(source)).trim();
+}
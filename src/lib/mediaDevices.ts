@@ -0,0 +1,72 @@
+export interface DevicePreferences {
+  audioInput: string | null;
+  videoInput: string | null;
+  audioOutput: string | null;
+}
+
+const STORAGE_KEY = 'media-device-preferences';
+
+const NO_PREFERENCES: DevicePreferences = { audioInput: null, videoInput: null, audioOutput: null };
+
+/** Whether the browser can route call audio, which plays through Web Audio, to a chosen output device. */
+export const supportsOutputSelection =
+  typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+
+/** Device choices are remembered per browser, since device ids are too. */
+export function loadDevicePreferences(): DevicePreferences {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...NO_PREFERENCES, ...JSON.parse(stored) } : NO_PREFERENCES;
+  } catch {
+    return NO_PREFERENCES;
+  }
+}
+
+export function saveDevicePreferences(preferences: DevicePreferences) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.error('Error saving device preferences:', error);
+  }
+}
+
+/** Labels are empty until the page has been granted access to a device. */
+export async function listMediaDevices() {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return {
+    audioInputs: devices.filter((d) => d.kind === 'audioinput'),
+    videoInputs: devices.filter((d) => d.kind === 'videoinput'),
+    audioOutputs: devices.filter((d) => d.kind === 'audiooutput'),
+  };
+}
+
+export type MediaDeviceLists = Awaited<ReturnType<typeof listMediaDevices>>;
+
+// A remembered device that has been unplugged makes an exact constraint fail;
+// the default device is better than no device.
+async function openDevice(
+  kind: 'audio' | 'video',
+  deviceId: string | null,
+  constraints: MediaTrackConstraints = {}
+) {
+  if (deviceId) {
+    try {
+      return await navigator.mediaDevices.getUserMedia({
+        [kind]: { ...constraints, deviceId: { exact: deviceId } },
+      });
+    } catch (error) {
+      const name = (error as DOMException).name;
+      if (name !== 'OverconstrainedError' && name !== 'NotFoundError') throw error;
+    }
+  }
+  return navigator.mediaDevices.getUserMedia({ [kind]: constraints });
+}
+
+export const openMicrophone = (deviceId: string | null, constraints?: MediaTrackConstraints) =>
+  openDevice('audio', deviceId, constraints);
+
+export const openCamera = (deviceId: string | null) => openDevice('video', deviceId);
+
+/** The id of the device a live track is capturing from. */
+export const trackDeviceId = (track: MediaStreamTrack | undefined) =>
+  track?.getSettings().deviceId ?? null;
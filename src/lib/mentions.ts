@@ -0,0 +1,99 @@
+import { supabase, MessageMention, MessagePreview } from './supabase';
+
+/**
+ * User mentions are stored as `<@user id>` tokens so they survive renames;
+ * the composer shows `@username` and converts on send. `@everyone` and
+ * `@here` are stored as written.
+ */
+export interface MentionCandidate {
+  id: string;
+  username: string;
+  description?: string;
+}
+
+export type GroupMention = 'everyone' | 'here';
+
+export const GROUP_MENTIONS: MentionCandidate[] = [
+  { id: 'everyone', username: 'everyone', description: 'Notify every member of this room' },
+  { id: 'here', username: 'here', description: 'Notify members who are online' },
+];
+
+export const MAX_MENTION_SUGGESTIONS = 8;
+
+const USER_MENTION_PATTERN = /<@([0-9a-f-]{36})>/gi;
+const GROUP_MENTION_PATTERN = /(^|\W)@(everyone|here)(?!\w)/;
+
+export const isGroupMention = (id: string): id is GroupMention =>
+  id === 'everyone' || id === 'here';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** The `@query` being typed right before the caret, if any. */
+export function findMentionQuery(text: string, caret: number) {
+  const match = /(^|\s)@([\w.-]*)$/.exec(text.slice(0, caret));
+  if (!match) return null;
+  return { start: caret - match[2].length - 1, query: match[2] };
+}
+
+/** Rewrites `@username` for each known user into a `<@user id>` token. */
+export function encodeMentions(content: string, candidates: MentionCandidate[]) {
+  // Longest first so `@ann` doesn't claim the start of `@anna`.
+  return [...candidates]
+    .filter((candidate) => !isGroupMention(candidate.id))
+    .sort((a, b) => b.username.length - a.username.length)
+    .reduce(
+      (text, candidate) =>
+        text.replace(
+          new RegExp(`(^|[^\\w<])@${escapeRegExp(candidate.username)}(?![\\w.-])`, 'gi'),
+          `$1<@${candidate.id}>`
+        ),
+      content
+    );
+}
+
+/** Turns `<@user id>` tokens back into `@username`, e.g. for editing or previews. */
+export function decodeMentions(content: string, names: Map<string, string>) {
+  return content.replace(
+    USER_MENTION_PATTERN,
+    (_, userId: string) => `@${names.get(userId.toLowerCase()) ?? 'unknown-user'}`
+  );
+}
+
+export function mentionedUserIds(content: string) {
+  return Array.from(content.matchAll(USER_MENTION_PATTERN), (match) => match[1].toLowerCase());
+}
+
+/** Mention rows for the candidates `content` mentions, as the server would store them. */
+export function mentionsFor(content: string, candidates: MentionCandidate[]): MessageMention[] {
+  const ids = new Set(mentionedUserIds(content));
+  return candidates
+    .filter((candidate) => ids.has(candidate.id))
+    .map((candidate) => ({ user_id: candidate.id, user_profiles: { username: candidate.username } }));
+}
+
+/** Usernames for the users a message mentions, keyed by user id. */
+export function mentionNames(message: Pick<MessagePreview, 'message_mentions'>) {
+  return new Map(
+    (message.message_mentions ?? []).flatMap((mention) =>
+      mention.user_profiles ? [[mention.user_id, mention.user_profiles.username] as const] : []
+    )
+  );
+}
+
+/**
+ * Realtime updates carry the edited row without its mentions, so an edit
+ * that mentions someone new needs their usernames fetched.
+ */
+export async function loadMentions(messageId: string) {
+  const { data, error } = await supabase
+    .from('message_mentions')
+    .select('user_id, user_profiles (username)')
+    .eq('message_id', messageId);
+
+  if (error) throw error;
+  return data as unknown as MessageMention[];
+}
+
+export function mentionsUser(content: string, userId: string) {
+  return mentionedUserIds(content).includes(userId) || GROUP_MENTION_PATTERN.test(content);
+}
@@ -0,0 +1,129 @@
+import { supabase, Message, MessagePreview, PROFILE_COLUMNS } from './supabase';
+import { UploadedAttachment, removeAttachmentFiles } from './attachments';
+
+export const MESSAGE_SELECT = `
+  *,
+  user_profiles (${PROFILE_COLUMNS}),
+  message_attachments (*),
+  message_mentions (user_id, user_profiles (username)),
+  parent:messages!parent_id (
+    id,
+    user_id,
+    content,
+    deleted_at,
+    user_profiles (username),
+    message_mentions (user_id, user_profiles (username))
+  )
+`;
+
+/** PostgREST filter for rows strictly before `message` in (created_at, id) order. */
+export const olderThan = (message: Pick<Message, 'created_at' | 'id'>) =>
+  `created_at.lt."${message.created_at}",` +
+  `and(created_at.eq."${message.created_at}",id.lt.${message.id})`;
+
+/** PostgREST filter for rows strictly after `message` in (created_at, id) order. */
+export const newerThan = (message: Pick<Message, 'created_at' | 'id'>) =>
+  `created_at.gt."${message.created_at}",` +
+  `and(created_at.eq."${message.created_at}",id.gt.${message.id})`;
+
+export const previewOf = (message: Message): MessagePreview => ({
+  id: message.id,
+  user_id: message.user_id,
+  content: message.content,
+  deleted_at: message.deleted_at,
+  user_profiles: message.user_profiles,
+  message_mentions: message.message_mentions,
+});
+
+/** A message to bring into view, in the main feed or (with `threadId`) its thread. */
+export interface MessageTarget {
+  roomId: string;
+  messageId: string;
+  threadId: string | null;
+}
+
+interface NewMessage {
+  /** Chosen by the client so a retried send can't create a duplicate. */
+  id?: string;
+  roomId: string;
+  content: string;
+  parentId?: string | null;
+  threadId?: string | null;
+  attachments?: UploadedAttachment[];
+}
+
+/** Mirrors the `messages_content_length` check. */
+export const MAX_MESSAGE_LENGTH = 4000;
+
+export function validateMessageContent(content: string): string | null {
+  // `char_length` counts code points, not UTF-16 units.
+  if ([...content].length > MAX_MESSAGE_LENGTH) {
+    return `Messages can be at most ${MAX_MESSAGE_LENGTH.toLocaleString()} characters`;
+  }
+  return null;
+}
+
+// Goes through `send_message` so the message and its attachments land in one
+// transaction; the author is always the signed-in user.
+export async function sendMessage({
+  id,
+  roomId,
+  content,
+  parentId,
+  threadId,
+  attachments,
+}: NewMessage) {
+  const { error } = await supabase.rpc('send_message', {
+    p_room_id: roomId,
+    p_content: content,
+    p_parent_id: parentId ?? null,
+    p_thread_id: threadId ?? null,
+    p_attachments: attachments ?? [],
+    p_id: id ?? null,
+  });
+
+  if (error) throw error;
+}
+
+export async function editMessage(messageId: string, content: string) {
+  const { error } = await supabase
+    .from('messages')
+    .update({ content })
+    .eq('id', messageId);
+
+  if (error) throw error;
+}
+
+// Soft delete: the trigger blanks the content and keeps a tombstone row. The
+// files are only removed once that has gone through, so a failed delete never
+// leaves a message whose attachments are missing.
+export async function deleteMessage(message: Pick<Message, 'id' | 'message_attachments'>) {
+  const { data, error } = await supabase
+    .from('messages')
+    .update({ deleted_at: new Date().toISOString() })
+    .eq('id', message.id)
+    .select('id');
+
+  if (error) throw error;
+  // RLS filters out rows we may not change instead of raising an error.
+  if (!data?.length) throw new Error('You can no longer delete this message');
+
+  try {
+    await removeAttachmentFiles(
+      (message.message_attachments ?? []).map((attachment) => attachment.storage_path)
+    );
+  } catch (err) {
+    // The message is already gone; at worst its files are left behind.
+    console.error('Error removing attachment files:', err);
+  }
+}
+
+export async function loadMessage(messageId: string) {
+  const { data } = await supabase
+    .from('messages')
+    .select(MESSAGE_SELECT)
+    .eq('id', messageId)
+    .maybeSingle();
+
+  return data as Message | null;
+}
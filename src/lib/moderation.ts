@@ -0,0 +1,139 @@
+import { supabase, ModerationAction, ModerationLogEntry, RoomBan } from './supabase';
+
+export const TIMEOUT_DURATIONS = [
+  { label: '60 seconds', seconds: 60 },
+  { label: '5 minutes', seconds: 5 * 60 },
+  { label: '10 minutes', seconds: 10 * 60 },
+  { label: '1 hour', seconds: 60 * 60 },
+  { label: '1 day', seconds: 24 * 60 * 60 },
+  { label: '1 week', seconds: 7 * 24 * 60 * 60 },
+];
+
+export const SLOW_MODE_OPTIONS = [
+  { label: 'Off', seconds: 0 },
+  { label: '5 seconds', seconds: 5 },
+  { label: '10 seconds', seconds: 10 },
+  { label: '30 seconds', seconds: 30 },
+  { label: '1 minute', seconds: 60 },
+  { label: '5 minutes', seconds: 5 * 60 },
+  { label: '15 minutes', seconds: 15 * 60 },
+  { label: '1 hour', seconds: 60 * 60 },
+];
+
+export const MODERATION_ACTIONS: Record<ModerationAction, string> = {
+  kick: 'kicked',
+  ban: 'banned',
+  unban: 'unbanned',
+  timeout: 'timed out',
+  clear_timeout: 'removed the timeout of',
+  slow_mode: 'changed slow mode',
+  delete_message: 'deleted a message from',
+};
+
+const MODERATION_LOG_SELECT = `
+  *,
+  actor:user_profiles!actor_id (username),
+  target:user_profiles!target_user_id (username)
+`;
+
+export function formatDuration(seconds: number) {
+  if (seconds <= 0) return 'off';
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 60 * 60) return `${Math.round(seconds / 60)}m`;
+  if (seconds < 24 * 60 * 60) return `${Math.round(seconds / 3600)}h`;
+  return `${Math.round(seconds / 86400)}d`;
+}
+
+export const isTimedOut = (timedOutUntil: string | null | undefined) =>
+  !!timedOutUntil && new Date(timedOutUntil).getTime() > Date.now();
+
+export async function kickMember(roomId: string, userId: string, reason = '') {
+  const { error } = await supabase.rpc('kick_room_member', {
+    p_room_id: roomId,
+    p_user_id: userId,
+    p_reason: reason,
+  });
+
+  if (error) throw error;
+}
+
+export async function banMember(roomId: string, userId: string, reason = '') {
+  const { error } = await supabase.rpc('ban_room_member', {
+    p_room_id: roomId,
+    p_user_id: userId,
+    p_reason: reason,
+  });
+
+  if (error) throw error;
+}
+
+export async function unbanMember(roomId: string, userId: string) {
+  const { error } = await supabase.rpc('unban_room_member', {
+    p_room_id: roomId,
+    p_user_id: userId,
+  });
+
+  if (error) throw error;
+}
+
+/** A duration of 0 lifts the timeout. */
+export async function timeoutMember(roomId: string, userId: string, durationSeconds: number, reason = '') {
+  const { error } = await supabase.rpc('timeout_room_member', {
+    p_room_id: roomId,
+    p_user_id: userId,
+    p_duration_seconds: durationSeconds,
+    p_reason: reason,
+  });
+
+  if (error) throw error;
+}
+
+export async function setSlowMode(roomId: string, seconds: number) {
+  const { error } = await supabase
+    .from('rooms')
+    .update({ slow_mode_seconds: seconds })
+    .eq('id', roomId);
+
+  if (error) throw error;
+}
+
+export async function loadBans(roomId: string) {
+  const { data, error } = await supabase
+    .from('room_bans')
+    .select(`
+      *,
+      user_profiles (username)
+    `)
+    .eq('room_id', roomId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data as RoomBan[];
+}
+
+export async function loadModerationLog(roomId: string, limit = 100) {
+  const { data, error } = await supabase
+    .from('moderation_log')
+    .select(MODERATION_LOG_SELECT)
+    .eq('room_id', roomId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data as ModerationLogEntry[];
+}
+
+export function describeLogEntry(entry: ModerationLogEntry) {
+  const actor = entry.actor?.username || 'Someone';
+  const verb = MODERATION_ACTIONS[entry.action];
+
+  if (entry.action === 'slow_mode') {
+    return `${actor} set slow mode to ${formatDuration(Number(entry.details.seconds ?? 0))}`;
+  }
+
+  const target = entry.target?.username || 'a former user';
+  if (entry.action === 'timeout') {
+    return `${actor} ${verb} ${target} for ${formatDuration(Number(entry.details.duration_seconds ?? 0))}`;
+  }
+  return `${actor} ${verb} ${target}`;
+}
@@ -0,0 +1,176 @@
+import {
+  supabase,
+  NotificationKind,
+  NotificationLevel,
+  PROFILE_COLUMNS,
+  Room,
+  UserNotification,
+} from './supabase';
+import { isDirectMessage, roomDisplayName } from './directMessages';
+import { stripMarkdown } from './markdown';
+import { mentionNames } from './mentions';
+
+export const NOTIFICATION_LEVELS: Record<NotificationLevel, { label: string; description: string }> = {
+  all: { label: 'All messages', description: 'Alert me about every new message' },
+  mentions: { label: 'Only @mentions', description: 'Alert me about mentions and replies' },
+  muted: { label: 'Nothing', description: 'Mute this room' },
+};
+
+// When several notifications point at one message, the inbox shows the most specific.
+const KIND_PRIORITY: NotificationKind[] = ['mention', 'reply', 'direct_message'];
+
+const NOTIFICATION_PAGE_SIZE = 50;
+
+const NOTIFICATION_SELECT = `
+  *,
+  actor:user_profiles!actor_id (username),
+  room:rooms (
+    *,
+    room_participants (
+      *,
+      user_profiles (${PROFILE_COLUMNS})
+    )
+  ),
+  message:messages (
+    id,
+    user_id,
+    content,
+    deleted_at,
+    thread_id,
+    message_mentions (user_id, user_profiles (username))
+  )
+`;
+
+export const defaultNotificationLevel = (room: Pick<Room, 'kind'>): NotificationLevel =>
+  isDirectMessage(room) ? 'all' : 'mentions';
+
+export async function loadNotifications() {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select(NOTIFICATION_SELECT)
+    .order('created_at', { ascending: false })
+    .limit(NOTIFICATION_PAGE_SIZE);
+
+  if (error) throw error;
+  return data as UserNotification[];
+}
+
+export async function loadNotification(notificationId: string) {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select(NOTIFICATION_SELECT)
+    .eq('id', notificationId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as UserNotification | null;
+}
+
+export async function markNotificationsRead(notificationIds: string[]) {
+  if (notificationIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .in('id', notificationIds)
+    .is('read_at', null);
+
+  if (error) throw error;
+}
+
+export async function markAllNotificationsRead(userId: string) {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('read_at', null);
+
+  if (error) throw error;
+}
+
+export async function dismissNotifications(notificationIds: string[]) {
+  const { error } = await supabase.from('notifications').delete().in('id', notificationIds);
+
+  if (error) throw error;
+}
+
+export async function loadNotificationLevels() {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('room_id, level');
+
+  if (error) throw error;
+  return new Map((data ?? []).map((row) => [row.room_id as string, row.level as NotificationLevel]));
+}
+
+export async function setNotificationLevel(userId: string, roomId: string, level: NotificationLevel) {
+  const { error } = await supabase
+    .from('notification_preferences')
+    .upsert(
+      { user_id: userId, room_id: roomId, level, updated_at: new Date().toISOString() },
+      { onConflict: 'user_id,room_id' }
+    );
+
+  if (error) throw error;
+}
+
+/** A message can notify one user several ways; each group is shown as one entry. */
+export interface NotificationGroup {
+  notification: UserNotification;
+  ids: string[];
+  unread: boolean;
+}
+
+/** Collapses notifications for the same message, newest first. */
+export function groupNotifications(notifications: UserNotification[]) {
+  const groups = new Map<string, NotificationGroup>();
+
+  notifications.forEach((notification) => {
+    const group = groups.get(notification.message_id);
+    if (!group) {
+      groups.set(notification.message_id, {
+        notification,
+        ids: [notification.id],
+        unread: !notification.read_at,
+      });
+      return;
+    }
+
+    group.ids.push(notification.id);
+    group.unread = group.unread || !notification.read_at;
+    if (KIND_PRIORITY.indexOf(notification.kind) < KIND_PRIORITY.indexOf(group.notification.kind)) {
+      group.notification = notification;
+    }
+  });
+
+  return Array.from(groups.values()).sort((a, b) =>
+    b.notification.created_at.localeCompare(a.notification.created_at)
+  );
+}
+
+export function describeNotification(notification: UserNotification, currentUserId?: string) {
+  const actor = notification.actor?.username || 'Someone';
+  const where = notification.room
+    ? isDirectMessage(notification.room)
+      ? `@${roomDisplayName(notification.room, currentUserId)}`
+      : `#${notification.room.name}`
+    : 'a room';
+
+  switch (notification.kind) {
+    case 'mention':
+      return `${actor} mentioned you in ${where}`;
+    case 'reply':
+      return `${actor} replied to you in ${where}`;
+    case 'direct_message':
+      return notification.room?.kind === 'dm'
+        ? `${actor} sent you a message`
+        : `${actor} messaged ${where}`;
+  }
+}
+
+export function notificationPreview(notification: UserNotification) {
+  const message = notification.message;
+  if (!message) return '';
+  if (message.deleted_at) return 'Message was deleted';
+  return stripMarkdown(message.content, mentionNames(message)) || 'Sent an attachment';
+}
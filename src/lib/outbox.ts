@@ -0,0 +1,261 @@
+import { Message, MessageMention, MessagePreview, UserProfile } from './supabase';
+import { removeAttachmentFiles, UploadedAttachment } from './attachments';
+import { sendMessage } from './messages';
+
+export type DeliveryState = 'sending' | 'failed' | 'sent';
+
+export interface OutboxEntry {
+  /** The optimistic message, shown in the feed until the server's copy arrives. */
+  message: Message;
+  attachments: UploadedAttachment[];
+  state: DeliveryState;
+  error?: string;
+}
+
+export interface OutgoingMessage {
+  roomId: string;
+  content: string;
+  parentId?: string | null;
+  threadId?: string | null;
+  attachments: UploadedAttachment[];
+  /** Usernames for the mention tokens in `content`, so they render right away. */
+  mentions: MessageMention[];
+  /** Preview of the message being replied to. */
+  parent?: MessagePreview | null;
+}
+
+const DATABASE_NAME = 'message-outbox';
+const DATABASE_VERSION = 1;
+const STORE_NAME = 'entries';
+
+/** After a network failure the queue is retried this often until it drains. */
+const RETRY_DELAY_MS = 5000;
+
+/** Delivered entries linger until the realtime echo has had time to replace them. */
+const SENT_RETENTION_MS = 10_000;
+
+// Server rejections (slow mode, bans, validation) carry a Postgres error code;
+// fetch failures and gateway errors don't, and are worth retrying.
+const isTransientError = (error: unknown) =>
+  !navigator.onLine || !(error as { code?: string } | null)?.code;
+
+const errorMessage = (error: unknown) =>
+  (error as { message?: string } | null)?.message || 'Could not send message';
+
+function promisify<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase() {
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'message.id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Messages on their way to the server. Each one gets its id on the client
+ * and is rendered immediately; the queue is persisted in IndexedDB so
+ * nothing typed offline is lost on reload, and is flushed in order whenever
+ * the browser comes back online. `send_message` ignores ids it has already
+ * stored, so a retry after a lost response never duplicates a message.
+ */
+export class MessageOutbox {
+  private entries = new Map<string, OutboxEntry>();
+  private listeners = new Set<() => void>();
+  private userId: string | null = null;
+  private flushing = false;
+  private retryTimeout: ReturnType<typeof setTimeout> | undefined;
+  private database: Promise<IDBDatabase> | null = null;
+
+  constructor() {
+    window.addEventListener('online', () => this.flush());
+  }
+
+  /** Loads the signed-in user's stored queue and starts sending it. */
+  async start(userId: string) {
+    if (this.userId === userId) return;
+
+    this.userId = userId;
+    this.entries.clear();
+    this.notify();
+
+    try {
+      const stored = await promisify(
+        (await this.store('readonly')).getAll() as IDBRequest<OutboxEntry[]>
+      );
+      if (this.userId !== userId) return;
+
+      stored
+        .filter((entry) => entry.message.user_id === userId)
+        .forEach((entry) => this.entries.set(entry.message.id, entry));
+      this.notify();
+    } catch (error) {
+      console.error('Error loading outbox:', error);
+    }
+
+    this.flush();
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Entries for one room, oldest first. */
+  entriesFor(roomId: string) {
+    return Array.from(this.entries.values())
+      .filter((entry) => entry.message.room_id === roomId)
+      .sort((a, b) => a.message.created_at.localeCompare(b.message.created_at));
+  }
+
+  async send(outgoing: OutgoingMessage, author: UserProfile) {
+    const now = new Date().toISOString();
+    const id = crypto.randomUUID();
+    const entry: OutboxEntry = {
+      message: {
+        id,
+        room_id: outgoing.roomId,
+        user_id: author.id,
+        content: outgoing.content,
+        created_at: now,
+        edited_at: null,
+        deleted_at: null,
+        parent_id: outgoing.parentId ?? null,
+        thread_id: outgoing.threadId ?? null,
+        reply_count: 0,
+        last_reply_at: null,
+        user_profiles: author,
+        parent: outgoing.parent ?? null,
+        message_attachments: outgoing.attachments.map((attachment, index) => ({
+          ...attachment,
+          id: `${id}-${index}`,
+          message_id: id,
+          room_id: outgoing.roomId,
+          created_at: now,
+        })),
+        message_mentions: outgoing.mentions,
+      },
+      attachments: outgoing.attachments,
+      state: 'sending',
+    };
+
+    this.set(entry);
+    await this.persist(entry);
+    this.flush();
+  }
+
+  retry(messageId: string) {
+    const entry = this.entries.get(messageId);
+    if (!entry || entry.state !== 'failed') return;
+
+    const retried: OutboxEntry = { ...entry, state: 'sending', error: undefined };
+    this.set(retried);
+    this.persist(retried);
+    this.flush();
+  }
+
+  /** Drops a failed message along with the files uploaded for it. */
+  async discard(messageId: string) {
+    const entry = this.entries.get(messageId);
+    if (!entry || entry.state !== 'failed') return;
+
+    this.entries.delete(messageId);
+    this.notify();
+    await this.forget(messageId);
+    await removeAttachmentFiles(entry.attachments.map((attachment) => attachment.storage_path));
+  }
+
+  private async flush() {
+    if (this.flushing || !navigator.onLine) return;
+
+    this.flushing = true;
+    clearTimeout(this.retryTimeout);
+    try {
+      for (;;) {
+        const next = Array.from(this.entries.values())
+          .filter((entry) => entry.state === 'sending')
+          .sort((a, b) => a.message.created_at.localeCompare(b.message.created_at))[0];
+        if (!next || !(await this.deliver(next))) break;
+      }
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  /** Resolves to false if the network failed and the queue should pause. */
+  private async deliver(entry: OutboxEntry) {
+    const { message } = entry;
+    try {
+      await sendMessage({
+        id: message.id,
+        roomId: message.room_id,
+        content: message.content,
+        parentId: message.parent_id,
+        threadId: message.thread_id,
+        attachments: entry.attachments,
+      });
+    } catch (error) {
+      if (isTransientError(error)) {
+        this.retryTimeout = setTimeout(() => this.flush(), RETRY_DELAY_MS);
+        return false;
+      }
+
+      const failed: OutboxEntry = { ...entry, state: 'failed', error: errorMessage(error) };
+      this.set(failed);
+      await this.persist(failed);
+      return true;
+    }
+
+    this.set({ ...entry, state: 'sent' });
+    await this.forget(message.id);
+    setTimeout(() => {
+      if (this.entries.get(message.id)?.state !== 'sent') return;
+      this.entries.delete(message.id);
+      this.notify();
+    }, SENT_RETENTION_MS);
+    return true;
+  }
+
+  private set(entry: OutboxEntry) {
+    this.entries.set(entry.message.id, entry);
+    this.notify();
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private async store(mode: IDBTransactionMode) {
+    this.database ??= openDatabase();
+    return (await this.database).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  // Storage failures (e.g. private browsing) leave the queue in memory only.
+  private async persist(entry: OutboxEntry) {
+    try {
+      await promisify((await this.store('readwrite')).put(entry));
+    } catch (error) {
+      console.error('Error saving outbox entry:', error);
+    }
+  }
+
+  private async forget(messageId: string) {
+    try {
+      await promisify((await this.store('readwrite')).delete(messageId));
+    } catch (error) {
+      console.error('Error removing outbox entry:', error);
+    }
+  }
+}
+
+export const outbox = new MessageOutbox();
@@ -0,0 +1,21 @@
+import { UserStatus } from './supabase';
+
+/** How often an open client bumps `last_seen_at` on its participant and voice rows. */
+export const HEARTBEAT_INTERVAL_MS = 30_000;
+
+/** Rows not bumped within this window are treated as offline (mirrors `expire_stale_presence`). */
+export const PRESENCE_TIMEOUT_MS = 120_000;
+
+export const USER_STATUSES: Record<UserStatus, { label: string; dotClass: string }> = {
+  online: { label: 'Online', dotClass: 'bg-green-500' },
+  idle: { label: 'Idle', dotClass: 'bg-amber-400' },
+  dnd: { label: 'Do Not Disturb', dotClass: 'bg-red-500' },
+  invisible: { label: 'Invisible', dotClass: 'bg-slate-500' },
+};
+
+export interface PresenceEntry {
+  user_id: string;
+  username: string;
+  status: UserStatus;
+  online_at: string;
+}
@@ -0,0 +1,49 @@
+export interface PushToTalkSettings {
+  enabled: boolean;
+  /** `KeyboardEvent.code` of the key held to talk, so it follows the key's position, not its layout. */
+  key: string;
+}
+
+const STORAGE_KEY = 'push-to-talk';
+
+const DEFAULT_SETTINGS: PushToTalkSettings = { enabled: false, key: 'Backquote' };
+
+export function loadPushToTalkSettings(): PushToTalkSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function savePushToTalkSettings(settings: PushToTalkSettings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error saving push-to-talk settings:', error);
+  }
+}
+
+const KEY_NAMES: Record<string, string> = {
+  Backquote: '`',
+  Space: 'Space',
+  CapsLock: 'Caps Lock',
+  ControlLeft: 'Left Ctrl',
+  ControlRight: 'Right Ctrl',
+  AltLeft: 'Left Alt',
+  AltRight: 'Right Alt',
+  ShiftLeft: 'Left Shift',
+  ShiftRight: 'Right Shift',
+};
+
+/** A readable name for a `KeyboardEvent.code`. */
+export const describeKey = (code: string) =>
+  KEY_NAMES[code] ?? code.replace(/^(Key|Digit|Numpad)/, '');
+
+/** Printable keys pressed while typing a message shouldn't open the mic; modifiers still can. */
+export const isTypingKey = (event: KeyboardEvent) =>
+  event.key.length === 1 &&
+  event.target instanceof HTMLElement &&
+  (event.target.isContentEditable ||
+    ['INPUT', 'TEXTAREA', 'SELECT'].includes(event.target.tagName));
@@ -0,0 +1,57 @@
+import { supabase, MessageReaction } from './supabase';
+
+export const REACTION_SELECT = `
+  *,
+  user_profiles (username)
+`;
+
+export const QUICK_REACTIONS = ['👍', '❤️', '😂', '🎉', '😮', '😢', '🙏', '👀', '🔥', '✅', '❌', '🚀'];
+
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  usernames: string[];
+  /** The current user's reaction, if they've reacted with this emoji. */
+  ownReaction?: MessageReaction;
+}
+
+/** Groups a message's reactions by emoji, in the order each emoji was first used. */
+export function summarizeReactions(reactions: MessageReaction[], userId?: string) {
+  const summaries = new Map<string, ReactionSummary>();
+
+  [...reactions]
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .forEach((reaction) => {
+      const summary = summaries.get(reaction.emoji) ?? {
+        emoji: reaction.emoji,
+        count: 0,
+        usernames: [],
+      };
+      summary.count += 1;
+      summary.usernames.push(reaction.user_profiles?.username || 'Unknown');
+      if (reaction.user_id === userId) {
+        summary.ownReaction = reaction;
+      }
+      summaries.set(reaction.emoji, summary);
+    });
+
+  return Array.from(summaries.values());
+}
+
+export async function addReaction(roomId: string, messageId: string, userId: string, emoji: string) {
+  const { error } = await supabase.from('message_reactions').insert({
+    room_id: roomId,
+    message_id: messageId,
+    user_id: userId,
+    emoji,
+  });
+
+  // A duplicate means we already reacted (e.g. a double click); nothing to do.
+  if (error && error.code !== '23505') throw error;
+}
+
+export async function removeReaction(reactionId: string) {
+  const { error } = await supabase.from('message_reactions').delete().eq('id', reactionId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,73 @@
+import { audioContext } from './audioLevel';
+import { RemoteStream } from './callSession';
+
+interface Output {
+  userId: string;
+  source: MediaStreamAudioSourceNode;
+  gain: GainNode;
+}
+
+type SinkableAudioContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
+/**
+ * Plays remote call audio through Web Audio, with a gain node per stream so
+ * each participant can be turned up or down. The streams' media elements
+ * stay muted; they only keep the streams flowing.
+ */
+export class RemoteAudioMixer {
+  private outputs = new Map<string, Output>();
+  private volumes = new Map<string, number>();
+  private deafened = false;
+
+  /** Adds outputs for new streams with audio and drops those for streams that have gone. */
+  sync(streams: RemoteStream[]) {
+    const current = new Map(streams.map((remote) => [remote.stream.id, remote]));
+
+    this.outputs.forEach((output, streamId) => {
+      if (current.has(streamId)) return;
+      output.source.disconnect();
+      output.gain.disconnect();
+      this.outputs.delete(streamId);
+    });
+
+    current.forEach(({ userId, stream }, streamId) => {
+      if (this.outputs.has(streamId) || stream.getAudioTracks().length === 0) return;
+
+      const context = audioContext();
+      const source = context.createMediaStreamSource(stream);
+      const gain = context.createGain();
+      gain.gain.value = this.gainFor(userId);
+      source.connect(gain).connect(context.destination);
+      this.outputs.set(streamId, { userId, source, gain });
+    });
+  }
+
+  setVolume(userId: string, volume: number) {
+    this.volumes.set(userId, volume);
+    this.applyGains();
+  }
+
+  setDeafened(deafened: boolean) {
+    this.deafened = deafened;
+    this.applyGains();
+  }
+
+  async setSinkId(sinkId: string) {
+    const context = audioContext() as SinkableAudioContext;
+    await context.setSinkId?.(sinkId);
+  }
+
+  close() {
+    this.sync([]);
+  }
+
+  private gainFor(userId: string) {
+    return this.deafened ? 0 : (this.volumes.get(userId) ?? 1);
+  }
+
+  private applyGains() {
+    this.outputs.forEach((output) => {
+      output.gain.gain.value = this.gainFor(output.userId);
+    });
+  }
+}
@@ -0,0 +1,38 @@
+import { supabase } from './supabase';
+
+/** A typing client re-announces itself at most this often. */
+export const TYPING_THROTTLE_MS = 3000;
+
+/** Typing state not refreshed within this window is dropped (e.g. a closed tab). */
+export const TYPING_TIMEOUT_MS = 6000;
+
+/** Receipts are limited to DMs and rooms this small (mirrors `room_read_receipts`). */
+export const READ_RECEIPTS_MAX_MEMBERS = 10;
+
+export interface TypingUser {
+  user_id: string;
+  username: string;
+  /** Set when typing a reply in a thread rather than in the main feed. */
+  thread_id: string | null;
+  expires_at: number;
+}
+
+/** Read markers of the room's other members who share receipts, keyed by user id. */
+export async function loadReadReceipts(roomId: string) {
+  const { data, error } = await supabase.rpc('room_read_receipts', { p_room_id: roomId });
+
+  if (error) throw error;
+  return new Map(
+    (data as { user_id: string; last_read_at: string }[]).map((row) => [row.user_id, row.last_read_at])
+  );
+}
+
+export function describeTyping(usernames: string[]) {
+  if (usernames.length === 0) return '';
+  if (usernames.length === 1) return `${usernames[0]} is typing…`;
+  if (usernames.length === 2) return `${usernames[0]} and ${usernames[1]} are typing…`;
+  if (usernames.length === 3) {
+    return `${usernames[0]}, ${usernames[1]} and ${usernames[2]} are typing…`;
+  }
+  return 'Several people are typing…';
+}
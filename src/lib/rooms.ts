@@ -0,0 +1,170 @@
+import { supabase, Room, RoomInvite, RoomRole } from './supabase';
+import { removeAttachmentFiles } from './attachments';
+
+export const ROOM_ROLES: Record<RoomRole, { label: string; badgeClass: string }> = {
+  owner: { label: 'Owner', badgeClass: 'bg-amber-100 text-amber-700' },
+  moderator: { label: 'Moderator', badgeClass: 'bg-blue-100 text-blue-700' },
+  member: { label: 'Member', badgeClass: 'bg-gray-100 text-gray-600' },
+};
+
+export const canModerate = (role: RoomRole | null | undefined) =>
+  role === 'owner' || role === 'moderator';
+
+const ROLE_RANK: Record<RoomRole, number> = { owner: 3, moderator: 2, member: 1 };
+
+/** Mirrors `assert_can_moderate`: moderators act only on members below them. */
+export const outranks = (role: RoomRole | null | undefined, target: RoomRole) =>
+  canModerate(role) && ROLE_RANK[role!] > ROLE_RANK[target];
+
+export const INVITE_EXPIRY_OPTIONS = [
+  { label: '30 minutes', ms: 30 * 60 * 1000 },
+  { label: '1 hour', ms: 60 * 60 * 1000 },
+  { label: '1 day', ms: 24 * 60 * 60 * 1000 },
+  { label: '7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+  { label: 'Never', ms: null },
+];
+
+export const INVITE_MAX_USES_OPTIONS = [null, 1, 5, 10, 25, 100];
+
+const INVITE_PARAM = 'invite';
+
+interface NewRoom {
+  name: string;
+  description: string;
+  isPrivate: boolean;
+}
+
+// Goes through `create_room` so the creator is added as the owner in the same transaction.
+export async function createRoom({ name, description, isPrivate }: NewRoom) {
+  const { data, error } = await supabase.rpc('create_room', {
+    p_name: name,
+    p_description: description,
+    p_is_private: isPrivate,
+  });
+
+  if (error) throw error;
+  return data as Room;
+}
+
+export async function updateRoom(
+  roomId: string,
+  changes: Partial<Pick<Room, 'name' | 'description' | 'topic' | 'is_active'>>
+) {
+  const { error } = await supabase.from('rooms').update(changes).eq('id', roomId);
+
+  if (error) throw error;
+}
+
+/**
+ * Hard delete. Rows cascade in the database, but stored files don't, so the
+ * room's attachments are removed from Storage first.
+ */
+export async function deleteRoom(roomId: string) {
+  const { data, error: loadError } = await supabase
+    .from('message_attachments')
+    .select('storage_path')
+    .eq('room_id', roomId);
+
+  if (loadError) throw loadError;
+  await removeAttachmentFiles((data ?? []).map((attachment) => attachment.storage_path));
+
+  const { error } = await supabase.from('rooms').delete().eq('id', roomId);
+
+  if (error) throw error;
+}
+
+export async function transferOwnership(roomId: string, userId: string) {
+  const { error } = await supabase.rpc('transfer_room_ownership', {
+    p_room_id: roomId,
+    p_user_id: userId,
+  });
+
+  if (error) throw error;
+}
+
+export async function setMemberRole(roomId: string, userId: string, role: Exclude<RoomRole, 'owner'>) {
+  const { error } = await supabase.rpc('set_room_member_role', {
+    p_room_id: roomId,
+    p_user_id: userId,
+    p_role: role,
+  });
+
+  if (error) throw error;
+}
+
+export async function loadInvites(roomId: string) {
+  const { data, error } = await supabase
+    .from('room_invites')
+    .select('*')
+    .eq('room_id', roomId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data as RoomInvite[];
+}
+
+export async function createInvite(
+  roomId: string,
+  userId: string,
+  { expiresInMs, maxUses }: { expiresInMs: number | null; maxUses: number | null }
+) {
+  const { data, error } = await supabase
+    .from('room_invites')
+    .insert({
+      room_id: roomId,
+      created_by: userId,
+      expires_at: expiresInMs ? new Date(Date.now() + expiresInMs).toISOString() : null,
+      max_uses: maxUses,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as RoomInvite;
+}
+
+export async function revokeInvite(inviteId: string) {
+  const { error } = await supabase.from('room_invites').delete().eq('id', inviteId);
+
+  if (error) throw error;
+}
+
+export async function redeemInvite(code: string) {
+  const { data, error } = await supabase.rpc('redeem_room_invite', { p_code: code });
+
+  if (error) throw error;
+  return data as Room;
+}
+
+export function isInviteUsable(invite: RoomInvite) {
+  if (invite.expires_at && new Date(invite.expires_at).getTime() <= Date.now()) return false;
+  if (invite.max_uses !== null && invite.uses >= invite.max_uses) return false;
+  return true;
+}
+
+export function inviteLink(code: string) {
+  const url = new URL(window.location.origin + window.location.pathname);
+  url.searchParams.set(INVITE_PARAM, code);
+  return url.toString();
+}
+
+/** Accepts either a bare invite code or a full invite link. */
+export function parseInviteCode(input: string) {
+  const trimmed = input.trim();
+  try {
+    return new URL(trimmed).searchParams.get(INVITE_PARAM) ?? '';
+  } catch {
+    return trimmed;
+  }
+}
+
+/** Reads an invite code from the current URL and removes it from the address bar. */
+export function takeInviteCodeFromUrl() {
+  const url = new URL(window.location.href);
+  const code = url.searchParams.get(INVITE_PARAM);
+  if (!code) return null;
+
+  url.searchParams.delete(INVITE_PARAM);
+  window.history.replaceState(null, '', url.toString());
+  return code;
+}
@@ -0,0 +1,104 @@
+import { supabase, Message, Room } from './supabase';
+import { MESSAGE_SELECT } from './messages';
+import { DIRECT_MESSAGE_SELECT } from './directMessages';
+
+export const SEARCH_PAGE_SIZE = 25;
+
+// `search_messages` wraps each hit in the snippet with these control characters.
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_END = '\u0003';
+
+export interface SearchFilters {
+  query: string;
+  roomId: string | null;
+  authorId: string | null;
+  /** Inclusive local dates in `YYYY-MM-DD` form, or empty. */
+  from: string;
+  to: string;
+  hasAttachment: boolean;
+  hasLink: boolean;
+}
+
+export const EMPTY_SEARCH_FILTERS: SearchFilters = {
+  query: '',
+  roomId: null,
+  authorId: null,
+  from: '',
+  to: '',
+  hasAttachment: false,
+  hasLink: false,
+};
+
+export interface SearchResult {
+  message: Message & { room: Room };
+  snippet: string;
+}
+
+/** A search needs a query or at least one filter narrower than a room. */
+export const hasSearchCriteria = (filters: SearchFilters) =>
+  filters.query.trim() !== '' ||
+  filters.authorId !== null ||
+  filters.from !== '' ||
+  filters.to !== '' ||
+  filters.hasAttachment ||
+  filters.hasLink;
+
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`);
+
+function endOfDay(date: string) {
+  const end = startOfDay(date);
+  end.setDate(end.getDate() + 1);
+  return end;
+}
+
+export async function searchMessages(filters: SearchFilters, offset = 0) {
+  const { data, error } = await supabase.rpc('search_messages', {
+    p_query: filters.query.trim(),
+    p_room_id: filters.roomId,
+    p_author_id: filters.authorId,
+    p_after: filters.from ? startOfDay(filters.from).toISOString() : null,
+    p_before: filters.to ? endOfDay(filters.to).toISOString() : null,
+    p_has_attachment: filters.hasAttachment,
+    p_has_link: filters.hasLink,
+    p_limit: SEARCH_PAGE_SIZE,
+    p_offset: offset,
+  });
+  if (error) throw error;
+
+  const hits = data as { id: string; snippet: string }[];
+  if (hits.length === 0) return { results: [], hasMore: false };
+
+  const { data: messages, error: messagesError } = await supabase
+    .from('messages')
+    .select(`${MESSAGE_SELECT}, room:rooms (${DIRECT_MESSAGE_SELECT})`)
+    .in('id', hits.map((hit) => hit.id));
+  if (messagesError) throw messagesError;
+
+  const byId = new Map((messages as SearchResult['message'][]).map((m) => [m.id, m]));
+  const results = hits.flatMap((hit) => {
+    const message = byId.get(hit.id);
+    return message ? [{ message, snippet: hit.snippet }] : [];
+  });
+
+  return { results, hasMore: hits.length === SEARCH_PAGE_SIZE };
+}
+
+/** Splits a snippet into plain and highlighted runs. */
+export function splitSnippet(snippet: string) {
+  const parts: { text: string; highlighted: boolean }[] = [];
+  let highlighted = false;
+  let text = '';
+
+  for (const char of snippet) {
+    if (char === HIGHLIGHT_START || char === HIGHLIGHT_END) {
+      if (text) parts.push({ text, highlighted });
+      highlighted = char === HIGHLIGHT_START;
+      text = '';
+    } else {
+      text += char;
+    }
+  }
+  if (text) parts.push({ text, highlighted });
+
+  return parts;
+}
@@ -0,0 +1,348 @@
+import { BaseCallSession, CallConnection } from './callSession';
+import { SignalingTransport, SignalMessage } from './signaling';
+
+// ion-sfu tags trickled candidates with the connection they belong to.
+const PUBLISHER = 0;
+const SUBSCRIBER = 1;
+type Target = typeof PUBLISHER | typeof SUBSCRIBER;
+
+type NotificationHandler = (method: string, params: unknown) => void;
+
+export interface SfuCallSessionOptions {
+  userId: string;
+  roomId: string;
+  /** WebSocket URL of the media server's JSON-RPC endpoint. */
+  url: string;
+  transport: SignalingTransport;
+  rtcConfig?: RTCConfiguration;
+}
+
+/** JSON-RPC 2.0 over a WebSocket, as spoken by ion-sfu's `jsonrpc` build. */
+class SfuRpc {
+  readonly opened: Promise<void>;
+
+  private socket: WebSocket;
+  private closing = false;
+  private nextId = 0;
+  private pending = new Map<number, { resolve: (result: unknown) => void; reject: (error: Error) => void }>();
+
+  /** `onLost` runs if an established connection drops without `close()`. */
+  constructor(url: string, onNotification: NotificationHandler, onLost: () => void) {
+    this.socket = new WebSocket(url);
+    this.opened = new Promise((resolve, reject) => {
+      this.socket.addEventListener('open', () => resolve(), { once: true });
+      this.socket.addEventListener('error', () => reject(new Error('Could not reach the media server')), {
+        once: true,
+      });
+    });
+
+    this.socket.addEventListener('message', ({ data }) => {
+      const message = JSON.parse(data);
+      if (message.method) {
+        onNotification(message.method, message.params);
+        return;
+      }
+
+      const request = this.pending.get(message.id);
+      if (!request) return;
+      this.pending.delete(message.id);
+      if (message.error) {
+        request.reject(new Error(message.error.message ?? 'Media server error'));
+      } else {
+        request.resolve(message.result);
+      }
+    });
+
+    this.socket.addEventListener('close', () => {
+      this.pending.forEach((request) => request.reject(new Error('Media server connection closed')));
+      this.pending.clear();
+      this.opened.then(() => {
+        if (!this.closing) onLost();
+      }, () => {});
+    });
+  }
+
+  async call(method: string, params: unknown) {
+    await this.opened;
+    const id = this.nextId++;
+    return new Promise<unknown>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.socket.send(JSON.stringify({ jsonrpc: '2.0', id, method, params }));
+    });
+  }
+
+  async notify(method: string, params: unknown) {
+    await this.opened;
+    this.socket.send(JSON.stringify({ jsonrpc: '2.0', method, params }));
+  }
+
+  close() {
+    this.closing = true;
+    this.socket.close();
+  }
+}
+
+/**
+ * One user's side of a call routed through a selective forwarding unit.
+ * Local tracks are published once on a publisher connection and everyone
+ * else's arrive on a subscriber connection, so upload stays constant however
+ * many people join. The media server doesn't know who owns which stream, so
+ * participants announce their stream ids over the room's `sfu_${roomId}`
+ * broadcast channel.
+ */
+export class SfuCallSession extends BaseCallSession {
+  private roomId: string;
+  private url: string;
+  private transport: SignalingTransport;
+  private unsubscribeTransport: () => void;
+
+  private rpc: SfuRpc | null = null;
+  private publisher: RTCPeerConnection | null = null;
+  private subscriber: RTCPeerConnection | null = null;
+  private pendingCandidates: Record<Target, RTCIceCandidateInit[]> = {
+    [PUBLISHER]: [],
+    [SUBSCRIBER]: [],
+  };
+  // Offers on the publisher are sent one at a time, starting with `join`.
+  private negotiation = Promise.resolve();
+
+  private participants = new Set<string>();
+  /** Owner of each remote stream id, learned from `streams` broadcasts. */
+  private streamOwners = new Map<string, string>();
+  /** Streams that arrived before their owner announced them. */
+  private unclaimedStreams = new Map<string, MediaStream>();
+
+  constructor(options: SfuCallSessionOptions) {
+    super(options.userId, options.rtcConfig);
+    this.roomId = options.roomId;
+    this.url = options.url;
+    this.transport = options.transport;
+    this.unsubscribeTransport = this.transport.subscribe((message) => this.handleSignal(message));
+  }
+
+  getConnections(): CallConnection[] {
+    const connections: CallConnection[] = [];
+    if (this.publisher) {
+      connections.push({
+        id: 'sfu-publisher',
+        userId: null,
+        label: 'Media server (sending)',
+        connection: this.publisher,
+      });
+    }
+    if (this.subscriber) {
+      connections.push({
+        id: 'sfu-subscriber',
+        userId: null,
+        label: 'Media server (receiving)',
+        connection: this.subscriber,
+      });
+    }
+    return connections;
+  }
+
+  protected connect() {
+    const rpc = new SfuRpc(
+      this.url,
+      (method, params) => {
+        void this.handleNotification(method, params);
+      },
+      () => this.emit('error', new Error('Lost the connection to the media server'))
+    );
+    const publisher = new RTCPeerConnection(this.rtcConfig);
+    const subscriber = new RTCPeerConnection(this.rtcConfig);
+    this.rpc = rpc;
+    this.publisher = publisher;
+    this.subscriber = subscriber;
+
+    publisher.onicecandidate = ({ candidate }) => {
+      if (candidate) {
+        rpc.notify('trickle', { target: PUBLISHER, candidate: candidate.toJSON() }).catch(() => {});
+      }
+    };
+    subscriber.onicecandidate = ({ candidate }) => {
+      if (candidate) {
+        rpc.notify('trickle', { target: SUBSCRIBER, candidate: candidate.toJSON() }).catch(() => {});
+      }
+    };
+
+    publisher.onnegotiationneeded = () => this.negotiate('offer');
+    publisher.onconnectionstatechange = () => {
+      if (publisher.connectionState === 'failed') {
+        publisher.restartIce();
+      }
+    };
+
+    subscriber.ontrack = ({ track, streams }) => {
+      this.receiveStream(streams[0] ?? new MediaStream([track]));
+    };
+
+    const localStream = this.localStream;
+    localStream?.getTracks().forEach((track) => publisher.addTrack(track, localStream));
+
+    this.negotiate('join');
+    this.transport.send({ type: 'join', from: this.userId });
+    this.announceStreams();
+  }
+
+  protected disconnect() {
+    this.transport.send({ type: 'leave', from: this.userId });
+
+    this.rpc?.close();
+    this.rpc = null;
+    this.publisher?.close();
+    this.publisher = null;
+    this.subscriber?.close();
+    this.subscriber = null;
+    this.pendingCandidates = { [PUBLISHER]: [], [SUBSCRIBER]: [] };
+    this.negotiation = Promise.resolve();
+
+    this.participants.clear();
+    this.streamOwners.clear();
+    this.unclaimedStreams.clear();
+  }
+
+  protected close() {
+    this.unsubscribeTransport();
+    this.transport.close();
+  }
+
+  protected publishTrack(track: MediaStreamTrack, stream: MediaStream) {
+    this.publisher?.addTrack(track, stream);
+    this.announceStreams();
+  }
+
+  protected unpublishTrack(track: MediaStreamTrack) {
+    const sender = this.publisher?.getSenders().find((s) => s.track === track);
+    if (sender) {
+      this.publisher!.removeTrack(sender);
+    }
+  }
+
+  private announceStreams() {
+    const streamIds = [this.localStream?.id, this.screenStream?.id].filter(
+      (id): id is string => id !== undefined
+    );
+    this.transport.send({ type: 'streams', from: this.userId, streamIds });
+  }
+
+  private negotiate(method: 'join' | 'offer') {
+    this.negotiation = this.negotiation.then(async () => {
+      const rpc = this.rpc;
+      const publisher = this.publisher;
+      if (!rpc || !publisher) return;
+
+      try {
+        await publisher.setLocalDescription();
+        const offer = publisher.localDescription!.toJSON();
+        const answer = (await rpc.call(
+          method,
+          method === 'join' ? { sid: this.roomId, uid: this.userId, offer } : { desc: offer }
+        )) as RTCSessionDescriptionInit;
+        if (this.publisher !== publisher) return;
+
+        await publisher.setRemoteDescription(answer);
+        await this.flushPendingCandidates(PUBLISHER, publisher);
+      } catch (error) {
+        if (this.publisher !== publisher) return;
+        // Without a publisher nobody receives our media, so the call can't go on here.
+        console.error(method === 'join' ? 'Error joining media server:' : 'Error renegotiating:', error);
+        this.emit('error', error instanceof Error ? error : new Error('Media server error'));
+      }
+    });
+  }
+
+  private async handleNotification(method: string, params: unknown) {
+    const rpc = this.rpc;
+    const subscriber = this.subscriber;
+    if (!rpc || !subscriber) return;
+
+    try {
+      if (method === 'offer') {
+        await subscriber.setRemoteDescription(params as RTCSessionDescriptionInit);
+        await this.flushPendingCandidates(SUBSCRIBER, subscriber);
+        await subscriber.setLocalDescription();
+        await rpc.notify('answer', { desc: subscriber.localDescription!.toJSON() });
+      } else if (method === 'trickle') {
+        const { target, candidate } = params as { target: Target; candidate: RTCIceCandidateInit };
+        const pc = target === PUBLISHER ? this.publisher : subscriber;
+        if (!pc) return;
+
+        if (!pc.remoteDescription) {
+          this.pendingCandidates[target].push(candidate);
+        } else {
+          await pc.addIceCandidate(candidate);
+        }
+      }
+    } catch (error) {
+      console.error('Error handling media server message:', error);
+    }
+  }
+
+  private async flushPendingCandidates(target: Target, pc: RTCPeerConnection) {
+    const candidates = this.pendingCandidates[target].splice(0);
+    for (const candidate of candidates) {
+      try {
+        await pc.addIceCandidate(candidate);
+      } catch (error) {
+        console.error('Error adding queued ICE candidate:', error);
+      }
+    }
+  }
+
+  private handleSignal(message: SignalMessage) {
+    if (message.from === this.userId || !this.state.inCall) return;
+
+    switch (message.type) {
+      case 'join':
+        this.addParticipant(message.from);
+        // Newcomers need to hear whose streams are whose.
+        this.announceStreams();
+        break;
+      case 'leave':
+        if (this.participants.delete(message.from)) {
+          this.streamOwners.forEach((owner, streamId) => {
+            if (owner === message.from) this.streamOwners.delete(streamId);
+          });
+          this.removeRemoteStreams(message.from);
+          this.emit('peer-left', { userId: message.from });
+        }
+        break;
+      case 'streams':
+        this.addParticipant(message.from);
+        message.streamIds.forEach((streamId) => {
+          this.streamOwners.set(streamId, message.from);
+          const stream = this.unclaimedStreams.get(streamId);
+          if (stream) {
+            this.unclaimedStreams.delete(streamId);
+            this.receiveStream(stream);
+          }
+        });
+        break;
+    }
+  }
+
+  private addParticipant(userId: string) {
+    if (this.participants.has(userId)) return;
+
+    this.participants.add(userId);
+    this.emit('peer-joined', { userId });
+  }
+
+  private receiveStream(stream: MediaStream) {
+    const owner = this.streamOwners.get(stream.id);
+    if (!owner) {
+      this.unclaimedStreams.set(stream.id, stream);
+      return;
+    }
+
+    stream.onremovetrack = () => {
+      if (stream.getTracks().length === 0) {
+        this.removeRemoteStreams(owner, stream.id);
+      } else {
+        this.addRemoteStream(owner, stream);
+      }
+    };
+    this.addRemoteStream(owner, stream);
+  }
+}
@@ -0,0 +1,121 @@
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+
+export type SignalMessage =
+  | { type: 'join'; from: string }
+  | { type: 'leave'; from: string }
+  | { type: 'description'; from: string; to: string; description: RTCSessionDescriptionInit }
+  | { type: 'ice-candidate'; from: string; to: string; candidate: RTCIceCandidateInit }
+  /** Which of the media server's streams belong to `from`, in an SFU call. */
+  | { type: 'streams'; from: string; streamIds: string[] };
+
+export type SignalHandler = (message: SignalMessage) => void;
+
+export interface SignalingTransport {
+  send(message: SignalMessage): void;
+  subscribe(handler: SignalHandler): () => void;
+  close(): void;
+}
+
+const SIGNAL_TYPES: SignalMessage['type'][] = [
+  'join',
+  'leave',
+  'description',
+  'ice-candidate',
+  'streams',
+];
+
+/**
+ * Signaling over the room's `webrtc_${roomId}` Supabase broadcast channel.
+ * SFU calls use `sfu_${roomId}` so they never negotiate with mesh peers.
+ * Broadcasts are not echoed back to the sender. The channel is private, so
+ * only users who can access the room get in.
+ */
+export class SupabaseSignalingTransport implements SignalingTransport {
+  private channel: RealtimeChannel;
+  private handlers = new Set<SignalHandler>();
+
+  constructor(roomId: string, topic: 'webrtc' | 'sfu' = 'webrtc') {
+    this.channel = supabase.channel(`${topic}_${roomId}`, { config: { private: true } });
+
+    SIGNAL_TYPES.forEach((type) => {
+      this.channel.on('broadcast', { event: type }, ({ payload }) => {
+        const message = { ...payload, type } as SignalMessage;
+        this.handlers.forEach((handler) => handler(message));
+      });
+    });
+
+    this.channel.subscribe();
+  }
+
+  send(message: SignalMessage) {
+    const { type, ...payload } = message;
+    this.channel.send({ type: 'broadcast', event: type, payload });
+  }
+
+  subscribe(handler: SignalHandler) {
+    this.handlers.add(handler);
+    return () => {
+      this.handlers.delete(handler);
+    };
+  }
+
+  close() {
+    this.handlers.clear();
+    supabase.removeChannel(this.channel);
+  }
+}
+
+/**
+ * In-process stand-in for the broadcast channel, so several `CallSession`s
+ * can be wired together without a Supabase project. Like the real channel it
+ * delivers asynchronously and never echoes a message to its sender.
+ */
+export class InMemorySignalingBus {
+  private transports = new Set<InMemoryTransport>();
+
+  createTransport(): SignalingTransport {
+    const transport = new InMemoryTransport(this);
+    this.transports.add(transport);
+    return transport;
+  }
+
+  deliver(sender: InMemoryTransport, message: SignalMessage) {
+    this.transports.forEach((transport) => {
+      if (transport !== sender) {
+        setTimeout(() => transport.receive(message), 0);
+      }
+    });
+  }
+
+  detach(transport: InMemoryTransport) {
+    this.transports.delete(transport);
+  }
+}
+
+class InMemoryTransport implements SignalingTransport {
+  private handlers = new Set<SignalHandler>();
+
+  constructor(private bus: InMemorySignalingBus) {}
+
+  send(message: SignalMessage) {
+    // Round-trip through JSON like a real transport would.
+    this.bus.deliver(this, JSON.parse(JSON.stringify(message)));
+  }
+
+  subscribe(handler: SignalHandler) {
+    this.handlers.add(handler);
+    return () => {
+      this.handlers.delete(handler);
+    };
+  }
+
+  receive(message: SignalMessage) {
+    this.handlers.forEach((handler) => handler(message));
+  }
+
+  close() {
+    this.handlers.clear();
+    this.bus.detach(this);
+  }
+}
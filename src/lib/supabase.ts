@@ -5,20 +5,43 @@ const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
 export const supabase = createClient(supabaseUrl, supabaseAnonKey);
 
+export type UserStatus = 'online' | 'idle' | 'dnd' | 'invisible';
+
+/**
+ * The `user_profiles` columns any signed-in user can read. `status` is left
+ * out: it is only exposed through the `user_statuses` view, which reports
+ * other people's "invisible" as "offline".
+ */
+export const PROFILE_COLUMNS = 'id, username, avatar_url, share_read_receipts, created_at';
+
 export interface UserProfile {
   id: string;
   username: string;
   avatar_url: string | null;
+  share_read_receipts: boolean;
   created_at: string;
 }
 
+/** The signed-in user's profile, with the status they picked. */
+export interface OwnProfile extends UserProfile {
+  status: UserStatus;
+}
+
+export type RoomKind = 'public' | 'dm' | 'group_dm';
+
 export interface Room {
   id: string;
   name: string;
   description: string;
+  topic: string;
   created_by: string | null;
   created_at: string;
   is_active: boolean;
+  kind: RoomKind;
+  dm_key: string | null;
+  is_private: boolean;
+  slow_mode_seconds: number;
+  room_participants?: RoomParticipant[];
 }
 
 export interface Message {
@@ -27,14 +50,170 @@ export interface Message {
   user_id: string;
   content: string;
   created_at: string;
+  edited_at: string | null;
+  deleted_at: string | null;
+  parent_id: string | null;
+  thread_id: string | null;
+  reply_count: number;
+  last_reply_at: string | null;
   user_profiles?: UserProfile;
+  parent?: MessagePreview | null;
+  message_attachments?: MessageAttachment[];
+  message_mentions?: MessageMention[];
+}
+
+export interface MessagePreview {
+  id: string;
+  user_id: string;
+  content: string;
+  deleted_at: string | null;
+  user_profiles?: Pick<UserProfile, 'username'>;
+  message_mentions?: MessageMention[];
 }
 
+export interface MessageRevision {
+  id: string;
+  message_id: string;
+  content: string;
+  created_at: string;
+}
+
+export type RoomRole = 'owner' | 'moderator' | 'member';
+
 export interface RoomParticipant {
   id: string;
   room_id: string;
   user_id: string;
+  role: RoomRole;
+  timed_out_until: string | null;
   joined_at: string;
   is_online: boolean;
+  last_seen_at: string;
   user_profiles?: UserProfile;
 }
+
+export interface RoomBan {
+  id: string;
+  room_id: string;
+  user_id: string;
+  banned_by: string | null;
+  reason: string;
+  created_at: string;
+  user_profiles?: Pick<UserProfile, 'username'>;
+}
+
+export type ModerationAction =
+  | 'kick'
+  | 'ban'
+  | 'unban'
+  | 'timeout'
+  | 'clear_timeout'
+  | 'slow_mode'
+  | 'delete_message';
+
+export interface ModerationLogEntry {
+  id: string;
+  room_id: string;
+  actor_id: string | null;
+  target_user_id: string | null;
+  action: ModerationAction;
+  reason: string;
+  details: Record<string, unknown>;
+  created_at: string;
+  actor?: Pick<UserProfile, 'username'> | null;
+  target?: Pick<UserProfile, 'username'> | null;
+}
+
+export interface RoomInvite {
+  id: string;
+  room_id: string;
+  code: string;
+  created_by: string | null;
+  created_at: string;
+  expires_at: string | null;
+  max_uses: number | null;
+  uses: number;
+}
+
+export interface VoiceState {
+  id: string;
+  room_id: string;
+  user_id: string;
+  is_muted: boolean;
+  is_deafened: boolean;
+  is_video_on: boolean;
+  is_screen_sharing: boolean;
+  joined_at: string;
+  updated_at: string;
+  user_profiles?: UserProfile;
+}
+
+export interface MessageReaction {
+  id: string;
+  message_id: string;
+  room_id: string;
+  user_id: string;
+  emoji: string;
+  created_at: string;
+  user_profiles?: Pick<UserProfile, 'username'>;
+}
+
+export interface MessageAttachment {
+  id: string;
+  message_id: string;
+  room_id: string;
+  storage_path: string;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  width: number | null;
+  height: number | null;
+  created_at: string;
+}
+
+export interface RoomUnreadCount {
+  room_id: string;
+  last_read_at: string | null;
+  unread_count: number;
+  mention_count: number;
+}
+
+export interface MessageMention {
+  user_id: string;
+  user_profiles?: Pick<UserProfile, 'username'>;
+}
+
+export type NotificationKind = 'mention' | 'reply' | 'direct_message';
+
+export interface UserNotification {
+  id: string;
+  user_id: string;
+  room_id: string;
+  message_id: string;
+  actor_id: string | null;
+  kind: NotificationKind;
+  created_at: string;
+  read_at: string | null;
+  actor?: Pick<UserProfile, 'username'> | null;
+  room?: Room | null;
+  message?: (MessagePreview & Pick<Message, 'thread_id'>) | null;
+}
+
+export type NotificationLevel = 'all' | 'mentions' | 'muted';
+
+export interface NotificationPreference {
+  user_id: string;
+  room_id: string;
+  level: NotificationLevel;
+  updated_at: string;
+}
+
+export interface VoicePreferences {
+  user_id: string;
+  noise_suppression: boolean;
+  echo_cancellation: boolean;
+  auto_gain_control: boolean;
+  /** Playback volume by user id, from 0 to 2; missing users play at 1. */
+  participant_volumes: Record<string, number>;
+  updated_at: string;
+}
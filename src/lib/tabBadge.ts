@@ -0,0 +1,72 @@
+const FAVICON_SIZE = 32;
+
+let originalTitle: string | null = null;
+let originalFavicon: string | null = null;
+let faviconImage: HTMLImageElement | null = null;
+
+function faviconLink() {
+  let link = document.querySelector<HTMLLinkElement>('link[rel~="icon"]');
+  if (!link) {
+    link = document.createElement('link');
+    link.rel = 'icon';
+    document.head.appendChild(link);
+  }
+  return link;
+}
+
+function drawBadge(count: number) {
+  const canvas = document.createElement('canvas');
+  canvas.width = FAVICON_SIZE;
+  canvas.height = FAVICON_SIZE;
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+
+  if (faviconImage?.complete && faviconImage.naturalWidth > 0) {
+    context.drawImage(faviconImage, 0, 0, FAVICON_SIZE, FAVICON_SIZE);
+  } else {
+    context.fillStyle = '#2563eb';
+    context.beginPath();
+    context.roundRect(0, 0, FAVICON_SIZE, FAVICON_SIZE, 8);
+    context.fill();
+  }
+
+  const radius = 10;
+  context.fillStyle = '#ef4444';
+  context.beginPath();
+  context.arc(FAVICON_SIZE - radius, radius, radius, 0, Math.PI * 2);
+  context.fill();
+
+  context.fillStyle = '#ffffff';
+  context.font = 'bold 14px sans-serif';
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  context.fillText(count > 9 ? '9+' : String(count), FAVICON_SIZE - radius, radius + 1);
+
+  return canvas.toDataURL('image/png');
+}
+
+/**
+ * Shows `count` in the tab title and as a badge on the favicon; 0 restores
+ * both. The original favicon is drawn under the badge once it has loaded.
+ */
+export function setTabBadge(count: number) {
+  const link = faviconLink();
+  if (originalTitle === null) {
+    originalTitle = document.title;
+    originalFavicon = link.href;
+    if (originalFavicon) {
+      faviconImage = new Image();
+      faviconImage.src = originalFavicon;
+    }
+  }
+
+  if (count <= 0) {
+    document.title = originalTitle;
+    if (originalFavicon) link.href = originalFavicon;
+    return;
+  }
+
+  document.title = `(${count > 99 ? '99+' : count}) ${originalTitle}`;
+  const badge = drawBadge(count);
+  if (badge) link.href = badge;
+}
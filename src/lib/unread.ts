@@ -0,0 +1,32 @@
+import { supabase, RoomUnreadCount } from './supabase';
+
+export async function loadUnreadCounts() {
+  const { data, error } = await supabase.rpc('room_unread_counts');
+
+  if (error) throw error;
+  return data as RoomUnreadCount[];
+}
+
+export async function loadLastReadAt(roomId: string, userId: string) {
+  const { data, error } = await supabase
+    .from('room_read_states')
+    .select('last_read_at')
+    .eq('room_id', roomId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data?.last_read_at as string | undefined) ?? null;
+}
+
+/** Moves the read marker up to `readAt`; the server ignores markers older than the current one. */
+export async function markRoomRead(roomId: string, readAt: string) {
+  const { error } = await supabase.rpc('mark_room_read', {
+    p_room_id: roomId,
+    p_read_at: readAt,
+  });
+
+  if (error) throw error;
+}
+
+export const formatUnreadCount = (count: number) => (count > 99 ? '99+' : String(count));
@@ -0,0 +1,44 @@
+import { supabase, VoicePreferences } from './supabase';
+
+export type VoiceSettings = Omit<VoicePreferences, 'user_id' | 'updated_at'>;
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  noise_suppression: true,
+  echo_cancellation: true,
+  auto_gain_control: true,
+  participant_volumes: {},
+};
+
+/** Participants can be boosted to twice their volume. */
+export const MAX_PARTICIPANT_VOLUME = 2;
+
+export async function loadVoiceSettings(userId: string): Promise<VoiceSettings> {
+  const { data, error } = await supabase
+    .from('voice_preferences')
+    .select('noise_suppression, echo_cancellation, auto_gain_control, participant_volumes')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ?? DEFAULT_VOICE_SETTINGS;
+}
+
+export async function saveVoiceSettings(userId: string, settings: VoiceSettings) {
+  const { error } = await supabase
+    .from('voice_preferences')
+    .upsert({ user_id: userId, ...settings, updated_at: new Date().toISOString() });
+
+  if (error) throw error;
+}
+
+export const participantVolume = (settings: VoiceSettings, userId: string) =>
+  settings.participant_volumes[userId] ?? 1;
+
+/** Capture constraints for the processing the user has turned on. */
+export const processingConstraints = (
+  settings: Pick<VoiceSettings, 'noise_suppression' | 'echo_cancellation' | 'auto_gain_control'>
+): MediaTrackConstraints => ({
+  noiseSuppression: settings.noise_suppression,
+  echoCancellation: settings.echo_cancellation,
+  autoGainControl: settings.auto_gain_control,
+});
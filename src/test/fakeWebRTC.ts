@@ -0,0 +1,305 @@
+/**
+ * Just enough of the WebRTC API to run `CallSession`s in node. Descriptions
+ * carry the sender's track list instead of real SDP, candidates are tokens,
+ * and a connection counts as connected once an offer/answer round has
+ * completed and a remote candidate has arrived. Unlike current browsers, a
+ * remote offer is rejected while a local one is pending, so glare only
+ * resolves if the session rolls back explicitly.
+ */
+
+let nextId = 0;
+const newId = (prefix: string) => `${prefix}-${++nextId}`;
+
+// Real events are dispatched as tasks, never synchronously.
+const nextTask = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+export class FakeMediaStreamTrack {
+  readonly id = newId('track');
+  enabled = true;
+  readyState: MediaStreamTrackState = 'live';
+
+  private listeners = new Set<() => void>();
+
+  constructor(readonly kind: 'audio' | 'video') {}
+
+  stop() {
+    this.readyState = 'ended';
+  }
+
+  addEventListener(type: string, listener: () => void) {
+    if (type === 'ended') this.listeners.add(listener);
+  }
+
+  removeEventListener(type: string, listener: () => void) {
+    if (type === 'ended') this.listeners.delete(listener);
+  }
+}
+
+export class FakeMediaStream {
+  onremovetrack: (() => void) | null = null;
+
+  constructor(
+    private tracks: FakeMediaStreamTrack[] = [],
+    readonly id = newId('stream')
+  ) {}
+
+  getTracks() {
+    return [...this.tracks];
+  }
+
+  getAudioTracks() {
+    return this.tracks.filter((track) => track.kind === 'audio');
+  }
+
+  getVideoTracks() {
+    return this.tracks.filter((track) => track.kind === 'video');
+  }
+
+  addTrack(track: FakeMediaStreamTrack) {
+    if (!this.tracks.includes(track)) this.tracks.push(track);
+  }
+
+  removeTrack(track: FakeMediaStreamTrack) {
+    this.tracks = this.tracks.filter((t) => t !== track);
+  }
+}
+
+class FakeRtpSender {
+  readonly mid = newId('mid');
+
+  constructor(
+    public track: FakeMediaStreamTrack | null,
+    readonly streamId: string
+  ) {}
+
+  async replaceTrack(track: FakeMediaStreamTrack | null) {
+    this.track = track;
+  }
+}
+
+interface DescribedTrack {
+  mid: string;
+  kind: 'audio' | 'video';
+  streamId: string;
+}
+
+class FakeSessionDescription {
+  constructor(
+    readonly type: RTCSdpType,
+    readonly sdp: string
+  ) {}
+
+  toJSON(): RTCSessionDescriptionInit {
+    return { type: this.type, sdp: this.sdp };
+  }
+}
+
+export class FakePeerConnection {
+  signalingState: RTCSignalingState = 'stable';
+  connectionState: RTCPeerConnectionState = 'new';
+  localDescription: FakeSessionDescription | null = null;
+  remoteDescription: FakeSessionDescription | null = null;
+  /** How many local offers were rolled back to accept the other side's. */
+  rollbacks = 0;
+
+  onnegotiationneeded: (() => void) | null = null;
+  onicecandidate: ((event: { candidate: { toJSON(): RTCIceCandidateInit } | null }) => void) | null =
+    null;
+  ontrack: ((event: { track: FakeMediaStreamTrack; streams: FakeMediaStream[] }) => void) | null =
+    null;
+  onconnectionstatechange: (() => void) | null = null;
+
+  private senders: FakeRtpSender[] = [];
+  /** The track list of the last description that completed an offer/answer round. */
+  private negotiatedTracks = this.describeTracks();
+  private negotiationNeededQueued = false;
+  private stableLocalDescription: FakeSessionDescription | null = null;
+  private candidateSent = false;
+  private remoteCandidates = 0;
+  private remoteTracks = new Map<string, { track: FakeMediaStreamTrack; stream: FakeMediaStream }>();
+  private remoteStreams = new Map<string, FakeMediaStream>();
+
+  constructor(private config: RTCConfiguration) {}
+
+  getConfiguration() {
+    return this.config;
+  }
+
+  setConfiguration(config: RTCConfiguration) {
+    this.config = config;
+  }
+
+  getSenders() {
+    return this.senders.filter((sender) => sender.track);
+  }
+
+  addTrack(track: FakeMediaStreamTrack, stream: FakeMediaStream) {
+    const sender = new FakeRtpSender(track, stream.id);
+    this.senders.push(sender);
+    this.updateNegotiationNeeded();
+    return sender;
+  }
+
+  removeTrack(sender: FakeRtpSender) {
+    sender.track = null;
+    this.updateNegotiationNeeded();
+  }
+
+  async setLocalDescription(description?: RTCSessionDescriptionInit) {
+    await nextTask();
+    this.assertOpen();
+
+    if (description?.type === 'rollback') {
+      if (this.signalingState !== 'have-local-offer') {
+        throw new Error(`InvalidStateError: nothing to roll back in ${this.signalingState}`);
+      }
+      this.signalingState = 'stable';
+      this.localDescription = this.stableLocalDescription;
+      this.rollbacks++;
+      this.updateNegotiationNeeded();
+      return;
+    }
+
+    const type = this.signalingState === 'have-remote-offer' ? 'answer' : 'offer';
+    this.localDescription = new FakeSessionDescription(type, this.describeTracks());
+    if (type === 'offer') {
+      this.signalingState = 'have-local-offer';
+    } else {
+      this.completeRound(this.localDescription.sdp);
+    }
+    this.gatherCandidate();
+  }
+
+  async setRemoteDescription(description: RTCSessionDescriptionInit) {
+    await nextTask();
+    this.assertOpen();
+
+    if (description.type === 'offer' && this.signalingState !== 'stable') {
+      throw new Error(`InvalidStateError: remote offer in ${this.signalingState}`);
+    }
+    if (description.type === 'answer' && this.signalingState !== 'have-local-offer') {
+      throw new Error(`InvalidStateError: remote answer in ${this.signalingState}`);
+    }
+
+    this.remoteDescription = new FakeSessionDescription(description.type, description.sdp ?? '');
+    this.applyRemoteTracks(JSON.parse(this.remoteDescription.sdp) as DescribedTrack[]);
+    if (description.type === 'offer') {
+      this.signalingState = 'have-remote-offer';
+    } else {
+      this.completeRound(this.localDescription!.sdp);
+    }
+  }
+
+  async addIceCandidate(candidate: RTCIceCandidateInit) {
+    await nextTask();
+    this.assertOpen();
+    if (!this.remoteDescription) {
+      throw new Error('InvalidStateError: candidate before remote description');
+    }
+    if (candidate.candidate) {
+      this.remoteCandidates++;
+      this.updateConnectionState();
+    }
+  }
+
+  restartIce() {}
+
+  close() {
+    this.signalingState = 'closed';
+    this.connectionState = 'closed';
+  }
+
+  private assertOpen() {
+    if (this.signalingState === 'closed') {
+      throw new Error('InvalidStateError: connection is closed');
+    }
+  }
+
+  private describeTracks() {
+    const tracks: DescribedTrack[] = this.senders
+      .filter((sender) => sender.track)
+      .map((sender) => ({ mid: sender.mid, kind: sender.track!.kind, streamId: sender.streamId }));
+    return JSON.stringify(tracks);
+  }
+
+  private completeRound(sdp: string) {
+    this.signalingState = 'stable';
+    this.stableLocalDescription = this.localDescription;
+    this.negotiatedTracks = sdp;
+    this.updateConnectionState();
+    this.updateNegotiationNeeded();
+  }
+
+  // Checked again whenever signaling returns to stable, like the real flag.
+  private updateNegotiationNeeded() {
+    if (this.negotiationNeededQueued) return;
+
+    this.negotiationNeededQueued = true;
+    setTimeout(() => {
+      this.negotiationNeededQueued = false;
+      if (this.signalingState === 'stable' && this.describeTracks() !== this.negotiatedTracks) {
+        this.onnegotiationneeded?.();
+      }
+    }, 0);
+  }
+
+  private gatherCandidate() {
+    if (this.candidateSent) return;
+
+    this.candidateSent = true;
+    const candidate: RTCIceCandidateInit = {
+      candidate: `candidate:${newId('ice')}`,
+      sdpMid: '0',
+      sdpMLineIndex: 0,
+    };
+    setTimeout(() => {
+      if (this.signalingState !== 'closed') {
+        this.onicecandidate?.({ candidate: { toJSON: () => candidate } });
+      }
+    }, 0);
+  }
+
+  private updateConnectionState() {
+    const next: RTCPeerConnectionState =
+      this.remoteCandidates > 0 && this.stableLocalDescription && this.remoteDescription
+        ? 'connected'
+        : 'connecting';
+    if (next !== this.connectionState) {
+      this.connectionState = next;
+      this.onconnectionstatechange?.();
+    }
+  }
+
+  private applyRemoteTracks(tracks: DescribedTrack[]) {
+    const mids = new Set(tracks.map((t) => t.mid));
+    this.remoteTracks.forEach(({ track, stream }, mid) => {
+      if (mids.has(mid)) return;
+      this.remoteTracks.delete(mid);
+      stream.removeTrack(track);
+      stream.onremovetrack?.();
+    });
+
+    tracks.forEach(({ mid, kind, streamId }) => {
+      if (this.remoteTracks.has(mid)) return;
+
+      let stream = this.remoteStreams.get(streamId);
+      if (!stream) {
+        stream = new FakeMediaStream([], streamId);
+        this.remoteStreams.set(streamId, stream);
+      }
+      const track = new FakeMediaStreamTrack(kind);
+      stream.addTrack(track);
+      this.remoteTracks.set(mid, { track, stream });
+      this.ontrack?.({ track, streams: [stream] });
+    });
+  }
+}
+
+export const createFakePeerConnection = (config: RTCConfiguration) =>
+  new FakePeerConnection(config) as unknown as RTCPeerConnection;
+
+/** A microphone-only local stream, as `getUserMedia({ audio: true })` would return. */
+export const fakeMicrophone = () =>
+  new FakeMediaStream([new FakeMediaStreamTrack('audio')]) as unknown as MediaStream;
+
+export const fakeCamera = () => new FakeMediaStreamTrack('video') as unknown as MediaStreamTrack;
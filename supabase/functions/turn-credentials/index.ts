@@ -0,0 +1,86 @@
+/*
+  # TURN Credentials
+
+  Issues short-lived TURN credentials using the TURN REST API scheme that
+  coturn implements with `use-auth-secret`: the username is
+  `<expiry unix time>:<user id>` and the password is the base64 HMAC-SHA1 of
+  the username keyed with the secret shared with the TURN server. Nothing is
+  stored; the TURN server checks the signature and expiry on its own.
+
+  Environment
+    - `TURN_URLS` comma-separated `turn:`/`turns:` URLs of the TURN server.
+    - `TURN_SECRET` the `static-auth-secret` configured on the TURN server.
+    - `TURN_TTL_SECONDS` credential lifetime, one hour by default.
+    - `STUN_URLS` optional comma-separated STUN URLs returned alongside.
+
+  Only signed-in users get credentials, so the relay can't be used by anyone
+  who merely knows the project URL.
+*/
+
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const DEFAULT_TTL_SECONDS = 3600;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const splitUrls = (value: string | undefined) =>
+  (value ?? '')
+    .split(',')
+    .map((url) => url.trim())
+    .filter(Boolean);
+
+async function sign(secret: string, username: string) {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(username));
+  return btoa(String.fromCharCode(...new Uint8Array(signature)));
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_ANON_KEY')!,
+    { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } }
+  );
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return json({ error: 'Not signed in' }, 401);
+  }
+
+  const stunUrls = splitUrls(Deno.env.get('STUN_URLS'));
+  const turnUrls = splitUrls(Deno.env.get('TURN_URLS'));
+  const secret = Deno.env.get('TURN_SECRET');
+  const ttl = Number(Deno.env.get('TURN_TTL_SECONDS')) || DEFAULT_TTL_SECONDS;
+
+  const iceServers: { urls: string[]; username?: string; credential?: string }[] = [];
+  if (stunUrls.length > 0) {
+    iceServers.push({ urls: stunUrls });
+  }
+  if (turnUrls.length > 0 && secret) {
+    const username = `${Math.floor(Date.now() / 1000) + ttl}:${user.id}`;
+    iceServers.push({ urls: turnUrls, username, credential: await sign(secret, username) });
+  }
+
+  return json({ iceServers, ttl });
+});
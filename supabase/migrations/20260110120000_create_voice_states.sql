@@ -0,0 +1,65 @@
+/*
+  # Voice Channel Presence
+  
+  1. New Tables
+    - `voice_states`
+      - `id` (uuid, primary key)
+      - `room_id` (uuid, references rooms)
+      - `user_id` (uuid, references auth.users, unique: one voice channel at a time)
+      - `is_muted` (boolean)
+      - `is_deafened` (boolean)
+      - `is_video_on` (boolean)
+      - `is_screen_sharing` (boolean)
+      - `joined_at` (timestamptz)
+      - `updated_at` (timestamptz)
+  
+  2. Security
+    - Enable RLS
+    - Any authenticated user can see who is in voice
+    - Users can only create, update and remove their own voice state
+  
+  3. Realtime
+    - Publish changes so rosters update live; full replica identity so
+      DELETE events carry `room_id` for filtered subscriptions
+*/
+
+CREATE TABLE IF NOT EXISTS voice_states (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id uuid REFERENCES rooms(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  is_muted boolean DEFAULT false NOT NULL,
+  is_deafened boolean DEFAULT false NOT NULL,
+  is_video_on boolean DEFAULT false NOT NULL,
+  is_screen_sharing boolean DEFAULT false NOT NULL,
+  joined_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(user_id)
+);
+
+ALTER TABLE voice_states ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view voice states"
+  ON voice_states FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can join voice"
+  ON voice_states FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own voice state"
+  ON voice_states FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can leave voice"
+  ON voice_states FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS voice_states_room_id_idx ON voice_states(room_id);
+
+ALTER TABLE voice_states REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE voice_states;
@@ -0,0 +1,81 @@
+/*
+  # Presence Heartbeat and User Status
+  
+  1. Modified Tables
+    - `user_profiles`
+      - `status` (text: online, idle, dnd, invisible)
+    - `room_participants`
+      - `last_seen_at` (timestamptz, bumped by the client heartbeat)
+  
+  2. Views
+    - `user_statuses` (user_id, status): the status other users see, with
+      invisible reported as offline. Users see their own setting unchanged.
+
+  3. Functions
+    - `expire_stale_presence()` marks participants whose heartbeat stopped as
+      offline and clears their voice states, so a crashed tab or dropped
+      connection doesn't leave a user "online" forever
+    - Scheduled every minute through pg_cron when the extension is available
+
+  4. Security
+    - RLS can't hide a column, so `user_profiles.status` is withheld through
+      column privileges; it is only readable through `user_statuses`
+*/
+
+ALTER TABLE user_profiles
+  ADD COLUMN IF NOT EXISTS status text DEFAULT 'online' NOT NULL
+  CHECK (status IN ('online', 'idle', 'dnd', 'invisible'));
+
+REVOKE SELECT ON user_profiles FROM anon, authenticated;
+GRANT SELECT (id, username, avatar_url, created_at) ON user_profiles TO authenticated;
+
+CREATE OR REPLACE VIEW user_statuses AS
+SELECT
+  id AS user_id,
+  CASE
+    WHEN status = 'invisible' AND id IS DISTINCT FROM auth.uid() THEN 'offline'
+    ELSE status
+  END AS status
+FROM user_profiles;
+
+REVOKE ALL ON user_statuses FROM anon, authenticated;
+GRANT SELECT ON user_statuses TO authenticated;
+
+ALTER TABLE room_participants
+  ADD COLUMN IF NOT EXISTS last_seen_at timestamptz DEFAULT now();
+
+CREATE INDEX IF NOT EXISTS room_participants_last_seen_at_idx
+  ON room_participants(last_seen_at)
+  WHERE is_online = true;
+
+CREATE OR REPLACE FUNCTION expire_stale_presence()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE room_participants
+  SET is_online = false
+  WHERE is_online = true
+  AND last_seen_at < now() - interval '2 minutes';
+
+  DELETE FROM voice_states
+  WHERE updated_at < now() - interval '2 minutes';
+END;
+$$;
+
+REVOKE ALL ON FUNCTION expire_stale_presence() FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule(
+      'expire-stale-presence',
+      '* * * * *',
+      'SELECT public.expire_stale_presence()'
+    );
+  END IF;
+END;
+$$;
@@ -0,0 +1,11 @@
+/*
+  # Message History Pagination
+  
+  1. Indexes
+    - Composite (room_id, created_at DESC, id DESC) index backing the
+      newest-first page and the (created_at, id) keyset cursor used when
+      scrolling back through a room's history
+*/
+
+CREATE INDEX IF NOT EXISTS messages_room_created_at_id_idx
+  ON messages(room_id, created_at DESC, id DESC);
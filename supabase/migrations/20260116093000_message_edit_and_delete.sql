@@ -0,0 +1,90 @@
+/*
+  # Message Editing and Deletion
+  
+  1. Modified Tables
+    - `messages`
+      - `edited_at` (timestamptz, set whenever the content changes)
+      - `deleted_at` (timestamptz, soft-delete tombstone)
+  
+  2. New Tables
+    - `message_revisions`
+      - `id` (uuid, primary key)
+      - `message_id` (uuid, references messages)
+      - `content` (text, the content before the edit)
+      - `created_at` (timestamptz, when it was replaced)
+  
+  3. Triggers
+    - `messages_before_update` keeps room, author and timestamp immutable,
+      records the previous content as a revision and stamps `edited_at`;
+      on soft delete it blanks the content and drops its revision history
+  
+  4. Security
+    - Authors can update their own messages (not once tombstoned)
+    - There is no DELETE policy: messages are only ever deleted by setting
+      `deleted_at`, so the tombstone, thread parents and any later
+      moderation logging always apply
+    - Revisions are readable by anyone who can read the message
+*/
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS edited_at timestamptz;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS message_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid REFERENCES messages(id) ON DELETE CASCADE NOT NULL,
+  content text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE message_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view revisions of messages they can see"
+  ON message_revisions FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM messages
+      WHERE messages.id = message_revisions.message_id
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS message_revisions_message_id_idx
+  ON message_revisions(message_id, created_at);
+
+CREATE POLICY "Users can edit their own messages"
+  ON messages FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id AND deleted_at IS NULL)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION messages_before_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.room_id := OLD.room_id;
+  NEW.user_id := OLD.user_id;
+  NEW.created_at := OLD.created_at;
+
+  IF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+    NEW.deleted_at := now();
+    NEW.content := '';
+    DELETE FROM message_revisions WHERE message_id = OLD.id;
+  ELSIF NEW.content IS DISTINCT FROM OLD.content THEN
+    INSERT INTO message_revisions (message_id, content, created_at)
+    VALUES (OLD.id, OLD.content, now());
+    NEW.edited_at := now();
+  ELSE
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER messages_before_update
+  BEFORE UPDATE ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION messages_before_update();
@@ -0,0 +1,131 @@
+/*
+  # Threads and Replies
+  
+  1. Modified Tables
+    - `messages`
+      - `parent_id` (uuid, the message being quote-replied to)
+      - `thread_id` (uuid, root message of the thread this reply belongs to;
+        thread replies are hidden from the main room feed)
+      - `reply_count` (integer, maintained on thread roots)
+      - `last_reply_at` (timestamptz, maintained on thread roots)
+  
+  2. Triggers
+    - `messages_validate_reply` rejects replies that point into another room
+      and flattens nested threads onto their root
+    - `messages_after_thread_reply` bumps the root's counters on insert and
+      hard delete so reply counts update live through the existing UPDATE feed
+    - `messages_before_update` now also keeps reply links and counters fixed
+      against direct edits
+*/
+
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS parent_id uuid REFERENCES messages(id) ON DELETE SET NULL;
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS thread_id uuid REFERENCES messages(id) ON DELETE CASCADE;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS reply_count integer DEFAULT 0 NOT NULL;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS last_reply_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS messages_thread_id_idx ON messages(thread_id, created_at);
+CREATE INDEX IF NOT EXISTS messages_parent_id_idx ON messages(parent_id);
+
+CREATE OR REPLACE FUNCTION messages_validate_reply()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  root_thread_id uuid;
+BEGIN
+  IF NEW.parent_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM messages WHERE id = NEW.parent_id AND room_id = NEW.room_id
+  ) THEN
+    RAISE EXCEPTION 'Reply target is not in this room';
+  END IF;
+
+  IF NEW.thread_id IS NOT NULL THEN
+    SELECT thread_id INTO root_thread_id
+    FROM messages
+    WHERE id = NEW.thread_id AND room_id = NEW.room_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Thread root is not in this room';
+    END IF;
+
+    NEW.thread_id := COALESCE(root_thread_id, NEW.thread_id);
+  END IF;
+
+  NEW.reply_count := 0;
+  NEW.last_reply_at := NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER messages_validate_reply
+  BEFORE INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION messages_validate_reply();
+
+CREATE OR REPLACE FUNCTION messages_after_thread_reply()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.thread_id IS NOT NULL THEN
+    UPDATE messages
+    SET reply_count = reply_count + 1,
+        last_reply_at = NEW.created_at
+    WHERE id = NEW.thread_id;
+  ELSIF TG_OP = 'DELETE' AND OLD.thread_id IS NOT NULL THEN
+    UPDATE messages
+    SET reply_count = GREATEST(reply_count - 1, 0)
+    WHERE id = OLD.thread_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER messages_after_thread_reply
+  AFTER INSERT OR DELETE ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION messages_after_thread_reply();
+
+CREATE OR REPLACE FUNCTION messages_before_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.room_id := OLD.room_id;
+  NEW.user_id := OLD.user_id;
+  NEW.created_at := OLD.created_at;
+
+  -- Reply links and counters may only change from nested triggers: the
+  -- ON DELETE SET NULL action and messages_after_thread_reply.
+  IF pg_trigger_depth() = 1 THEN
+    NEW.parent_id := OLD.parent_id;
+    NEW.thread_id := OLD.thread_id;
+    NEW.reply_count := OLD.reply_count;
+    NEW.last_reply_at := OLD.last_reply_at;
+  END IF;
+
+  IF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+    NEW.deleted_at := now();
+    NEW.content := '';
+    DELETE FROM message_revisions WHERE message_id = OLD.id;
+  ELSIF NEW.content IS DISTINCT FROM OLD.content THEN
+    INSERT INTO message_revisions (message_id, content, created_at)
+    VALUES (OLD.id, OLD.content, now());
+    NEW.edited_at := now();
+  ELSE
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,89 @@
+/*
+  # Message Reactions
+  
+  1. New Tables
+    - `message_reactions`
+      - `id` (uuid, primary key)
+      - `message_id` (uuid, references messages)
+      - `room_id` (uuid, references rooms; copied from the message so
+        reactions can be filtered per room in RLS and realtime)
+      - `user_id` (uuid, references auth.users)
+      - `emoji` (text)
+      - `created_at` (timestamptz)
+      - one reaction per user, message and emoji
+  
+  2. Security
+    - Enable RLS
+    - Same "rooms they're in" membership check as `messages` for reading
+      and reacting
+    - Users can only remove their own reactions
+*/
+
+CREATE TABLE IF NOT EXISTS message_reactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid REFERENCES messages(id) ON DELETE CASCADE NOT NULL,
+  room_id uuid REFERENCES rooms(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  emoji text NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 32),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(message_id, user_id, emoji)
+);
+
+ALTER TABLE message_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view reactions in rooms they're in"
+  ON message_reactions FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM room_participants
+      WHERE room_participants.room_id = message_reactions.room_id
+      AND room_participants.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can react in rooms they're in"
+  ON message_reactions FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id AND
+    EXISTS (
+      SELECT 1 FROM room_participants
+      WHERE room_participants.room_id = message_reactions.room_id
+      AND room_participants.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can remove their own reactions"
+  ON message_reactions FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION message_reactions_set_room()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT room_id INTO NEW.room_id
+  FROM messages
+  WHERE id = NEW.message_id AND deleted_at IS NULL;
+
+  IF NEW.room_id IS NULL THEN
+    RAISE EXCEPTION 'Cannot react to this message';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER message_reactions_set_room
+  BEFORE INSERT ON message_reactions
+  FOR EACH ROW
+  EXECUTE FUNCTION message_reactions_set_room();
+
+CREATE INDEX IF NOT EXISTS message_reactions_message_id_idx ON message_reactions(message_id);
+CREATE INDEX IF NOT EXISTS message_reactions_room_id_idx ON message_reactions(room_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE message_reactions;
@@ -0,0 +1,13 @@
+/*
+  # Message Content Length
+
+  1. Constraints
+    - `messages.content` is limited to 4000 characters. Besides keeping
+      rows small, this bounds how much markdown a single message can make
+      every client in the room parse and render.
+    - Added `NOT VALID` so existing rows aren't rechecked; every new or
+      edited message is.
+*/
+
+ALTER TABLE messages
+  ADD CONSTRAINT messages_content_length CHECK (char_length(content) <= 4000) NOT VALID;
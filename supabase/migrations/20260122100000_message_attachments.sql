@@ -0,0 +1,183 @@
+/*
+  # Message Attachments
+  
+  1. Storage
+    - Private `attachments` bucket, 25 MB per file, limited to an explicit
+      list of image, video and audio formats, PDFs, plain text, CSV,
+      Markdown, JSON and archives. Uploaders declare the type themselves, so
+      nothing a browser would run (HTML, SVG, XML) is allowed, and the client
+      serves anything but images and video as a download
+    - Objects live at `{room_id}/{user_id}/{uuid}-{file name}`; room members
+      can read a room's files, and users can upload or remove only their own
+  
+  2. New Tables
+    - `message_attachments`
+      - `id` (uuid, primary key)
+      - `message_id` (uuid, references messages)
+      - `room_id` (uuid, references rooms)
+      - `storage_path` (text, object path in the bucket)
+      - `file_name` (text)
+      - `mime_type` (text)
+      - `size_bytes` (bigint)
+      - `width` / `height` (integer, images and video only)
+      - `created_at` (timestamptz)
+  
+  3. Functions
+    - `send_message(...)` inserts a message and its attachments in one
+      transaction so realtime subscribers never see a message without them
+    - `messages_after_soft_delete` drops a tombstoned message's attachment
+      rows (the client removes the stored files)
+  
+  4. Security
+    - Enable RLS; the same room membership check as `messages` for reading,
+      and only the message author can attach files
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'attachments',
+  'attachments',
+  false,
+  26214400,
+  ARRAY[
+    'image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/avif',
+    'video/mp4', 'video/webm', 'video/quicktime',
+    'audio/mpeg', 'audio/mp4', 'audio/ogg', 'audio/wav', 'audio/webm',
+    'application/pdf', 'text/plain', 'text/csv', 'text/markdown',
+    'application/json', 'application/zip', 'application/gzip', 'application/x-tar'
+  ]
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Room members can read attachments"
+  ON storage.objects FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'attachments' AND
+    EXISTS (
+      SELECT 1 FROM public.room_participants
+      WHERE room_participants.room_id::text = (storage.foldername(name))[1]
+      AND room_participants.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Room members can upload their own attachments"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'attachments' AND
+    (storage.foldername(name))[2] = auth.uid()::text AND
+    EXISTS (
+      SELECT 1 FROM public.room_participants
+      WHERE room_participants.room_id::text = (storage.foldername(name))[1]
+      AND room_participants.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can remove their own attachments"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'attachments' AND
+    (storage.foldername(name))[2] = auth.uid()::text
+  );
+
+CREATE TABLE IF NOT EXISTS message_attachments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid REFERENCES messages(id) ON DELETE CASCADE NOT NULL,
+  room_id uuid REFERENCES rooms(id) ON DELETE CASCADE NOT NULL,
+  storage_path text NOT NULL,
+  file_name text NOT NULL,
+  mime_type text NOT NULL,
+  size_bytes bigint NOT NULL CHECK (size_bytes >= 0),
+  width integer,
+  height integer,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE message_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view attachments in rooms they're in"
+  ON message_attachments FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM room_participants
+      WHERE room_participants.room_id = message_attachments.room_id
+      AND room_participants.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Authors can attach files to their messages"
+  ON message_attachments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    storage_path LIKE room_id::text || '/' || auth.uid()::text || '/%' AND
+    EXISTS (
+      SELECT 1 FROM messages
+      WHERE messages.id = message_attachments.message_id
+      AND messages.room_id = message_attachments.room_id
+      AND messages.user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS message_attachments_message_id_idx ON message_attachments(message_id);
+
+CREATE OR REPLACE FUNCTION send_message(
+  p_room_id uuid,
+  p_content text,
+  p_parent_id uuid DEFAULT NULL,
+  p_thread_id uuid DEFAULT NULL,
+  p_attachments jsonb DEFAULT '[]'::jsonb
+)
+RETURNS messages
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  new_message messages;
+BEGIN
+  IF coalesce(btrim(p_content), '') = '' AND jsonb_array_length(p_attachments) = 0 THEN
+    RAISE EXCEPTION 'Message is empty';
+  END IF;
+
+  INSERT INTO messages (room_id, user_id, content, parent_id, thread_id)
+  VALUES (p_room_id, auth.uid(), coalesce(p_content, ''), p_parent_id, p_thread_id)
+  RETURNING * INTO new_message;
+
+  INSERT INTO message_attachments (
+    message_id, room_id, storage_path, file_name, mime_type, size_bytes, width, height
+  )
+  SELECT
+    new_message.id,
+    p_room_id,
+    attachment->>'storage_path',
+    attachment->>'file_name',
+    attachment->>'mime_type',
+    (attachment->>'size_bytes')::bigint,
+    (attachment->>'width')::integer,
+    (attachment->>'height')::integer
+  FROM jsonb_array_elements(p_attachments) AS attachment;
+
+  RETURN new_message;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION messages_after_soft_delete()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM message_attachments WHERE message_id = NEW.id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER messages_after_soft_delete
+  AFTER UPDATE OF deleted_at ON messages
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL)
+  EXECUTE FUNCTION messages_after_soft_delete();
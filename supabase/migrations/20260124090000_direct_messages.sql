@@ -0,0 +1,146 @@
+/*
+  # Direct Messages and Group DMs
+
+  1. Modified Tables
+    - `rooms`
+      - `kind` (text: public, dm, group_dm)
+      - `dm_key` (text, unique: the two member ids in sorted order, so a pair
+        of users always lands in the same one-to-one conversation)
+
+  2. Functions
+    - `can_access_room(room_id)` is true for public rooms and for rooms the
+      caller is a member of; SECURITY DEFINER so policies on
+      `room_participants` can use it without recursing into themselves
+    - `open_direct_message(user_ids)` returns the existing one-to-one DM for
+      a pair of users, or creates a DM / group DM with every member already
+      added (users can't join a DM on their own)
+
+  3. Security
+    - Rooms, participant lists and voice states of DMs are only visible to
+      their members; `messages` and attachments already require membership
+    - Only public rooms can be created directly
+
+  4. Realtime
+    - Publish `room_participants` so a user's DM list picks up conversations
+      someone else starts with them
+*/
+
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS kind text DEFAULT 'public' NOT NULL
+  CHECK (kind IN ('public', 'dm', 'group_dm'));
+
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS dm_key text UNIQUE;
+
+CREATE INDEX IF NOT EXISTS rooms_kind_idx ON rooms(kind);
+
+CREATE OR REPLACE FUNCTION can_access_room(p_room_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM rooms WHERE id = p_room_id AND kind = 'public'
+  ) OR EXISTS (
+    SELECT 1 FROM room_participants
+    WHERE room_id = p_room_id AND user_id = auth.uid()
+  );
+$$;
+
+DROP POLICY IF EXISTS "Authenticated users can view active rooms" ON rooms;
+CREATE POLICY "Users can view active rooms they can access"
+  ON rooms FOR SELECT
+  TO authenticated
+  USING (is_active = true AND (kind = 'public' OR can_access_room(id)));
+
+DROP POLICY IF EXISTS "Authenticated users can create rooms" ON rooms;
+CREATE POLICY "Authenticated users can create public rooms"
+  ON rooms FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = created_by AND kind = 'public' AND dm_key IS NULL);
+
+DROP POLICY IF EXISTS "Users can view participants in rooms" ON room_participants;
+CREATE POLICY "Users can view participants in rooms they can access"
+  ON room_participants FOR SELECT
+  TO authenticated
+  USING (can_access_room(room_id));
+
+-- Members of a DM upsert their own row when they open it, which this still
+-- allows; anyone else is turned away.
+DROP POLICY IF EXISTS "Users can join rooms" ON room_participants;
+CREATE POLICY "Users can join rooms they can access"
+  ON room_participants FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND can_access_room(room_id));
+
+DROP POLICY IF EXISTS "Users can view voice states" ON voice_states;
+CREATE POLICY "Users can view voice states in rooms they can access"
+  ON voice_states FOR SELECT
+  TO authenticated
+  USING (can_access_room(room_id));
+
+DROP POLICY IF EXISTS "Users can join voice" ON voice_states;
+CREATE POLICY "Users can join voice in rooms they can access"
+  ON voice_states FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND can_access_room(room_id));
+
+CREATE OR REPLACE FUNCTION open_direct_message(p_user_ids uuid[])
+RETURNS rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  member_ids uuid[];
+  pair_key text;
+  room rooms;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT array_agg(DISTINCT id ORDER BY id) INTO member_ids
+  FROM unnest(array_append(p_user_ids, auth.uid())) AS id;
+
+  IF array_length(member_ids, 1) < 2 THEN
+    RAISE EXCEPTION 'A direct message needs at least one other user';
+  END IF;
+  IF array_length(member_ids, 1) > 10 THEN
+    RAISE EXCEPTION 'Group DMs are limited to 10 members';
+  END IF;
+  IF (SELECT count(*) FROM user_profiles WHERE id = ANY(member_ids)) <> array_length(member_ids, 1) THEN
+    RAISE EXCEPTION 'Unknown user';
+  END IF;
+
+  IF array_length(member_ids, 1) = 2 THEN
+    pair_key := array_to_string(member_ids, ':');
+    SELECT * INTO room FROM rooms WHERE dm_key = pair_key;
+    IF FOUND THEN
+      RETURN room;
+    END IF;
+  END IF;
+
+  INSERT INTO rooms (name, created_by, kind, dm_key)
+  VALUES (
+    (SELECT string_agg(username, ', ' ORDER BY username) FROM user_profiles WHERE id = ANY(member_ids)),
+    auth.uid(),
+    CASE WHEN pair_key IS NULL THEN 'group_dm' ELSE 'dm' END,
+    pair_key
+  )
+  RETURNING * INTO room;
+
+  INSERT INTO room_participants (room_id, user_id, is_online)
+  SELECT room.id, id, id = auth.uid()
+  FROM unnest(member_ids) AS id;
+
+  RETURN room;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION open_direct_message(uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION open_direct_message(uuid[]) TO authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE room_participants;
@@ -0,0 +1,346 @@
+/*
+  # Private Rooms, Invites and Membership Roles
+
+  1. Modified Tables
+    - `rooms`
+      - `is_private` (boolean; private rooms are hidden from non-members and
+        can only be joined through an invite)
+    - `room_participants`
+      - `role` (text: owner, moderator, member); creators of existing public
+        rooms are backfilled as owners. DMs and group DMs have no owner.
+
+  2. New Tables
+    - `room_invites`
+      - `id` (uuid, primary key)
+      - `room_id` (uuid, references rooms)
+      - `code` (text, unique, random)
+      - `created_by` (uuid, references auth.users)
+      - `created_at` (timestamptz)
+      - `expires_at` (timestamptz, null for no expiry)
+      - `max_uses` (integer, null for unlimited)
+      - `uses` (integer)
+
+  3. Functions
+    - `room_role(room_id)` returns the caller's role in a room, or null
+    - `can_access_room(room_id)` now excludes private rooms for non-members
+    - `create_room(...)` creates a room with the caller as its owner
+    - `redeem_room_invite(code)` checks expiry and usage limits, then adds
+      the caller as a member
+    - `set_room_member_role(...)` lets owners promote and demote moderators
+    - `messages_before_update` additionally stops anyone but the author from
+      changing a message other than to delete it
+
+  4. Security
+    - Rooms are only created through `create_room`
+    - Reading and sending messages requires membership; owners and
+      moderators can delete anyone's messages and attachments in their room
+    - Members can't change their own role, and owners can't leave
+    - Invites are visible to and managed by the room's owners and moderators
+*/
+
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS is_private boolean DEFAULT false NOT NULL;
+
+ALTER TABLE room_participants
+  ADD COLUMN IF NOT EXISTS role text DEFAULT 'member' NOT NULL
+  CHECK (role IN ('owner', 'moderator', 'member'));
+
+INSERT INTO room_participants (room_id, user_id, role, is_online)
+SELECT id, created_by, 'owner', false
+FROM rooms
+WHERE created_by IS NOT NULL
+AND kind = 'public'
+ON CONFLICT (room_id, user_id) DO UPDATE SET role = 'owner';
+
+CREATE OR REPLACE FUNCTION room_role(p_room_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM room_participants
+  WHERE room_id = p_room_id AND user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION can_access_room(p_room_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM rooms
+    WHERE id = p_room_id AND kind = 'public' AND NOT is_private
+  ) OR EXISTS (
+    SELECT 1 FROM room_participants
+    WHERE room_id = p_room_id AND user_id = auth.uid()
+  );
+$$;
+
+-- Rooms
+
+DROP POLICY IF EXISTS "Users can view active rooms they can access" ON rooms;
+CREATE POLICY "Users can view active rooms they can access"
+  ON rooms FOR SELECT
+  TO authenticated
+  USING (
+    is_active = true AND
+    ((kind = 'public' AND NOT is_private) OR can_access_room(id))
+  );
+
+DROP POLICY IF EXISTS "Authenticated users can create public rooms" ON rooms;
+
+CREATE OR REPLACE FUNCTION create_room(
+  p_name text,
+  p_description text DEFAULT '',
+  p_is_private boolean DEFAULT false
+)
+RETURNS rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  room rooms;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF coalesce(btrim(p_name), '') = '' THEN
+    RAISE EXCEPTION 'Room name is required';
+  END IF;
+
+  INSERT INTO rooms (name, description, created_by, is_private)
+  VALUES (btrim(p_name), coalesce(p_description, ''), auth.uid(), p_is_private)
+  RETURNING * INTO room;
+
+  INSERT INTO room_participants (room_id, user_id, role)
+  VALUES (room.id, auth.uid(), 'owner');
+
+  RETURN room;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION create_room(text, text, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_room(text, text, boolean) TO authenticated;
+
+-- Participants
+
+-- New rows always start as plain members; the heartbeat upsert of an
+-- existing row hits the conflict path and leaves the role alone.
+DROP POLICY IF EXISTS "Users can join rooms they can access" ON room_participants;
+CREATE POLICY "Users can join rooms they can access"
+  ON room_participants FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id AND
+    role = 'member' AND
+    can_access_room(room_id)
+  );
+
+DROP POLICY IF EXISTS "Users can update their own participation" ON room_participants;
+CREATE POLICY "Users can update their own participation"
+  ON room_participants FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id AND role = room_role(room_id));
+
+DROP POLICY IF EXISTS "Users can leave rooms" ON room_participants;
+CREATE POLICY "Users can leave rooms"
+  ON room_participants FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id AND role <> 'owner');
+
+CREATE OR REPLACE FUNCTION set_room_member_role(
+  p_room_id uuid,
+  p_user_id uuid,
+  p_role text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF room_role(p_room_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only the room owner can change roles';
+  END IF;
+  IF p_role NOT IN ('moderator', 'member') THEN
+    RAISE EXCEPTION 'Invalid role';
+  END IF;
+
+  UPDATE room_participants
+  SET role = p_role
+  WHERE room_id = p_room_id AND user_id = p_user_id AND role <> 'owner';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION set_room_member_role(uuid, uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_room_member_role(uuid, uuid, text) TO authenticated;
+
+-- Messages
+
+DROP POLICY IF EXISTS "Users can view messages in rooms they're in" ON messages;
+CREATE POLICY "Members can view messages"
+  ON messages FOR SELECT
+  TO authenticated
+  USING (room_role(room_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Users can send messages to rooms they're in" ON messages;
+CREATE POLICY "Members can send messages"
+  ON messages FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND room_role(room_id) IS NOT NULL);
+
+CREATE POLICY "Moderators can delete messages in their rooms"
+  ON messages FOR UPDATE
+  TO authenticated
+  USING (deleted_at IS NULL AND room_role(room_id) IN ('owner', 'moderator'))
+  WITH CHECK (room_role(room_id) IN ('owner', 'moderator'));
+
+CREATE OR REPLACE FUNCTION messages_before_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.room_id := OLD.room_id;
+  NEW.user_id := OLD.user_id;
+  NEW.created_at := OLD.created_at;
+
+  -- Reply links and counters may only change from nested triggers: the
+  -- ON DELETE SET NULL action and messages_after_thread_reply.
+  IF pg_trigger_depth() = 1 THEN
+    NEW.parent_id := OLD.parent_id;
+    NEW.thread_id := OLD.thread_id;
+    NEW.reply_count := OLD.reply_count;
+    NEW.last_reply_at := OLD.last_reply_at;
+
+    -- Moderators reach other people's messages only to delete them.
+    IF auth.uid() IS DISTINCT FROM OLD.user_id
+      AND NOT (OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL) THEN
+      RAISE EXCEPTION 'Only the author can edit a message';
+    END IF;
+  END IF;
+
+  IF OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN
+    NEW.deleted_at := now();
+    NEW.content := '';
+    DELETE FROM message_revisions WHERE message_id = OLD.id;
+  ELSIF NEW.content IS DISTINCT FROM OLD.content THEN
+    INSERT INTO message_revisions (message_id, content, created_at)
+    VALUES (OLD.id, OLD.content, now());
+    NEW.edited_at := now();
+  ELSE
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE POLICY "Room moderators can remove attachments"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'attachments' AND
+    EXISTS (
+      SELECT 1 FROM public.room_participants
+      WHERE room_participants.room_id::text = (storage.foldername(name))[1]
+      AND room_participants.user_id = auth.uid()
+      AND room_participants.role IN ('owner', 'moderator')
+    )
+  );
+
+-- Invites
+
+CREATE TABLE IF NOT EXISTS room_invites (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id uuid REFERENCES rooms(id) ON DELETE CASCADE NOT NULL,
+  code text UNIQUE NOT NULL DEFAULT substr(replace(gen_random_uuid()::text, '-', ''), 1, 10),
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  expires_at timestamptz,
+  max_uses integer CHECK (max_uses > 0),
+  uses integer DEFAULT 0 NOT NULL
+);
+
+ALTER TABLE room_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Moderators can view invites to their rooms"
+  ON room_invites FOR SELECT
+  TO authenticated
+  USING (room_role(room_id) IN ('owner', 'moderator'));
+
+CREATE POLICY "Moderators can create invites to their rooms"
+  ON room_invites FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = created_by AND
+    uses = 0 AND
+    room_role(room_id) IN ('owner', 'moderator')
+  );
+
+CREATE POLICY "Moderators can revoke invites to their rooms"
+  ON room_invites FOR DELETE
+  TO authenticated
+  USING (room_role(room_id) IN ('owner', 'moderator'));
+
+CREATE INDEX IF NOT EXISTS room_invites_room_id_idx ON room_invites(room_id);
+
+CREATE OR REPLACE FUNCTION redeem_room_invite(p_code text)
+RETURNS rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invite room_invites;
+  room rooms;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO invite FROM room_invites WHERE code = btrim(p_code) FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This invite is invalid or has been revoked';
+  END IF;
+
+  SELECT * INTO room FROM rooms WHERE id = invite.room_id AND is_active = true;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This room no longer exists';
+  END IF;
+
+  -- Existing members just get the room back without using up the invite.
+  IF EXISTS (
+    SELECT 1 FROM room_participants
+    WHERE room_id = room.id AND user_id = auth.uid()
+  ) THEN
+    RETURN room;
+  END IF;
+
+  IF invite.expires_at IS NOT NULL AND invite.expires_at <= now() THEN
+    RAISE EXCEPTION 'This invite has expired';
+  END IF;
+  IF invite.max_uses IS NOT NULL AND invite.uses >= invite.max_uses THEN
+    RAISE EXCEPTION 'This invite has reached its usage limit';
+  END IF;
+
+  INSERT INTO room_participants (room_id, user_id, role)
+  VALUES (room.id, auth.uid(), 'member');
+
+  UPDATE room_invites SET uses = uses + 1 WHERE id = invite.id;
+
+  RETURN room;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION redeem_room_invite(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION redeem_room_invite(text) TO authenticated;
@@ -0,0 +1,125 @@
+/*
+  # Room Settings: Topic, Archiving, Deletion and Ownership Transfer
+
+  1. Modified Tables
+    - `rooms`
+      - `topic` (text, shown in the room header)
+
+  2. Functions
+    - `rooms_before_update` keeps identity columns (including `kind`)
+      immutable and only lets the owner archive, unarchive or change the
+      privacy of a room
+    - `transfer_room_ownership(room_id, user_id)` hands the owner role to
+      another member and makes the previous owner a moderator
+
+  3. Security
+    - Archived rooms (`is_active = false`) stay visible to whoever could see
+      them before, so the change reaches every client over realtime; clients
+      list them separately
+    - Owners and moderators can edit name, description and topic; the
+      creator-based update policy is replaced. Making a private room public
+      would expose its history and members, so that stays with the owner
+    - Only owners can delete a room
+    - Messages can't be sent to archived rooms
+*/
+
+ALTER TABLE rooms ADD COLUMN IF NOT EXISTS topic text DEFAULT '' NOT NULL;
+
+DROP POLICY IF EXISTS "Users can view active rooms they can access" ON rooms;
+CREATE POLICY "Users can view rooms they can access"
+  ON rooms FOR SELECT
+  TO authenticated
+  USING ((kind = 'public' AND NOT is_private) OR can_access_room(id));
+
+DROP POLICY IF EXISTS "Room creators can update their rooms" ON rooms;
+CREATE POLICY "Moderators can update their rooms"
+  ON rooms FOR UPDATE
+  TO authenticated
+  USING (room_role(id) IN ('owner', 'moderator'))
+  WITH CHECK (room_role(id) IN ('owner', 'moderator'));
+
+CREATE POLICY "Owners can delete their rooms"
+  ON rooms FOR DELETE
+  TO authenticated
+  USING (room_role(id) = 'owner');
+
+CREATE OR REPLACE FUNCTION rooms_before_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.created_by := OLD.created_by;
+  NEW.created_at := OLD.created_at;
+  NEW.kind := OLD.kind;
+  NEW.dm_key := OLD.dm_key;
+
+  IF NEW.is_active IS DISTINCT FROM OLD.is_active
+    AND room_role(OLD.id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only the room owner can archive or unarchive it';
+  END IF;
+
+  IF NEW.is_private IS DISTINCT FROM OLD.is_private
+    AND room_role(OLD.id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only the room owner can change who can see it';
+  END IF;
+
+  IF coalesce(btrim(NEW.name), '') = '' THEN
+    RAISE EXCEPTION 'Room name is required';
+  END IF;
+  NEW.name := btrim(NEW.name);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER rooms_before_update
+  BEFORE UPDATE ON rooms
+  FOR EACH ROW
+  EXECUTE FUNCTION rooms_before_update();
+
+CREATE OR REPLACE FUNCTION transfer_room_ownership(p_room_id uuid, p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF room_role(p_room_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only the room owner can transfer ownership';
+  END IF;
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You already own this room';
+  END IF;
+
+  UPDATE room_participants
+  SET role = 'owner'
+  WHERE room_id = p_room_id AND user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The new owner must be a member of the room';
+  END IF;
+
+  UPDATE room_participants
+  SET role = 'moderator'
+  WHERE room_id = p_room_id AND user_id = auth.uid();
+END;
+$$;
+
+REVOKE ALL ON FUNCTION transfer_room_ownership(uuid, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION transfer_room_ownership(uuid, uuid) TO authenticated;
+
+DROP POLICY IF EXISTS "Members can send messages" ON messages;
+CREATE POLICY "Members can send messages to active rooms"
+  ON messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id AND
+    room_role(room_id) IS NOT NULL AND
+    EXISTS (
+      SELECT 1 FROM rooms
+      WHERE rooms.id = messages.room_id
+      AND rooms.is_active = true
+    )
+  );
@@ -0,0 +1,512 @@
+/*
+  # Moderation: Kick, Ban, Timeout, Slow Mode and Audit Log
+
+  1. Modified Tables
+    - `rooms`
+      - `slow_mode_seconds` (integer, 0 = off; minimum gap between one
+        user's messages)
+    - `room_participants`
+      - `timed_out_until` (timestamptz, no posting until then; a copy of the
+        member's `room_timeouts` entry for display)
+
+  2. New Tables
+    - `room_bans`
+      - `id` (uuid, primary key)
+      - `room_id` (uuid, references rooms)
+      - `user_id` (uuid, references auth.users)
+      - `banned_by` (uuid, references auth.users)
+      - `reason` (text)
+      - `created_at` (timestamptz)
+    - `room_timeouts`
+      - `room_id` / `user_id` (primary key)
+      - `timed_out_until` (timestamptz)
+    - `moderation_log`
+      - `id` (uuid, primary key)
+      - `room_id` (uuid, references rooms)
+      - `actor_id` (uuid, references auth.users)
+      - `target_user_id` (uuid, references auth.users, null for room-wide actions)
+      - `action` (text: kick, ban, unban, timeout, clear_timeout, slow_mode,
+        delete_message)
+      - `reason` (text)
+      - `details` (jsonb)
+      - `created_at` (timestamptz)
+
+  3. Functions
+    - `kick_room_member`, `ban_room_member`, `unban_room_member` and
+      `timeout_room_member` check that the caller outranks the target
+      (owner > moderator > member), apply the action and write the audit log
+      entry in the same transaction
+    - `rooms_after_slow_mode_change` logs slow mode changes, which owners
+      and moderators make through the existing room update policy
+    - `room_participants_apply_timeout` copies a member's timeout onto
+      their participant row whenever it's inserted
+    - `messages_enforce_slow_mode` stamps new messages with the server time
+      and rejects messages sent too soon, locking the sender's participant
+      row so two concurrent sends can't both pass the check
+    - `messages_after_soft_delete` also logs moderators deleting someone
+      else's message
+    - `redeem_room_invite` refuses banned users
+
+  4. Security
+    - Banned users can't join a room or its voice channel; timed-out users
+      can't send messages
+      and can't clear their own timeout
+    - Timeouts live in `room_timeouts` rather than only on the participant
+      row, so leaving (or being kicked) and rejoining doesn't lift them
+    - Bans and the audit log are visible to the room's owners and
+      moderators and are only written through the functions above;
+      `room_timeouts` has no policies and is only used by those functions
+*/
+
+ALTER TABLE rooms
+  ADD COLUMN IF NOT EXISTS slow_mode_seconds integer DEFAULT 0 NOT NULL
+  CHECK (slow_mode_seconds BETWEEN 0 AND 21600);
+
+ALTER TABLE room_participants ADD COLUMN IF NOT EXISTS timed_out_until timestamptz;
+
+CREATE TABLE IF NOT EXISTS room_bans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id uuid REFERENCES rooms(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  banned_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  reason text DEFAULT '' NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(room_id, user_id)
+);
+
+ALTER TABLE room_bans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Moderators can view bans in their rooms"
+  ON room_bans FOR SELECT
+  TO authenticated
+  USING (room_role(room_id) IN ('owner', 'moderator'));
+
+CREATE TABLE IF NOT EXISTS room_timeouts (
+  room_id uuid REFERENCES rooms(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  timed_out_until timestamptz NOT NULL,
+  PRIMARY KEY (room_id, user_id)
+);
+
+ALTER TABLE room_timeouts ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS moderation_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id uuid REFERENCES rooms(id) ON DELETE CASCADE NOT NULL,
+  actor_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  target_user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  action text NOT NULL CHECK (action IN (
+    'kick', 'ban', 'unban', 'timeout', 'clear_timeout', 'slow_mode', 'delete_message'
+  )),
+  reason text DEFAULT '' NOT NULL,
+  details jsonb DEFAULT '{}'::jsonb NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE moderation_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Moderators can view the log of their rooms"
+  ON moderation_log FOR SELECT
+  TO authenticated
+  USING (room_role(room_id) IN ('owner', 'moderator'));
+
+CREATE INDEX IF NOT EXISTS moderation_log_room_id_idx ON moderation_log(room_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION is_banned_from_room(p_room_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM room_bans
+    WHERE room_id = p_room_id AND user_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION room_timed_out_until(p_room_id uuid)
+RETURNS timestamptz
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT timed_out_until FROM room_timeouts
+  WHERE room_id = p_room_id AND user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION room_participants_apply_timeout()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT timed_out_until INTO NEW.timed_out_until FROM room_timeouts
+  WHERE room_id = NEW.room_id AND user_id = NEW.user_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER room_participants_apply_timeout
+  BEFORE INSERT ON room_participants
+  FOR EACH ROW
+  EXECUTE FUNCTION room_participants_apply_timeout();
+
+CREATE OR REPLACE FUNCTION role_rank(p_role text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_role WHEN 'owner' THEN 3 WHEN 'moderator' THEN 2 WHEN 'member' THEN 1 ELSE 0 END;
+$$;
+
+-- Raises unless the caller is a moderator who outranks the target user.
+CREATE OR REPLACE FUNCTION assert_can_moderate(p_room_id uuid, p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  actor_role text := room_role(p_room_id);
+  target_role text;
+BEGIN
+  IF coalesce(actor_role, '') NOT IN ('owner', 'moderator') THEN
+    RAISE EXCEPTION 'Only moderators can do that';
+  END IF;
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You can''t moderate yourself';
+  END IF;
+
+  SELECT role INTO target_role FROM room_participants
+  WHERE room_id = p_room_id AND user_id = p_user_id;
+
+  IF role_rank(target_role) >= role_rank(actor_role) THEN
+    RAISE EXCEPTION 'You can only moderate members below your role';
+  END IF;
+END;
+$$;
+
+-- Participants: banned users can't (re)join, and nobody can lift their own
+-- timeout. A rejoining member gets their timeout back from the trigger above.
+
+DROP POLICY IF EXISTS "Users can join rooms they can access" ON room_participants;
+CREATE POLICY "Users can join rooms they can access"
+  ON room_participants FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id AND
+    role = 'member' AND
+    can_access_room(room_id) AND
+    NOT is_banned_from_room(room_id)
+  );
+
+DROP POLICY IF EXISTS "Users can update their own participation" ON room_participants;
+CREATE POLICY "Users can update their own participation"
+  ON room_participants FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id AND
+    role = room_role(room_id) AND
+    timed_out_until IS NOT DISTINCT FROM room_timed_out_until(room_id)
+  );
+
+-- Voice: kicks and bans drop the voice state, and banned users can't put it
+-- back, even in public rooms where anyone else can listen in.
+
+DROP POLICY IF EXISTS "Users can join voice in rooms they can access" ON voice_states;
+CREATE POLICY "Users can join voice in rooms they can access"
+  ON voice_states FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id AND
+    can_access_room(room_id) AND
+    NOT is_banned_from_room(room_id)
+  );
+
+DROP POLICY IF EXISTS "Users can update their own voice state" ON voice_states;
+CREATE POLICY "Users can update their own voice state"
+  ON voice_states FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id AND
+    can_access_room(room_id) AND
+    NOT is_banned_from_room(room_id)
+  );
+
+-- Messages: timed-out members can still read but not post.
+
+DROP POLICY IF EXISTS "Members can send messages to active rooms" ON messages;
+CREATE POLICY "Members can send messages to active rooms"
+  ON messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id AND
+    room_role(room_id) IS NOT NULL AND
+    coalesce(room_timed_out_until(room_id) <= now(), true) AND
+    EXISTS (
+      SELECT 1 FROM rooms
+      WHERE rooms.id = messages.room_id
+      AND rooms.is_active = true
+    )
+  );
+
+CREATE OR REPLACE FUNCTION messages_enforce_slow_mode()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  interval_seconds integer;
+  last_sent_at timestamptz;
+BEGIN
+  -- Slow mode compares against created_at, so clients don't get to pick it.
+  NEW.created_at := now();
+
+  SELECT slow_mode_seconds INTO interval_seconds FROM rooms WHERE id = NEW.room_id;
+  IF coalesce(interval_seconds, 0) = 0 OR room_role(NEW.room_id) IN ('owner', 'moderator') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Held until the transaction ends, so a concurrent send waits here and
+  -- then sees this message in the query below.
+  PERFORM 1 FROM room_participants
+  WHERE room_id = NEW.room_id AND user_id = NEW.user_id
+  FOR UPDATE;
+
+  SELECT max(created_at) INTO last_sent_at FROM messages
+  WHERE room_id = NEW.room_id AND user_id = NEW.user_id;
+
+  IF last_sent_at > now() - make_interval(secs => interval_seconds) THEN
+    RAISE EXCEPTION 'Slow mode is on: wait % seconds between messages', interval_seconds
+      USING HINT = ceil(extract(epoch FROM last_sent_at + make_interval(secs => interval_seconds) - now()))::text;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER messages_enforce_slow_mode
+  BEFORE INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION messages_enforce_slow_mode();
+
+CREATE OR REPLACE FUNCTION messages_after_soft_delete()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM message_attachments WHERE message_id = NEW.id;
+
+  IF auth.uid() IS DISTINCT FROM NEW.user_id THEN
+    INSERT INTO moderation_log (room_id, actor_id, target_user_id, action, details)
+    VALUES (NEW.room_id, auth.uid(), NEW.user_id, 'delete_message', jsonb_build_object('message_id', NEW.id));
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Actions
+
+CREATE OR REPLACE FUNCTION kick_room_member(p_room_id uuid, p_user_id uuid, p_reason text DEFAULT '')
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM assert_can_moderate(p_room_id, p_user_id);
+
+  DELETE FROM room_participants WHERE room_id = p_room_id AND user_id = p_user_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+  DELETE FROM voice_states WHERE room_id = p_room_id AND user_id = p_user_id;
+
+  INSERT INTO moderation_log (room_id, actor_id, target_user_id, action, reason)
+  VALUES (p_room_id, auth.uid(), p_user_id, 'kick', coalesce(p_reason, ''));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION ban_room_member(p_room_id uuid, p_user_id uuid, p_reason text DEFAULT '')
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM assert_can_moderate(p_room_id, p_user_id);
+
+  INSERT INTO room_bans (room_id, user_id, banned_by, reason)
+  VALUES (p_room_id, p_user_id, auth.uid(), coalesce(p_reason, ''))
+  ON CONFLICT (room_id, user_id) DO NOTHING;
+
+  DELETE FROM room_participants WHERE room_id = p_room_id AND user_id = p_user_id;
+  DELETE FROM voice_states WHERE room_id = p_room_id AND user_id = p_user_id;
+
+  INSERT INTO moderation_log (room_id, actor_id, target_user_id, action, reason)
+  VALUES (p_room_id, auth.uid(), p_user_id, 'ban', coalesce(p_reason, ''));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION unban_room_member(p_room_id uuid, p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF coalesce(room_role(p_room_id), '') NOT IN ('owner', 'moderator') THEN
+    RAISE EXCEPTION 'Only moderators can do that';
+  END IF;
+
+  DELETE FROM room_bans WHERE room_id = p_room_id AND user_id = p_user_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'That user isn''t banned';
+  END IF;
+
+  INSERT INTO moderation_log (room_id, actor_id, target_user_id, action)
+  VALUES (p_room_id, auth.uid(), p_user_id, 'unban');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION timeout_room_member(
+  p_room_id uuid,
+  p_user_id uuid,
+  p_duration_seconds integer,
+  p_reason text DEFAULT ''
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_until timestamptz := CASE
+    WHEN p_duration_seconds = 0 THEN NULL
+    ELSE now() + make_interval(secs => p_duration_seconds)
+  END;
+BEGIN
+  PERFORM assert_can_moderate(p_room_id, p_user_id);
+  IF p_duration_seconds < 0 OR p_duration_seconds > 28 * 24 * 60 * 60 THEN
+    RAISE EXCEPTION 'Timeouts can last at most 28 days';
+  END IF;
+
+  UPDATE room_participants SET timed_out_until = new_until
+  WHERE room_id = p_room_id AND user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not a member of this room';
+  END IF;
+
+  IF new_until IS NULL THEN
+    DELETE FROM room_timeouts WHERE room_id = p_room_id AND user_id = p_user_id;
+  ELSE
+    INSERT INTO room_timeouts (room_id, user_id, timed_out_until)
+    VALUES (p_room_id, p_user_id, new_until)
+    ON CONFLICT (room_id, user_id) DO UPDATE SET timed_out_until = EXCLUDED.timed_out_until;
+  END IF;
+
+  INSERT INTO moderation_log (room_id, actor_id, target_user_id, action, reason, details)
+  VALUES (
+    p_room_id,
+    auth.uid(),
+    p_user_id,
+    CASE WHEN p_duration_seconds = 0 THEN 'clear_timeout' ELSE 'timeout' END,
+    coalesce(p_reason, ''),
+    jsonb_build_object('duration_seconds', p_duration_seconds)
+  );
+END;
+$$;
+
+-- Slow mode is set with a plain update of `rooms`; logging it here covers
+-- every path that can change it.
+CREATE OR REPLACE FUNCTION rooms_after_slow_mode_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO moderation_log (room_id, actor_id, action, details)
+  VALUES (NEW.id, auth.uid(), 'slow_mode', jsonb_build_object('seconds', NEW.slow_mode_seconds));
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER rooms_after_slow_mode_change
+  AFTER UPDATE OF slow_mode_seconds ON rooms
+  FOR EACH ROW
+  WHEN (OLD.slow_mode_seconds IS DISTINCT FROM NEW.slow_mode_seconds)
+  EXECUTE FUNCTION rooms_after_slow_mode_change();
+
+REVOKE ALL ON FUNCTION kick_room_member(uuid, uuid, text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION ban_room_member(uuid, uuid, text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION unban_room_member(uuid, uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION timeout_room_member(uuid, uuid, integer, text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION assert_can_moderate(uuid, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION kick_room_member(uuid, uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION ban_room_member(uuid, uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION unban_room_member(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION timeout_room_member(uuid, uuid, integer, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION redeem_room_invite(p_code text)
+RETURNS rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invite room_invites;
+  room rooms;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO invite FROM room_invites WHERE code = btrim(p_code) FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This invite is invalid or has been revoked';
+  END IF;
+
+  SELECT * INTO room FROM rooms WHERE id = invite.room_id AND is_active = true;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This room no longer exists';
+  END IF;
+
+  IF is_banned_from_room(room.id) THEN
+    RAISE EXCEPTION 'You are banned from this room';
+  END IF;
+
+  -- Existing members just get the room back without using up the invite.
+  IF EXISTS (
+    SELECT 1 FROM room_participants
+    WHERE room_id = room.id AND user_id = auth.uid()
+  ) THEN
+    RETURN room;
+  END IF;
+
+  IF invite.expires_at IS NOT NULL AND invite.expires_at <= now() THEN
+    RAISE EXCEPTION 'This invite has expired';
+  END IF;
+  IF invite.max_uses IS NOT NULL AND invite.uses >= invite.max_uses THEN
+    RAISE EXCEPTION 'This invite has reached its usage limit';
+  END IF;
+
+  INSERT INTO room_participants (room_id, user_id, role)
+  VALUES (room.id, auth.uid(), 'member');
+
+  UPDATE room_invites SET uses = uses + 1 WHERE id = invite.id;
+
+  RETURN room;
+END;
+$$;
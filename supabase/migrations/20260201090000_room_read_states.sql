@@ -0,0 +1,101 @@
+/*
+  # Room Read States and Unread Counts
+
+  1. New Tables
+    - `room_read_states`
+      - `user_id` (uuid, references auth.users)
+      - `room_id` (uuid, references rooms)
+      - `last_read_at` (timestamptz, created_at of the newest message read)
+      - `updated_at` (timestamptz)
+      - Primary key (user_id, room_id)
+
+  2. Functions
+    - `mark_room_read(room_id, read_at)` moves the caller's read marker
+      forward; it never moves backwards, so a stale tab can't un-read a room
+    - `room_unread_counts()` returns, for every room the caller belongs to,
+      the number of unread main-feed messages from other people and how many
+      unread messages (including thread replies) mention the caller by
+      `@username`. Rooms without a read state count from when the caller
+      joined, so a new DM shows up as unread.
+
+  3. Realtime
+    - `room_read_states` is published so other tabs of the same user pick up
+      read markers
+
+  4. Security
+    - Enable RLS; users can only see their own read states, which are only
+      written through `mark_room_read`
+*/
+
+CREATE TABLE IF NOT EXISTS room_read_states (
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  room_id uuid REFERENCES rooms(id) ON DELETE CASCADE NOT NULL,
+  last_read_at timestamptz NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  PRIMARY KEY (user_id, room_id)
+);
+
+ALTER TABLE room_read_states ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own read states"
+  ON room_read_states FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION mark_room_read(p_room_id uuid, p_read_at timestamptz DEFAULT now())
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT can_access_room(p_room_id) THEN
+    RAISE EXCEPTION 'Room not found';
+  END IF;
+
+  INSERT INTO room_read_states (user_id, room_id, last_read_at)
+  VALUES (auth.uid(), p_room_id, least(p_read_at, now()))
+  ON CONFLICT (user_id, room_id) DO UPDATE
+  SET last_read_at = EXCLUDED.last_read_at,
+      updated_at = now()
+  WHERE room_read_states.last_read_at < EXCLUDED.last_read_at;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION mark_room_read(uuid, timestamptz) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION mark_room_read(uuid, timestamptz) TO authenticated;
+
+CREATE OR REPLACE FUNCTION room_unread_counts()
+RETURNS TABLE (room_id uuid, last_read_at timestamptz, unread_count integer, mention_count integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    rp.room_id,
+    rs.last_read_at,
+    count(m.id) FILTER (WHERE m.thread_id IS NULL)::integer,
+    count(m.id) FILTER (
+      WHERE position(lower('@' || me.username) IN lower(m.content)) > 0
+    )::integer
+  FROM room_participants rp
+  JOIN user_profiles me ON me.id = rp.user_id
+  LEFT JOIN room_read_states rs ON rs.user_id = rp.user_id AND rs.room_id = rp.room_id
+  LEFT JOIN messages m
+    ON m.room_id = rp.room_id
+    AND m.created_at > coalesce(rs.last_read_at, rp.joined_at)
+    AND m.user_id <> rp.user_id
+    AND m.deleted_at IS NULL
+  WHERE rp.user_id = auth.uid()
+  GROUP BY rp.room_id, rs.last_read_at;
+$$;
+
+REVOKE ALL ON FUNCTION room_unread_counts() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION room_unread_counts() TO authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE room_read_states;
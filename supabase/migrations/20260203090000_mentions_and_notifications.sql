@@ -0,0 +1,204 @@
+/*
+  # Mentions and Notifications
+
+  Messages reference users as `<@user id>` tokens so a mention survives the
+  user being renamed; clients render the token with the current username.
+  `@everyone` and `@here` stay as plain text.
+
+  1. New Tables
+    - `message_mentions`
+      - `message_id` (uuid, references messages)
+      - `room_id` (uuid, references rooms)
+      - `user_id` (uuid, references user_profiles)
+      - Primary key (message_id, user_id)
+    - `notifications`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users, the recipient)
+      - `room_id` (uuid, references rooms)
+      - `message_id` (uuid, references messages)
+      - `actor_id` (uuid, references auth.users, who triggered it)
+      - `kind` (text: mention)
+      - `created_at` (timestamptz)
+      - `read_at` (timestamptz, null while unread)
+      - Unique (user_id, message_id, kind)
+
+  2. Functions
+    - `messages_sync_mentions` keeps `message_mentions` in step with a
+      message's content on insert and edit, and notifies everyone newly
+      mentioned. Only the room's members can be mentioned, even in public
+      rooms, so a message can't ping arbitrary or banned users.
+      `@everyone` notifies all members and `@here` the ones online; outside
+      DMs only owners and moderators can use them. Deleting a message drops
+      its mentions and notifications.
+    - `room_unread_counts()` now counts mentions from notifications, so
+      `@everyone`, `@here` and renamed users are all included
+
+  3. Realtime
+    - `notifications` is published so recipients get them live
+
+  4. Security
+    - Enable RLS on both tables; mentions are visible to anyone who can read
+      the room's messages and are only written by the trigger
+    - Users can only see, mark read and dismiss their own notifications
+*/
+
+CREATE TABLE IF NOT EXISTS message_mentions (
+  message_id uuid REFERENCES messages(id) ON DELETE CASCADE NOT NULL,
+  room_id uuid REFERENCES rooms(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES user_profiles(id) ON DELETE CASCADE NOT NULL,
+  PRIMARY KEY (message_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS message_mentions_user_id_idx ON message_mentions(user_id);
+
+ALTER TABLE message_mentions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view mentions"
+  ON message_mentions FOR SELECT
+  TO authenticated
+  USING (room_role(room_id) IS NOT NULL);
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  room_id uuid REFERENCES rooms(id) ON DELETE CASCADE NOT NULL,
+  message_id uuid REFERENCES messages(id) ON DELETE CASCADE NOT NULL,
+  actor_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  kind text NOT NULL CHECK (kind IN ('mention')),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  read_at timestamptz,
+  UNIQUE(user_id, message_id, kind)
+);
+
+CREATE INDEX IF NOT EXISTS notifications_user_id_created_at_idx
+  ON notifications(user_id, created_at DESC);
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their notifications"
+  ON notifications FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can mark their notifications read"
+  ON notifications FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can dismiss their notifications"
+  ON notifications FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Column-level guard so "mark read" can't rewrite what a notification points at.
+REVOKE UPDATE ON notifications FROM authenticated;
+GRANT UPDATE (read_at) ON notifications TO authenticated;
+
+CREATE OR REPLACE FUNCTION messages_sync_mentions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  room rooms;
+  mentioned uuid[];
+  recipients uuid[];
+  author_role text;
+BEGIN
+  IF NEW.deleted_at IS NOT NULL THEN
+    DELETE FROM message_mentions WHERE message_id = NEW.id;
+    DELETE FROM notifications WHERE message_id = NEW.id;
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO room FROM rooms WHERE id = NEW.room_id;
+
+  SELECT coalesce(array_agg(DISTINCT p.id), '{}')
+  INTO mentioned
+  FROM regexp_matches(NEW.content, '<@([0-9a-fA-F-]{36})>', 'g') AS token
+  JOIN user_profiles p ON p.id = lower(token[1])::uuid
+  WHERE p.id <> NEW.user_id
+  AND NOT EXISTS (
+    SELECT 1 FROM room_bans b WHERE b.room_id = NEW.room_id AND b.user_id = p.id
+  )
+  AND EXISTS (
+    SELECT 1 FROM room_participants rp
+    WHERE rp.room_id = NEW.room_id AND rp.user_id = p.id
+  );
+
+  recipients := mentioned;
+
+  SELECT role INTO author_role FROM room_participants
+  WHERE room_id = NEW.room_id AND user_id = NEW.user_id;
+
+  IF room.kind <> 'public' OR author_role IN ('owner', 'moderator') THEN
+    IF NEW.content ~ '(^|\W)@everyone\M' THEN
+      recipients := recipients || ARRAY(
+        SELECT user_id FROM room_participants
+        WHERE room_id = NEW.room_id AND user_id <> NEW.user_id
+      );
+    ELSIF NEW.content ~ '(^|\W)@here\M' THEN
+      recipients := recipients || ARRAY(
+        SELECT user_id FROM room_participants
+        WHERE room_id = NEW.room_id AND user_id <> NEW.user_id AND is_online = true
+      );
+    END IF;
+  END IF;
+
+  -- An edit drops notifications for mentions it removed; existing ones are
+  -- left alone so nobody is notified twice.
+  DELETE FROM message_mentions
+  WHERE message_id = NEW.id AND NOT (user_id = ANY(mentioned));
+
+  DELETE FROM notifications
+  WHERE message_id = NEW.id AND kind = 'mention' AND NOT (user_id = ANY(recipients));
+
+  INSERT INTO message_mentions (message_id, room_id, user_id)
+  SELECT NEW.id, NEW.room_id, unnest(mentioned)
+  ON CONFLICT DO NOTHING;
+
+  INSERT INTO notifications (user_id, room_id, message_id, actor_id, kind)
+  SELECT DISTINCT recipient, NEW.room_id, NEW.id, NEW.user_id, 'mention'
+  FROM unnest(recipients) AS recipient
+  ON CONFLICT (user_id, message_id, kind) DO NOTHING;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER messages_sync_mentions
+  AFTER INSERT OR UPDATE OF content, deleted_at ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION messages_sync_mentions();
+
+CREATE OR REPLACE FUNCTION room_unread_counts()
+RETURNS TABLE (room_id uuid, last_read_at timestamptz, unread_count integer, mention_count integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    rp.room_id,
+    rs.last_read_at,
+    count(m.id) FILTER (WHERE m.thread_id IS NULL)::integer,
+    count(m.id) FILTER (
+      WHERE EXISTS (
+        SELECT 1 FROM notifications n
+        WHERE n.message_id = m.id AND n.user_id = rp.user_id AND n.kind = 'mention'
+      )
+    )::integer
+  FROM room_participants rp
+  LEFT JOIN room_read_states rs ON rs.user_id = rp.user_id AND rs.room_id = rp.room_id
+  LEFT JOIN messages m
+    ON m.room_id = rp.room_id
+    AND m.created_at > coalesce(rs.last_read_at, rp.joined_at)
+    AND m.user_id <> rp.user_id
+    AND m.deleted_at IS NULL
+  WHERE rp.user_id = auth.uid()
+  GROUP BY rp.room_id, rs.last_read_at;
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
@@ -0,0 +1,125 @@
+/*
+  # Notification Center and Preferences
+
+  1. Modified Tables
+    - `notifications`
+      - `kind` also allows `reply` (someone replied to or in a thread on your
+        message) and `direct_message` (a new message in one of your DMs)
+
+  2. New Tables
+    - `notification_preferences`
+      - `user_id` (uuid, references auth.users)
+      - `room_id` (uuid, references rooms)
+      - `level` (text: all, mentions, muted)
+      - `updated_at` (timestamptz)
+      - Primary key (user_id, room_id)
+      - Rooms without a row use the client default: `all` for DMs and
+        `mentions` for other rooms
+
+  3. Functions
+    - `messages_notify_replies_and_dms` creates `reply` and `direct_message`
+      notifications for new messages
+    - `notifications_skip_muted` drops any notification for a room the
+      recipient has muted, whichever trigger created it
+
+  4. Realtime
+    - `notification_preferences` is published so a change applies in every
+      open tab
+
+  5. Security
+    - Enable RLS on `notification_preferences`; users manage only their own
+*/
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_kind_check;
+ALTER TABLE notifications
+  ADD CONSTRAINT notifications_kind_check
+  CHECK (kind IN ('mention', 'reply', 'direct_message'));
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  room_id uuid REFERENCES rooms(id) ON DELETE CASCADE NOT NULL,
+  level text NOT NULL CHECK (level IN ('all', 'mentions', 'muted')),
+  updated_at timestamptz DEFAULT now() NOT NULL,
+  PRIMARY KEY (user_id, room_id)
+);
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their notification preferences"
+  ON notification_preferences FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can set notification preferences for rooms they can see"
+  ON notification_preferences FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid() AND can_access_room(room_id));
+
+CREATE POLICY "Users can change their notification preferences"
+  ON notification_preferences FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can reset their notification preferences"
+  ON notification_preferences FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION messages_notify_replies_and_dms()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Inline replies notify the quoted author, thread replies the thread starter.
+  INSERT INTO notifications (user_id, room_id, message_id, actor_id, kind)
+  SELECT DISTINCT m.user_id, NEW.room_id, NEW.id, NEW.user_id, 'reply'
+  FROM messages m
+  WHERE m.id IN (NEW.parent_id, NEW.thread_id)
+  AND m.user_id <> NEW.user_id
+  AND m.deleted_at IS NULL
+  ON CONFLICT (user_id, message_id, kind) DO NOTHING;
+
+  IF EXISTS (SELECT 1 FROM rooms WHERE id = NEW.room_id AND kind <> 'public') THEN
+    INSERT INTO notifications (user_id, room_id, message_id, actor_id, kind)
+    SELECT rp.user_id, NEW.room_id, NEW.id, NEW.user_id, 'direct_message'
+    FROM room_participants rp
+    WHERE rp.room_id = NEW.room_id AND rp.user_id <> NEW.user_id
+    ON CONFLICT (user_id, message_id, kind) DO NOTHING;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER messages_notify_replies_and_dms
+  AFTER INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION messages_notify_replies_and_dms();
+
+CREATE OR REPLACE FUNCTION notifications_skip_muted()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM notification_preferences
+    WHERE user_id = NEW.user_id AND room_id = NEW.room_id AND level = 'muted'
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notifications_skip_muted
+  BEFORE INSERT ON notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION notifications_skip_muted();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE notification_preferences;
@@ -0,0 +1,83 @@
+/*
+  # Message Search
+
+  1. Indexes
+    - GIN expression index on `to_tsvector('english', content)`; it's an
+      index rather than a stored column so message selects don't carry
+      the vector
+
+  2. Functions
+    - `search_messages(...)` matches messages against a web-style query
+      (quoted phrases, `or`, `-word`) and optional filters for room, author,
+      date range and whether the message has an attachment or a link.
+      Returns matching ids newest first with a snippet whose hits are
+      wrapped in \x02 ... \x03, plus the match rank. Deleted messages are
+      never returned. Without a query the snippet is the start of the
+      message, so filters can be used on their own.
+
+  3. Security
+    - `search_messages` runs as the caller, so the membership policies on
+      `messages` and `message_attachments` decide what can be found
+*/
+
+CREATE INDEX IF NOT EXISTS messages_content_search_idx
+  ON messages USING gin(to_tsvector('english', content));
+
+CREATE OR REPLACE FUNCTION search_messages(
+  p_query text DEFAULT '',
+  p_room_id uuid DEFAULT NULL,
+  p_author_id uuid DEFAULT NULL,
+  p_after timestamptz DEFAULT NULL,
+  p_before timestamptz DEFAULT NULL,
+  p_has_attachment boolean DEFAULT false,
+  p_has_link boolean DEFAULT false,
+  p_limit integer DEFAULT 25,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (id uuid, snippet text, rank real)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH search AS (
+    SELECT CASE
+      WHEN trim(coalesce(p_query, '')) = '' THEN NULL
+      ELSE websearch_to_tsquery('english', p_query)
+    END AS query
+  )
+  SELECT
+    m.id,
+    CASE
+      WHEN search.query IS NULL THEN left(m.content, 200)
+      ELSE ts_headline(
+        'english',
+        m.content,
+        search.query,
+        'StartSel=' || chr(2) || ', StopSel=' || chr(3) ||
+        ', MaxFragments=2, MaxWords=24, MinWords=8, FragmentDelimiter=" … "'
+      )
+    END,
+    CASE
+      WHEN search.query IS NULL THEN 0::real
+      ELSE ts_rank(to_tsvector('english', m.content), search.query)
+    END
+  FROM messages m, search
+  WHERE m.deleted_at IS NULL
+  AND (search.query IS NULL OR to_tsvector('english', m.content) @@ search.query)
+  AND (p_room_id IS NULL OR m.room_id = p_room_id)
+  AND (p_author_id IS NULL OR m.user_id = p_author_id)
+  AND (p_after IS NULL OR m.created_at >= p_after)
+  AND (p_before IS NULL OR m.created_at < p_before)
+  AND (
+    NOT p_has_attachment
+    OR EXISTS (SELECT 1 FROM message_attachments a WHERE a.message_id = m.id)
+  )
+  AND (NOT p_has_link OR m.content ~* 'https?://')
+  ORDER BY m.created_at DESC, m.id DESC
+  LIMIT least(greatest(p_limit, 1), 100)
+  OFFSET greatest(p_offset, 0);
+$$;
+
+REVOKE ALL ON FUNCTION search_messages(text, uuid, uuid, timestamptz, timestamptz, boolean, boolean, integer, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION search_messages(text, uuid, uuid, timestamptz, timestamptz, boolean, boolean, integer, integer) TO authenticated;
@@ -0,0 +1,52 @@
+/*
+  # Read Receipts
+
+  Typing indicators and live receipt updates travel over the
+  `room_activity_${roomId}` broadcast channel and aren't stored; this
+  migration only covers loading receipts when a room is opened.
+
+  1. Modified Tables
+    - `user_profiles`
+      - `share_read_receipts` (boolean, default true). Receipts are
+        reciprocal: users who turn them off neither share nor see them.
+
+  2. Functions
+    - `room_read_receipts(room_id)` returns the read markers of the other
+      members of a DM or a room with at most 10 members, for callers who
+      are members themselves and share receipts
+
+  3. Security
+    - `room_read_states` stays readable only by its owner; other members'
+      markers are only exposed through `room_read_receipts`
+*/
+
+ALTER TABLE user_profiles
+  ADD COLUMN IF NOT EXISTS share_read_receipts boolean DEFAULT true NOT NULL;
+
+-- `user_profiles` is readable column by column (see the user status migration).
+GRANT SELECT (share_read_receipts) ON user_profiles TO authenticated;
+
+CREATE OR REPLACE FUNCTION room_read_receipts(p_room_id uuid)
+RETURNS TABLE (user_id uuid, last_read_at timestamptz)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT rs.user_id, rs.last_read_at
+  FROM room_read_states rs
+  JOIN room_participants rp ON rp.room_id = rs.room_id AND rp.user_id = rs.user_id
+  JOIN user_profiles p ON p.id = rs.user_id
+  WHERE rs.room_id = p_room_id
+  AND rs.user_id <> auth.uid()
+  AND p.share_read_receipts
+  AND EXISTS (
+    SELECT 1 FROM user_profiles me
+    WHERE me.id = auth.uid() AND me.share_read_receipts
+  )
+  AND room_role(p_room_id) IS NOT NULL
+  AND (SELECT count(*) FROM room_participants WHERE room_id = p_room_id) <= 10;
+$$;
+
+REVOKE ALL ON FUNCTION room_read_receipts(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION room_read_receipts(uuid) TO authenticated;
@@ -0,0 +1,73 @@
+/*
+  # Idempotent Message Sending
+
+  Clients now render a message before the server has it and keep unsent
+  messages in a local outbox, so the id is chosen up front and a send may
+  be retried after a response was lost.
+
+  1. Functions
+    - `send_message(...)` takes an optional `p_id`. Sending an id that the
+      caller has already sent returns the stored message instead of
+      inserting a duplicate; an id belonging to someone else is rejected.
+*/
+
+DROP FUNCTION IF EXISTS send_message(uuid, text, uuid, uuid, jsonb);
+
+CREATE OR REPLACE FUNCTION send_message(
+  p_room_id uuid,
+  p_content text,
+  p_parent_id uuid DEFAULT NULL,
+  p_thread_id uuid DEFAULT NULL,
+  p_attachments jsonb DEFAULT '[]'::jsonb,
+  p_id uuid DEFAULT NULL
+)
+RETURNS messages
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  new_message messages;
+BEGIN
+  IF p_id IS NOT NULL THEN
+    SELECT * INTO new_message FROM messages WHERE id = p_id;
+    IF FOUND THEN
+      IF new_message.user_id <> auth.uid() THEN
+        RAISE EXCEPTION 'Message id is already in use';
+      END IF;
+      RETURN new_message;
+    END IF;
+  END IF;
+
+  IF coalesce(btrim(p_content), '') = '' AND jsonb_array_length(p_attachments) = 0 THEN
+    RAISE EXCEPTION 'Message is empty';
+  END IF;
+
+  INSERT INTO messages (id, room_id, user_id, content, parent_id, thread_id)
+  VALUES (
+    coalesce(p_id, gen_random_uuid()),
+    p_room_id,
+    auth.uid(),
+    coalesce(p_content, ''),
+    p_parent_id,
+    p_thread_id
+  )
+  RETURNING * INTO new_message;
+
+  INSERT INTO message_attachments (
+    message_id, room_id, storage_path, file_name, mime_type, size_bytes, width, height
+  )
+  SELECT
+    new_message.id,
+    p_room_id,
+    attachment->>'storage_path',
+    attachment->>'file_name',
+    attachment->>'mime_type',
+    (attachment->>'size_bytes')::bigint,
+    (attachment->>'width')::integer,
+    (attachment->>'height')::integer
+  FROM jsonb_array_elements(p_attachments) AS attachment;
+
+  RETURN new_message;
+END;
+$$;
@@ -0,0 +1,45 @@
+/*
+  # Voice Preferences
+
+  1. New Tables
+    - `voice_preferences`
+      - `user_id` (uuid, primary key, references auth.users)
+      - `noise_suppression` (boolean)
+      - `echo_cancellation` (boolean)
+      - `auto_gain_control` (boolean)
+      - `participant_volumes` (jsonb) playback volume per user id, from 0
+        to 2 where 1 is unchanged; users without an entry play at 1
+      - `updated_at` (timestamptz)
+      - Users without a row get every processing option turned on
+
+  2. Security
+    - Enable RLS; users see and change only their own preferences
+*/
+
+CREATE TABLE IF NOT EXISTS voice_preferences (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  noise_suppression boolean DEFAULT true NOT NULL,
+  echo_cancellation boolean DEFAULT true NOT NULL,
+  auto_gain_control boolean DEFAULT true NOT NULL,
+  participant_volumes jsonb DEFAULT '{}'::jsonb NOT NULL
+    CHECK (jsonb_typeof(participant_volumes) = 'object'),
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+ALTER TABLE voice_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their voice preferences"
+  ON voice_preferences FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create their voice preferences"
+  ON voice_preferences FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can change their voice preferences"
+  ON voice_preferences FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
@@ -0,0 +1,75 @@
+/*
+  # Thread Reply Counts Ignore Deleted Replies
+
+  1. Triggers
+    - `messages_after_thread_reply` recounts the root's `reply_count` and
+      `last_reply_at` from its remaining replies when one is deleted.
+      Messages are only soft-deleted now, so this also runs when a reply's
+      `deleted_at` is set, through the new
+      `messages_after_thread_reply_deleted` trigger
+
+  2. Data
+    - Recounts every thread root, since replies deleted before this
+      migration are still counted
+*/
+
+CREATE OR REPLACE FUNCTION messages_after_thread_reply()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.thread_id IS NOT NULL THEN
+    UPDATE messages
+    SET reply_count = reply_count + 1,
+        last_reply_at = NEW.created_at
+    WHERE id = NEW.thread_id;
+  ELSIF TG_OP IN ('UPDATE', 'DELETE') AND OLD.thread_id IS NOT NULL THEN
+    UPDATE messages
+    SET reply_count = (
+          SELECT count(*) FROM messages AS reply
+          WHERE reply.thread_id = OLD.thread_id AND reply.deleted_at IS NULL
+        ),
+        last_reply_at = (
+          SELECT max(created_at) FROM messages AS reply
+          WHERE reply.thread_id = OLD.thread_id AND reply.deleted_at IS NULL
+        )
+    WHERE id = OLD.thread_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER messages_after_thread_reply_deleted
+  AFTER UPDATE OF deleted_at ON messages
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL AND OLD.thread_id IS NOT NULL)
+  EXECUTE FUNCTION messages_after_thread_reply();
+
+-- messages_before_update only lets counters change from nested triggers, so
+-- it's set aside while the counts are corrected.
+ALTER TABLE messages DISABLE TRIGGER messages_before_update;
+
+UPDATE messages AS root
+SET reply_count = counts.reply_count,
+    last_reply_at = counts.last_reply_at
+FROM (
+  SELECT
+    thread.id,
+    count(reply.id) AS reply_count,
+    max(reply.created_at) AS last_reply_at
+  FROM messages AS thread
+  LEFT JOIN messages AS reply
+    ON reply.thread_id = thread.id AND reply.deleted_at IS NULL
+  WHERE thread.reply_count > 0 OR thread.last_reply_at IS NOT NULL
+  GROUP BY thread.id
+) AS counts
+WHERE root.id = counts.id
+AND (
+  root.reply_count IS DISTINCT FROM counts.reply_count OR
+  root.last_reply_at IS DISTINCT FROM counts.last_reply_at
+);
+
+ALTER TABLE messages ENABLE TRIGGER messages_before_update;
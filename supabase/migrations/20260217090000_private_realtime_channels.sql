@@ -0,0 +1,46 @@
+/*
+  # Private Realtime Channels for Rooms
+
+  1. Functions
+    - `realtime_topic_room_id(topic)` returns the room a room-scoped channel
+      belongs to: `webrtc_{id}` and `sfu_{id}` (call signaling),
+      `room_activity_{id}` (typing and read receipts) and
+      `room_{id}_presence`; null for any other topic
+
+  2. Security
+    - Clients join these channels as private channels, so Realtime checks
+      the policies below on `realtime.messages` before letting anyone
+      listen, broadcast or track presence
+    - Only users who can access the room and aren't banned from it get in,
+      so removed members and anyone who merely knows a DM's or private
+      room's id can't join its calls or watch its activity
+*/
+
+CREATE OR REPLACE FUNCTION realtime_topic_room_id(p_topic text)
+RETURNS uuid
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT coalesce(
+    substring(p_topic FROM '^(?:webrtc|sfu|room_activity)_([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$'),
+    substring(p_topic FROM '^room_([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})_presence$')
+  )::uuid;
+$$;
+
+CREATE POLICY "Room members can receive room broadcasts and presence"
+  ON realtime.messages FOR SELECT
+  TO authenticated
+  USING (
+    realtime.messages.extension IN ('broadcast', 'presence') AND
+    can_access_room(realtime_topic_room_id(realtime.topic())) AND
+    NOT is_banned_from_room(realtime_topic_room_id(realtime.topic()))
+  );
+
+CREATE POLICY "Room members can send room broadcasts and presence"
+  ON realtime.messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    realtime.messages.extension IN ('broadcast', 'presence') AND
+    can_access_room(realtime_topic_room_id(realtime.topic())) AND
+    NOT is_banned_from_room(realtime_topic_room_id(realtime.topic()))
+  );